@@ -0,0 +1,60 @@
+import { ASTParser } from '../parsers/ast-parser.js';
+import { ImportScanner, ScannedImport } from '../parsers/import-scanner.js';
+import { CodeValidationResult, DiscoveryEngine, ImportReport, ValidateCodeInput, ValidationResult } from '../types.js';
+
+/**
+ * Validate every import of a file or snippet in one pass. Statements are found with Babel for
+ * JavaScript/TypeScript and with ImportScanner elsewhere, then checked one by one through the
+ * language engine's validateImport.
+ */
+export async function validateCode(engine: DiscoveryEngine, input: ValidateCodeInput): Promise<CodeValidationResult> {
+  let statements: ScannedImport[];
+  try {
+    statements = findImports(input);
+  } catch (error) {
+    return {
+      valid: false,
+      language: input.language,
+      reason: `Could not parse code: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      summary: { total: 0, valid: 0, invalid: 0 },
+      imports: [],
+    };
+  }
+
+  const imports: ImportReport[] = [];
+  for (const statement of statements) {
+    const result: ValidationResult = statement.local
+      ? { valid: true, packageName: statement.module, reason: 'Refers to the project\'s own modules; not checked' }
+      : await engine.validateImport({
+          importStatement: statement.statement,
+          language: input.language,
+          projectPath: input.projectPath,
+          importingFile: input.importingFile,
+        });
+    imports.push({ ...result, statement: statement.text, line: statement.line, column: statement.column });
+  }
+
+  const invalid = imports.filter(report => !report.valid).length;
+  return {
+    valid: invalid === 0,
+    language: input.language,
+    summary: { total: imports.length, valid: imports.length - invalid, invalid },
+    imports,
+  };
+}
+
+function findImports(input: ValidateCodeInput): ScannedImport[] {
+  if (input.language !== 'javascript') {
+    return ImportScanner.scan(input.code, input.language);
+  }
+
+  // The JavaScript engine resolves relative and aliased specifiers itself
+  return ASTParser.parseImportLocations(input.code).map(({ source, statement, line, column }) => ({
+    statement,
+    text: statement,
+    module: source,
+    local: false,
+    line,
+    column,
+  }));
+}
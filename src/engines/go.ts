@@ -14,6 +14,9 @@ import {
   PackageInfo,
   ModuleExport,
 } from '../types.js';
+import { rankSuggestions } from '../utils/suggestions.js';
+import { assessPackageRisk } from '../utils/typosquat.js';
+import { checkRegistry, REGISTRY_NAMES } from '../utils/registry-index.js';
 
 /**
  * Go standard library packages
@@ -137,6 +140,7 @@ export class GoDiscoveryEngine implements DiscoveryEngine {
         const result: ValidationResult = {
           valid: true,
           packageName,
+          packageStatus: 'installed',
           reason: 'Go standard library package',
         };
         this.cache.set(cacheKey, result);
@@ -150,16 +154,22 @@ export class GoDiscoveryEngine implements DiscoveryEngine {
         const result: ValidationResult = {
           valid: true,
           packageName,
+          packageStatus: 'installed',
         };
         this.cache.set(cacheKey, result);
         return result;
       } else {
-        const suggestions = await this.getSimilarPackages(packageName);
+        const knownPackages = await this.getKnownPackages();
+        const suggestions = rankSuggestions(packageName, knownPackages);
+        const listing = checkRegistry('go', packageName);
         const result: ValidationResult = {
           valid: false,
           packageName,
-          reason: `Package '${packageName}' is not found in go.mod`,
-          suggestions,
+          reason: `Package '${packageName}' is not found in go.mod${listing.registry ? `, but it is published on ${REGISTRY_NAMES.go}` : ''}`,
+          suggestions: suggestions.map(suggestion => suggestion.name),
+          rankedSuggestions: suggestions,
+          risk: assessPackageRisk(packageName, 'go', knownPackages),
+          ...listing,
         };
         this.cache.set(cacheKey, result);
         return result;
@@ -344,35 +354,20 @@ export class GoDiscoveryEngine implements DiscoveryEngine {
     }
   }
 
-  private async getSimilarPackages(packageName: string): Promise<string[]> {
-    const suggestions: string[] = [];
-    
+  private async getKnownPackages(): Promise<Set<string>> {
+    const candidates = new Set<string>(GO_STDLIB_PACKAGES);
+
     try {
       const goModPath = this.findGoMod(process.cwd());
-      
       if (goModPath) {
-        const goMod = this.parseGoMod(goModPath);
-        const dependencies = goMod.require || [];
-        
-        // Simple similarity check
-        for (const dep of dependencies) {
-          if (dep.name.includes(packageName) || packageName.includes(dep.name)) {
-            suggestions.push(dep.name);
-          }
-        }
-      }
-      
-      // Also check standard library
-      for (const stdlibPackage of GO_STDLIB_PACKAGES) {
-        if (stdlibPackage.includes(packageName) || packageName.includes(stdlibPackage)) {
-          suggestions.push(stdlibPackage);
+        for (const dep of this.parseGoMod(goModPath).require || []) {
+          candidates.add(dep.name);
         }
       }
-      
     } catch (error) {
       console.debug('Error getting similar packages:', error);
     }
-    
-    return suggestions.slice(0, 5);
+
+    return candidates;
   }
 }
\ No newline at end of file
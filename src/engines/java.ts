@@ -1,6 +1,6 @@
 import { execSync } from 'child_process';
 import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { CacheManager } from '../cache.js';
 import {
   DiscoveryEngine,
@@ -14,6 +14,9 @@ import {
   PackageInfo,
   ModuleExport,
 } from '../types.js';
+import { rankSuggestions } from '../utils/suggestions.js';
+import { assessPackageRisk } from '../utils/typosquat.js';
+import { checkRegistry, REGISTRY_NAMES } from '../utils/registry-index.js';
 
 /**
  * Java standard library packages
@@ -97,7 +100,7 @@ export class JavaDiscoveryEngine implements DiscoveryEngine {
   }
 
   async validateImport(input: ValidateImportInput): Promise<ValidationResult> {
-    const cacheKey = CacheManager.generateKey('validate_java', input.importStatement);
+    const cacheKey = CacheManager.generateKey('validate_java', input.importStatement, input.projectPath);
     
     // Check cache first
     const cached = this.cache.get<ValidationResult>(cacheKey);
@@ -107,6 +110,7 @@ export class JavaDiscoveryEngine implements DiscoveryEngine {
 
     try {
       const packageName = this.extractPackageNameFromImport(input.importStatement);
+      const projectRoot = resolve(input.projectPath ?? process.cwd());
       
       if (!packageName) {
         const result: ValidationResult = {
@@ -124,6 +128,7 @@ export class JavaDiscoveryEngine implements DiscoveryEngine {
         const result: ValidationResult = {
           valid: true,
           packageName,
+          packageStatus: 'installed',
           reason: 'Java standard library package',
         };
         this.cache.set(cacheKey, result);
@@ -131,22 +136,28 @@ export class JavaDiscoveryEngine implements DiscoveryEngine {
       }
 
       // Check if package is in build file
-      const isInBuildFile = await this.checkPackageInBuildFile(packageName);
+      const isInBuildFile = await this.checkPackageInBuildFile(packageName, projectRoot);
       
       if (isInBuildFile) {
         const result: ValidationResult = {
           valid: true,
           packageName,
+          packageStatus: 'installed',
         };
         this.cache.set(cacheKey, result);
         return result;
       } else {
-        const suggestions = await this.getSimilarPackages(packageName);
+        const knownPackages = await this.getKnownPackages(projectRoot);
+        const suggestions = rankSuggestions(packageName, knownPackages);
+        const listing = checkRegistry('maven', packageName, this.getBuildTool(projectRoot));
         const result: ValidationResult = {
           valid: false,
           packageName,
-          reason: `Package '${packageName}' is not found in build dependencies`,
-          suggestions,
+          reason: `Package '${packageName}' is not found in build dependencies${listing.registry ? `, but it is published on ${REGISTRY_NAMES.maven}` : ''}`,
+          suggestions: suggestions.map(suggestion => suggestion.name),
+          rankedSuggestions: suggestions,
+          risk: assessPackageRisk(packageName, 'java', knownPackages),
+          ...listing,
         };
         this.cache.set(cacheKey, result);
         return result;
@@ -361,9 +372,9 @@ export class JavaDiscoveryEngine implements DiscoveryEngine {
            packageName.startsWith('org.ietf.');
   }
 
-  private async checkPackageInBuildFile(packageName: string): Promise<boolean> {
+  private async checkPackageInBuildFile(packageName: string, projectRoot: string): Promise<boolean> {
     try {
-      const buildFilePath = this.findBuildFile(process.cwd());
+      const buildFilePath = this.findBuildFile(projectRoot);
       
       if (!buildFilePath) {
         return false;
@@ -381,34 +392,24 @@ export class JavaDiscoveryEngine implements DiscoveryEngine {
     }
   }
 
-  private async getSimilarPackages(packageName: string): Promise<string[]> {
-    const suggestions: string[] = [];
-    
+  private getBuildTool(projectRoot: string): string {
+    return this.findBuildFile(projectRoot)?.includes('build.gradle') ? 'gradle' : 'maven';
+  }
+
+  private async getKnownPackages(projectRoot: string): Promise<Set<string>> {
+    const candidates = new Set<string>(JAVA_STDLIB_PACKAGES);
+
     try {
-      const buildFilePath = this.findBuildFile(process.cwd());
-      
+      const buildFilePath = this.findBuildFile(projectRoot);
       if (buildFilePath) {
-        const dependencies = this.parseBuildFile(buildFilePath);
-        
-        // Simple similarity check
-        for (const dep of dependencies) {
-          if (dep.name.includes(packageName) || packageName.includes(dep.name)) {
-            suggestions.push(dep.name);
-          }
-        }
-      }
-      
-      // Also check standard library
-      for (const stdlibPackage of JAVA_STDLIB_PACKAGES) {
-        if (stdlibPackage.includes(packageName) || packageName.includes(stdlibPackage)) {
-          suggestions.push(stdlibPackage);
+        for (const dep of this.parseBuildFile(buildFilePath)) {
+          candidates.add(dep.name);
         }
       }
-      
     } catch (error) {
       console.debug('Error getting similar packages:', error);
     }
-    
-    return suggestions.slice(0, 5);
+
+    return candidates;
   }
 }
\ No newline at end of file
@@ -1,23 +1,88 @@
 import { execSync } from 'child_process';
-import { readFileSync, existsSync, readdirSync, statSync } from 'fs';
-import { join, resolve, dirname } from 'path';
+import { readFileSync, existsSync, readdirSync, realpathSync, statSync } from 'fs';
+import { join, resolve, dirname, basename, isAbsolute, relative, sep } from 'path';
 import { CacheManager } from '../cache.js';
-import { ASTParser } from '../parsers/ast-parser.js';
-import { isNodeBuiltinModule, getBuiltinModuleInfo } from '../utils/builtin-modules.js';
+import { ASTParser, ImportSpecifierInfo, ImportStatementInfo, MemberAccessInfo, UsageAnalysis } from '../parsers/ast-parser.js';
+import { DeclarationParser } from '../parsers/declaration-parser.js';
+import { LockfileParser, LockedDependency } from '../parsers/lockfile-parser.js';
+import { splitModuleSpecifier, resolvePackageEntry, listExportedSubpaths } from '../resolvers/package-exports.js';
+import { resolveModule, detectModuleFormat, locatePackageDirectory, ModuleResolutionResult } from '../resolvers/module-resolver.js';
+import { resolveSourceFile, SOURCE_EXTENSIONS } from '../resolvers/source-files.js';
+import { loadPathAliasConfig, resolvePathAlias, resolvePackageImportAlias, AliasResolution } from '../resolvers/path-aliases.js';
+import { findWorkspaceRoot, findOwningPackage, resolveWorkspacePackage, WorkspaceInfo, WorkspacePackage } from '../resolvers/workspaces.js';
+import { getDeclaredDependencies, findDependencyPath } from '../resolvers/dependency-graph.js';
+import { resolveTypeDeclarations } from '../resolvers/type-declarations.js';
+import { isNodeBuiltinModule, getBuiltinModuleInfo, NODE_BUILTIN_MODULES } from '../utils/builtin-modules.js';
 import { searchPackagesSemanticaly, enhancePackageInfo } from '../utils/semantic-search.js';
+import { isFile, listDirectory, readTextFile } from '../utils/package-fs.js';
+import { inspectModuleInSandbox } from '../utils/sandbox.js';
+import { rankSuggestionGroups, suggestNames } from '../utils/suggestions.js';
+import { assessPackageRisk, getPopularPackages } from '../utils/typosquat.js';
+import { checkRegistry, REGISTRY_NAMES } from '../utils/registry-index.js';
 import {
   DiscoveryEngine,
   DiscoverPackagesInput,
   ValidateImportInput,
   IntrospectModuleInput,
   SearchAffordancesInput,
+  ValidateUsageInput,
   DiscoveryResult,
   ValidationResult,
+  UsageValidationResult,
+  MemberUsageValidation,
   ModuleInfo,
   PackageInfo,
   ModuleExport,
+  SpecifierValidation,
+  ModuleResolution,
+  ValidationWarning,
 } from '../types.js';
 
+/**
+ * Re-export hops followed when collecting the export names an import is validated against
+ */
+const MAX_REEXPORT_DEPTH = 5;
+
+/**
+ * Statically known export names of a module
+ */
+interface ExportSurface {
+  names: Set<string>;
+  hasDefault: boolean;
+  complete: boolean; // false when `export *` or `export =` may contribute names we did not enumerate
+}
+
+/**
+ * Exports visible to type-only specifiers, or why there are none
+ */
+interface TypeSurface {
+  surface: ExportSurface | null;
+  missingReason: string | undefined;
+  typesPackage: string | undefined;
+}
+
+/**
+ * What member accesses through an import are checked against: the live module for builtins,
+ * otherwise the introspected export tree (and the export surface for untyped packages)
+ */
+interface UsageTarget {
+  builtin: object | null;
+  exports: ModuleExport[];
+  typed: boolean; // The tree comes from the type checker, so members below the top level are complete
+  surface: ExportSurface | null;
+}
+
+/**
+ * Members one level below an export (or the module itself), and whether that list is exhaustive
+ */
+interface UsageLevel {
+  members: Map<string, ModuleExport | null>; // null: exists, but its shape is unknown
+  complete: boolean;
+}
+
+// Every function and class has these, whatever its declarations say
+const FUNCTION_PROPERTIES = ['apply', 'bind', 'call', 'length', 'name', 'toString'];
+
 export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
   private cache: CacheManager;
 
@@ -26,7 +91,7 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
   }
 
   async discoverPackages(input: DiscoverPackagesInput): Promise<DiscoveryResult> {
-    const cacheKey = CacheManager.generateKey('discover', input.language, input.searchTerm, input.includeDevDependencies, input.maxResults);
+    const cacheKey = CacheManager.generateKey('discover', input.language, input.searchTerm, input.includeDevDependencies, input.maxResults, input.projectPath);
     
     // Check cache first
     const cached = this.cache.get<DiscoveryResult>(cacheKey);
@@ -38,7 +103,7 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
     
     try {
       // Find package.json in current directory or parent directories
-      const packageJsonPath = this.findPackageJson(process.cwd());
+      const packageJsonPath = this.findPackageJson(resolve(input.projectPath || process.cwd()));
       
       if (packageJsonPath) {
         const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
@@ -48,6 +113,9 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
         const dependencies = packageJson.dependencies || {};
         const devDependencies = packageJson.devDependencies || {}; // Always include devDeps for validation
         const allDeps = { ...dependencies, ...devDependencies };
+
+        // Exact versions and the transitive graph come from the lockfile, even before install
+        const lockedDependencies = this.getLockedDependencies(projectRoot, packageJson);
         
         // Process each dependency
         for (const [name, version] of Object.entries(allDeps)) {
@@ -55,7 +123,8 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
             continue;
           }
           
-          const packageInfo = await this.getPackageInfo(name, version as string, projectRoot);
+          const locked = lockedDependencies.find(dependency => dependency.direct && dependency.name === name);
+          const packageInfo = await this.getPackageInfo(name, version as string, projectRoot, locked);
           if (packageInfo) {
             packages.push(packageInfo);
           }
@@ -64,6 +133,51 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
             break;
           }
         }
+
+        // In a monorepo, sibling workspace packages are importable too
+        const workspace = this.getWorkspace(projectRoot);
+        for (const member of workspace?.packages || []) {
+          if (packages.length >= input.maxResults) {
+            break;
+          }
+          if (member.dir === projectRoot || packages.some(pkg => pkg.name === member.name)) {
+            continue;
+          }
+          if (input.searchTerm && !member.name.toLowerCase().includes(input.searchTerm.toLowerCase())) {
+            continue;
+          }
+
+          packages.push({
+            name: member.name,
+            version: member.version || 'workspace',
+            description: member.packageJson.description,
+            main: member.packageJson.main,
+            types: member.packageJson.types || member.packageJson.typings,
+            exports: member.packageJson.exports,
+            dependencies: member.packageJson.dependencies,
+            devDependencies: member.packageJson.devDependencies,
+            installed: true,
+            path: member.dir,
+          });
+        }
+
+        // Transitive dependencies are installed (and importable, if undeclared) too
+        for (const locked of lockedDependencies) {
+          if (packages.length >= input.maxResults) {
+            break;
+          }
+          if (locked.direct || packages.some(pkg => pkg.name === locked.name)) {
+            continue;
+          }
+          if (input.searchTerm && !locked.name.toLowerCase().includes(input.searchTerm.toLowerCase())) {
+            continue;
+          }
+
+          const packageInfo = await this.getPackageInfo(locked.name, locked.version, projectRoot, locked);
+          if (packageInfo) {
+            packages.push(packageInfo);
+          }
+        }
       }
       
       // Also check globally installed packages
@@ -91,7 +205,7 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
   }
 
   async validateImport(input: ValidateImportInput): Promise<ValidationResult> {
-    const cacheKey = CacheManager.generateKey('validate', input.importStatement, input.language, input.projectPath);
+    const cacheKey = CacheManager.generateKey('validate', input.importStatement, input.language, input.projectPath, input.importingFile);
     
     // Check cache first
     const cached = this.cache.get<ValidationResult>(cacheKey);
@@ -100,10 +214,11 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
     }
 
     try {
-      // Parse the import statement to extract package name
-      const packageName = this.extractPackageNameFromImport(input.importStatement);
+      // Parse the import statement to extract the module specifier and package name
+      const parsedImport = this.parseImportStatement(input.importStatement);
+      const moduleSpecifier = parsedImport?.source || this.extractModuleSpecifier(input.importStatement);
       
-      if (!packageName) {
+      if (!moduleSpecifier) {
         const result: ValidationResult = {
           valid: false,
           packageName: 'unknown',
@@ -114,33 +229,122 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
         return result;
       }
 
-      // Check if package exists
+      const { packageName, subpath } = splitModuleSpecifier(moduleSpecifier);
+      const conditions = parsedImport?.syntax === 'require' ? ['node', 'require'] : ['node', 'import'];
+      const specifiers = parsedImport?.specifiers || [];
+      const typeOnlyImport = specifiers.length > 0 && specifiers.every(spec => spec.typeOnly);
+
       const projectRoot = input.projectPath || process.cwd();
-      const packageExists = await this.checkPackageExists(packageName, projectRoot);
+      const fromDir = input.importingFile ? dirname(resolve(projectRoot, input.importingFile)) : projectRoot;
+
+      // Relative and absolute paths point at project files rather than packages
+      if (this.isPathSpecifier(moduleSpecifier)) {
+        const result = await this.validatePathImport(moduleSpecifier, fromDir, parsedImport?.specifiers || []);
+        this.cache.set(cacheKey, result);
+        return result;
+      }
+
+      // Project-level aliases (tsconfig "paths"/"baseUrl", package.json "imports") take precedence over node_modules
+      const alias = this.resolveAlias(moduleSpecifier, fromDir, conditions);
+      if (alias && (alias.file || alias.source === 'package-imports')) {
+        const result = await this.validateAliasImport(moduleSpecifier, alias, parsedImport?.specifiers || []);
+        this.cache.set(cacheKey, result);
+        return result;
+      }
+
+      // Resolve the module the way Node would from the importing location; workspace members
+      // that are not linked into node_modules yet are resolved from their source directory
+      const workspace = this.getWorkspace(fromDir);
+      let resolution = resolveModule(moduleSpecifier, fromDir, conditions);
+      if (!resolution.packageDir && resolution.format !== 'builtin' && workspace) {
+        resolution = resolveWorkspacePackage(moduleSpecifier, workspace, conditions) || resolution;
+      }
+      const packageExists = resolution.format === 'builtin' || resolution.packageDir !== null;
       
       if (packageExists) {
-        const modulePath = this.resolveModulePath(packageName, projectRoot);
         const result: ValidationResult = {
           valid: true,
           packageName,
-          modulePath: modulePath || undefined,
+          packageStatus: 'installed',
+          modulePath: resolution.format === 'builtin' ? moduleSpecifier : resolution.file || undefined,
         };
         
         // Add additional info for built-in modules
-        if (isNodeBuiltinModule(packageName)) {
+        if (resolution.format === 'builtin') {
           const builtinInfo = getBuiltinModuleInfo(packageName);
           result.reason = `Built-in Node.js module: ${builtinInfo.description}`;
+        } else if (resolution.entry) {
+          // Check that the requested subpath is actually reachable through exports/main
+          const entry = resolution.entry;
+          const availableSubpaths = listExportedSubpaths(resolution.packageJson);
+
+          result.resolution = {
+            subpath,
+            file: resolution.file || undefined,
+            via: entry.via,
+            matchedKey: entry.matchedKey,
+            conditions: entry.conditions,
+            availableSubpaths: availableSubpaths.length > 0 ? availableSubpaths : undefined,
+            format: resolution.format,
+            chain: resolution.chain,
+            linker: resolution.linker || undefined,
+            workspace: workspace ? this.describeWorkspace(workspace, fromDir, resolution.packageDir) : undefined,
+          };
+
+          // Type-only imports never load the runtime entry, so only their declarations matter
+          if (!resolution.file && !typeOnlyImport) {
+            result.valid = false;
+            result.reason = `Cannot import '${moduleSpecifier}': ${entry.reason}`;
+            result.suggestions = suggestNames(subpath, availableSubpaths.filter(key => !key.includes('*')))
+              .map(candidate => candidate === '.' ? packageName : `${packageName}/${candidate.slice(2)}`);
+            this.cache.set(cacheKey, result);
+            return result;
+          }
+        }
+
+        // Check each imported name against the module's real exports (and type declarations)
+        if (specifiers.length > 0) {
+          const surface = await this.getExportSurface(subpath, resolution, conditions, specifiers);
+          const typeSurface = specifiers.some(spec => spec.typeOnly)
+            ? await this.getTypeSurface(result, packageName, subpath, fromDir, conditions, resolution.format === 'builtin', specifiers)
+            : undefined;
+          this.applySpecifierValidation(result, moduleSpecifier, specifiers, surface, typeSurface);
+        }
+
+        // Resolvable is not the same as declared: hoisted transitive dependencies break on the next install
+        if (resolution.format !== 'builtin') {
+          const warning = this.checkDeclaredDependency(packageName, fromDir);
+          if (warning) {
+            result.warnings = [warning];
+          }
         }
         
+        this.cache.set(cacheKey, result);
+        return result;
+      } else if (typeOnlyImport && resolveTypeDeclarations(packageName, subpath, fromDir, conditions).file) {
+        // Declaration-only packages (e.g. `import type { Node } from 'estree'` backed by @types/estree)
+        const result: ValidationResult = { valid: true, packageName, packageStatus: 'installed' };
+        const typeSurface = await this.getTypeSurface(result, packageName, subpath, fromDir, conditions, false, specifiers);
+        this.applySpecifierValidation(result, moduleSpecifier, specifiers, null, typeSurface);
         this.cache.set(cacheKey, result);
         return result;
       } else {
-        const suggestions = await this.getSimilarPackages(packageName);
+        const knownPackages = await this.getKnownPackages(fromDir);
+        // Widely used packages only after the project's own, which are the likelier meaning
+        const suggestions = rankSuggestionGroups(packageName, [knownPackages, getPopularPackages('javascript')]);
+        const listing = checkRegistry('npm', packageName, this.getPackageManager(fromDir));
         const result: ValidationResult = {
           valid: false,
           packageName,
-          reason: `Package '${packageName}' is not installed or available`,
-          suggestions,
+          reason: alias
+            ? `Path alias '${alias.pattern}' in ${alias.configPath} matched, but none of its targets exist (${alias.candidates.join(', ')}), and no package '${packageName}' is installed`
+            : moduleSpecifier.startsWith('#')
+              ? `No entry in the package.json "imports" field matches '${moduleSpecifier}'`
+              : `Package '${packageName}' is not installed or available${listing.registry ? `, but it is published on ${REGISTRY_NAMES.npm}` : ''}`,
+          suggestions: suggestions.map(suggestion => suggestion.name),
+          rankedSuggestions: suggestions,
+          risk: alias || moduleSpecifier.startsWith('#') ? undefined : assessPackageRisk(packageName, 'javascript', knownPackages),
+          ...(alias || moduleSpecifier.startsWith('#') ? {} : listing),
         };
         this.cache.set(cacheKey, result);
         return result;
@@ -159,7 +363,8 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
   }
 
   async introspectModule(input: IntrospectModuleInput): Promise<ModuleInfo> {
-    const cacheKey = CacheManager.generateKey('introspect', input.moduleName, input.language, input.includePrivate, input.maxDepth);
+    const projectRoot = input.projectPath ? resolve(input.projectPath) : process.cwd();
+    const cacheKey = CacheManager.generateKey('introspect', input.moduleName, input.language, input.includePrivate, input.maxDepth, projectRoot, input.sandbox);
     
     // Check cache first
     const cached = this.cache.get<ModuleInfo>(cacheKey);
@@ -168,15 +373,18 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
     }
 
     try {
-      const modulePath = this.resolveModulePath(input.moduleName, process.cwd());
-      const exports = await this.analyzeModuleExports(input.moduleName, modulePath, input.includePrivate);
+      const resolution = resolveModule(input.moduleName, projectRoot);
+      const modulePath = resolution.format === 'builtin' ? input.moduleName : resolution.file;
+      const declarationFile = this.findDeclarationEntry(resolution, projectRoot);
+      const exports = await this.analyzeModuleExports(input, resolution, modulePath, declarationFile);
       
       const result: ModuleInfo = {
         name: input.moduleName,
         path: modulePath || '',
+        format: modulePath ? resolution.format : undefined,
         exports,
         submodules: await this.findSubmodules(input.moduleName, modulePath),
-        dependencies: await this.getModuleDependencies(input.moduleName),
+        dependencies: await this.getModuleDependencies(resolution.packageJson),
       };
 
       this.cache.set(cacheKey, result);
@@ -239,6 +447,68 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
     return result;
   }
 
+  async validateUsage(input: ValidateUsageInput): Promise<UsageValidationResult> {
+    const projectRoot = input.projectPath ? resolve(input.projectPath) : process.cwd();
+    const fromDir = input.importingFile ? dirname(resolve(projectRoot, input.importingFile)) : projectRoot;
+
+    let analysis: UsageAnalysis;
+    try {
+      analysis = ASTParser.parseUsages(input.code);
+    } catch (error) {
+      return {
+        valid: false,
+        reason: `Could not parse code: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        imports: [],
+        usages: [],
+      };
+    }
+
+    // Broken imports are reported as such; there is no point checking members on them
+    const imports: ValidationResult[] = [];
+    const brokenBindings = new Set<string>();
+    for (const statement of analysis.imports) {
+      const result = await this.validateImport({
+        importStatement: statement.statement,
+        language: 'javascript',
+        projectPath: input.projectPath,
+        importingFile: input.importingFile,
+      });
+      imports.push(result);
+      for (const spec of statement.specifiers) {
+        if (!result.valid && !result.specifiers?.some(checked => checked.local === spec.local && checked.valid)) {
+          brokenBindings.add(`${statement.source}:${spec.local}`);
+        }
+      }
+    }
+
+    const targets = new Map<string, UsageTarget | null>();
+    const usages: MemberUsageValidation[] = [];
+    for (const access of analysis.accesses) {
+      if (brokenBindings.has(`${access.source}:${access.local}`)) {
+        continue;
+      }
+      if (!targets.has(access.source)) {
+        const sameSource = analysis.accesses.filter(other => other.source === access.source);
+        const syntax = analysis.imports.find(statement => statement.source === access.source)?.syntax;
+        targets.set(access.source, await this.loadUsageTarget(
+          access.source,
+          fromDir,
+          syntax === 'require' ? ['node', 'require'] : ['node', 'import'],
+          Math.max(...sameSource.map(other => other.members.length)) + 1,
+          sameSource.map(other => other.imported === '*' || other.imported === 'default' ? other.members[0] : other.imported)
+            .filter((name): name is string => name !== undefined)
+        ));
+      }
+      usages.push(this.checkMemberAccess(access, targets.get(access.source)!));
+    }
+
+    return {
+      valid: imports.every(result => result.valid) && usages.every(usage => usage.valid),
+      imports,
+      usages,
+    };
+  }
+
   // Helper methods
   private findPackageJson(startDir: string): string | null {
     let currentDir = startDir;
@@ -254,22 +524,35 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
     return null;
   }
 
-  private async getPackageInfo(name: string, version: string, projectRoot: string): Promise<PackageInfo | null> {
+  private async getPackageInfo(
+    name: string,
+    version: string,
+    projectRoot: string,
+    locked?: LockedDependency
+  ): Promise<PackageInfo | null> {
+    const lockInfo = {
+      lockedVersion: locked?.version,
+      direct: locked ? locked.direct : true,
+      dependencyPath: locked?.dependencyPath || [name],
+    };
+
     try {
-      const packagePath = join(projectRoot, 'node_modules', name);
-      const packageJsonPath = join(packagePath, 'package.json');
+      // Walk the node_modules chain so dependencies hoisted to a workspace root are found
+      const packagePath = locatePackageDirectory(name, projectRoot).packageDir;
       
-      if (!existsSync(packageJsonPath)) {
+      if (!packagePath) {
         return {
           name,
-          version,
+          version: locked?.version || version,
           installed: false,
+          ...lockInfo,
         };
       }
       
-      const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+      const packageJson = JSON.parse(readTextFile(join(packagePath, 'package.json')));
       
       return {
+        ...lockInfo,
         name,
         version: packageJson.version || version,
         description: packageJson.description,
@@ -285,12 +568,58 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
     } catch (error) {
       return {
         name,
-        version,
+        version: locked?.version || version,
         installed: false,
+        ...lockInfo,
       };
     }
   }
 
+  /**
+   * The monorepo a directory belongs to, enumerated once per lockfile version: adding or removing
+   * a workspace package rewrites the lockfile
+   */
+  private getWorkspace(startDir: string): WorkspaceInfo | null {
+    const cacheKey = CacheManager.generateKey('js_workspace', resolve(startDir), this.getLockfileStamp(startDir));
+    const cached = this.cache.get<{ workspace: WorkspaceInfo | null }>(cacheKey);
+    if (cached) {
+      return cached.workspace;
+    }
+
+    const workspace = findWorkspaceRoot(startDir);
+    this.cache.set(cacheKey, { workspace });
+    return workspace;
+  }
+
+  /**
+   * The lockfile governing a directory and when it last changed, for cache keys of results that
+   * only change on install
+   */
+  private getLockfileStamp(fromDir: string): string {
+    const lockfilePath = LockfileParser.find(fromDir);
+    try {
+      return lockfilePath ? `${lockfilePath}@${statSync(lockfilePath).mtimeMs}` : 'no-lockfile';
+    } catch {
+      return 'no-lockfile';
+    }
+  }
+
+  private getLockedDependencies(projectRoot: string, packageJson: any): LockedDependency[] {
+    const lockfilePath = LockfileParser.find(projectRoot);
+    if (!lockfilePath) {
+      return [];
+    }
+
+    try {
+      const lockfile = LockfileParser.parseFile(lockfilePath);
+      const importerPath = relative(dirname(lockfilePath), projectRoot).split(sep).join('/') || '.';
+      return LockfileParser.listDependencies(lockfile, importerPath, packageJson);
+    } catch (error) {
+      console.error(`Could not read lockfile ${lockfilePath}:`, error);
+      return [];
+    }
+  }
+
   private async getGlobalPackages(searchTerm?: string, maxResults: number = 10): Promise<PackageInfo[]> {
     try {
       const output = execSync('npm list -g --depth=0 --json', { encoding: 'utf-8' });
@@ -323,7 +652,7 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
     }
   }
 
-  private extractPackageNameFromImport(importStatement: string): string | null {
+  private extractModuleSpecifier(importStatement: string): string | null {
     // Handle various import patterns
     const patterns = [
       /import\s+.*\s+from\s+['"]([^'"]+)['"]/,  // import ... from 'package'
@@ -334,71 +663,617 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
     for (const pattern of patterns) {
       const match = importStatement.match(pattern);
       if (match && match[1]) {
-        const fullPath = match[1];
-        // Extract package name (handle scoped packages)
-        if (fullPath.startsWith('@')) {
-          const parts = fullPath.split('/');
-          return parts.length >= 2 ? `${parts[0]}/${parts[1]}` : fullPath;
-        } else {
-          return fullPath.split('/')[0] || null;
-        }
+        return match[1];
       }
     }
 
     return null;
   }
 
-  private async checkPackageExists(packageName: string, projectRoot: string): Promise<boolean> {
+  private parseImportStatement(importStatement: string): ImportStatementInfo | null {
+    try {
+      return ASTParser.parseImports(importStatement)[0] || null;
+    } catch {
+      // Statement is not valid JavaScript on its own; fall back to pattern matching
+      return null;
+    }
+  }
+
+  /**
+   * Collect the export names of a module from its type declarations or entry file
+   */
+  private async getExportSurface(
+    subpath: string,
+    resolution: ModuleResolutionResult,
+    conditions: string[],
+    specifiers: ImportSpecifierInfo[]
+  ): Promise<ExportSurface | null> {
     try {
-      // Check if it's a Node.js built-in module first
-      if (isNodeBuiltinModule(packageName)) {
-        return true;
+      if (resolution.format === 'builtin') {
+        const specifier = resolution.specifier;
+        const builtin = await import(specifier.startsWith('node:') ? specifier : `node:${specifier}`);
+        return { names: new Set(Object.keys(builtin)), hasDefault: true, complete: true };
       }
-      
-      // Check in node_modules
-      const packagePath = join(projectRoot, 'node_modules', packageName);
-      if (existsSync(packagePath)) {
-        return true;
+
+      const { packageDir, packageJson } = resolution;
+      if (!packageDir) {
+        return null;
       }
-      
-      // Try to resolve using Node.js resolution
-      try {
-        require.resolve(packageName, { paths: [projectRoot] });
-        return true;
-      } catch {
-        return false;
+
+      const typesEntry = resolvePackageEntry(packageDir, packageJson, subpath, ['types', ...conditions]);
+      const legacyTypes = subpath === '.' ? [packageJson.types, packageJson.typings] : [];
+
+      const entries = [
+        typesEntry.file && /\.d\.[cm]?ts$/.test(typesEntry.file) ? typesEntry.file : null,
+        ...legacyTypes.filter((entry): entry is string => typeof entry === 'string').map(entry => join(packageDir, entry)),
+        resolution.file ? resolution.file.replace(/\.[cm]?js$/, '.d.ts') : null,
+        resolution.file,
+      ]
+        .filter((entry): entry is string => entry !== null)
+        .filter((entry, index, all) => all.indexOf(entry) === index)
+        .filter(entry => isFile(entry));
+
+      return await this.analyzeExportSurface(entries, resolution.format === 'commonjs', specifiers);
+    } catch (error) {
+      console.error(`Could not determine exports of ${resolution.specifier}:`, error);
+    }
+
+    return null;
+  }
+
+  /**
+   * Use the first candidate file whose syntax reveals its exports. Re-exports are only followed
+   * when the file itself does not export every imported name.
+   */
+  private async analyzeExportSurface(files: string[], isCommonJs: boolean, specifiers: ImportSpecifierInfo[]): Promise<ExportSurface | null> {
+    for (const file of files) {
+      let analysis = await ASTParser.parseFile(file);
+      const exported = new Set(analysis.exports.map(exp => exp.name));
+      if (analysis.reExports.length > 0 && specifiers.some(spec => spec.kind === 'named' && !exported.has(spec.imported))) {
+        analysis = await ASTParser.parseFile(file, { maxDepth: MAX_REEXPORT_DEPTH });
+      }
+
+      if (analysis.exports.length === 0 && analysis.reExports.length === 0) {
+        // Exports are built dynamically; nothing to learn statically
+        continue;
+      }
+
+      return {
+        names: new Set(analysis.exports.map(exp => exp.name)),
+        // Node exposes module.exports of a CommonJS module as its default export, unless it is
+        // transpiled ESM (`__esModule`), whose default export is `exports.default`
+        hasDefault: analysis.hasDefaultExport || (isCommonJs && !analysis.esModuleFlag),
+        complete: analysis.reExports.length === 0 && !analysis.hasExportAssignment,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve the declarations TypeScript would use for type-only specifiers and collect their exports
+   */
+  private async getTypeSurface(
+    result: ValidationResult,
+    packageName: string,
+    subpath: string,
+    fromDir: string,
+    conditions: string[],
+    isBuiltin: boolean,
+    specifiers: ImportSpecifierInfo[]
+  ): Promise<TypeSurface> {
+    if (isBuiltin) {
+      // Built-in module types live in ambient `declare module` blocks of @types/node
+      return { surface: null, missingReason: undefined, typesPackage: undefined };
+    }
+
+    const declarations = resolveTypeDeclarations(packageName, subpath, fromDir, conditions);
+    result.types = {
+      file: declarations.file || undefined,
+      via: declarations.via || undefined,
+      typesPackage: declarations.typesPackage,
+    };
+
+    if (!declarations.file) {
+      return {
+        surface: null,
+        missingReason: `No type declarations found for '${packageName}': the package has no "types"/"typings", typesVersions or .d.ts files, and ${declarations.typesPackage} is not installed`,
+        typesPackage: declarations.typesPackage,
+      };
+    }
+
+    return {
+      surface: await this.analyzeExportSurface([declarations.file], false, specifiers),
+      missingReason: undefined,
+      typesPackage: declarations.typesPackage,
+    };
+  }
+
+  private applySpecifierValidation(
+    result: ValidationResult,
+    moduleSpecifier: string,
+    specifiers: ImportSpecifierInfo[],
+    surface: ExportSurface | null,
+    typeSurface?: TypeSurface
+  ): void {
+    result.specifiers = specifiers.map(spec => {
+      if (!spec.typeOnly || !typeSurface) {
+        return this.validateSpecifier(spec, surface);
       }
+      if (typeSurface.missingReason) {
+        return { ...spec, valid: false, verified: true, reason: typeSurface.missingReason };
+      }
+      return this.validateSpecifier(spec, typeSurface.surface);
+    });
+
+    const invalidSpecifiers = result.specifiers.filter(spec => !spec.valid);
+    if (invalidSpecifiers.length > 0) {
+      result.valid = false;
+      result.reason = typeSurface?.missingReason && invalidSpecifiers.some(spec => spec.typeOnly)
+        ? typeSurface.missingReason
+        : `Module '${moduleSpecifier}' does not export ${invalidSpecifiers.map(spec => `'${spec.imported}'`).join(', ')}`;
+      result.suggestions = [...new Set(invalidSpecifiers.flatMap(spec => spec.suggestions || []))].slice(0, 5);
+      if (typeSurface?.missingReason && typeSurface.typesPackage) {
+        result.suggestions.push(typeSurface.typesPackage);
+      }
+    }
+  }
+
+  private isPathSpecifier(moduleSpecifier: string): boolean {
+    return moduleSpecifier === '.' || moduleSpecifier === '..' ||
+      moduleSpecifier.startsWith('./') || moduleSpecifier.startsWith('../') || isAbsolute(moduleSpecifier);
+  }
+
+  private async validatePathImport(
+    moduleSpecifier: string,
+    fromDir: string,
+    specifiers: ImportSpecifierInfo[]
+  ): Promise<ValidationResult> {
+    const targetPath = resolve(fromDir, moduleSpecifier);
+    const file = resolveSourceFile(targetPath);
+
+    if (!file) {
+      return {
+        valid: false,
+        packageName: moduleSpecifier,
+        reason: `No file matches '${moduleSpecifier}' from ${fromDir} (tried ${SOURCE_EXTENSIONS.join(', ')} and index files)`,
+        suggestions: this.getSimilarFiles(moduleSpecifier, targetPath),
+      };
+    }
+
+    const format = detectModuleFormat(file);
+    const result: ValidationResult = {
+      valid: true,
+      packageName: moduleSpecifier,
+      modulePath: file,
+      resolution: {
+        file,
+        via: 'relative',
+        format,
+      },
+    };
+
+    if (specifiers.length > 0) {
+      const surface = await this.analyzeExportSurface([file], format === 'commonjs', specifiers);
+      this.applySpecifierValidation(result, moduleSpecifier, specifiers, surface);
+    }
+
+    return result;
+  }
+
+  /**
+   * Suggest sibling files for a relative import that does not resolve
+   */
+  private getSimilarFiles(moduleSpecifier: string, targetPath: string): string[] {
+    try {
+      const directory = dirname(targetPath);
+      const requested = basename(targetPath).replace(/\.[cm]?[jt]sx?$/, '');
+      const siblings = readdirSync(directory)
+        .filter(entry => !entry.startsWith('.'))
+        .map(entry => entry.replace(/(\.d)?\.[cm]?[jt]sx?$|\.json$/, ''));
+
+      const specifierDir = moduleSpecifier.slice(0, moduleSpecifier.length - basename(moduleSpecifier).length);
+      return suggestNames(requested, [...new Set(siblings)]).map(name => `${specifierDir}${name}`);
     } catch {
-      return false;
+      return [];
+    }
+  }
+
+  private checkDeclaredDependency(packageName: string, fromDir: string): ValidationWarning | null {
+    const owner = findOwningPackage(fromDir);
+    if (!owner || owner.name === packageName || getDeclaredDependencies(owner.packageJson).has(packageName)) {
+      return null;
+    }
+
+    const manifest = join(owner.dir, 'package.json');
+    const dependencyPath = this.getDependencyPath(packageName, owner);
+    if (!dependencyPath) {
+      return {
+        code: 'undeclared-dependency',
+        message: `'${packageName}' resolves but is not declared in ${manifest}, and no declared dependency requires it`,
+      };
     }
+
+    return {
+      code: 'undeclared-dependency',
+      message: `'${packageName}' resolves but is not declared in ${manifest}; it is only installed because of ${dependencyPath.join(' > ')}`,
+      dependencyPath,
+    };
+  }
+
+  /**
+   * The chain of dependencies that installs a package, searched once per lockfile version as the
+   * search may visit thousands of installed packages
+   */
+  private getDependencyPath(packageName: string, owner: WorkspacePackage): string[] | null {
+    const cacheKey = CacheManager.generateKey('js_dependency_path', packageName, owner.dir, this.getLockfileStamp(owner.dir));
+    const cached = this.cache.get<{ dependencyPath: string[] | null }>(cacheKey);
+    if (cached) {
+      return cached.dependencyPath;
+    }
+
+    const dependencyPath = findDependencyPath(packageName, owner.dir, owner.packageJson);
+    this.cache.set(cacheKey, { dependencyPath });
+    return dependencyPath;
   }
 
-  private resolveModulePath(moduleName: string, projectRoot: string): string | null {
+  private describeWorkspace(workspace: WorkspaceInfo, fromDir: string, packageDir: string | null): NonNullable<ModuleResolution['workspace']> {
+    const owner = findOwningPackage(fromDir);
+    const isMember = (dir: string) => workspace.packages.some(member => member.dir === dir);
+
+    return {
+      root: workspace.root,
+      manager: workspace.manager,
+      owner: owner && isMember(owner.dir) ? owner.name : undefined,
+      local: packageDir !== null && (isMember(packageDir) || isMember(this.realPath(packageDir))),
+    };
+  }
+
+  private realPath(path: string): string {
     try {
-      return require.resolve(moduleName, { paths: [projectRoot] });
+      return realpathSync(path);
     } catch {
+      return path;
+    }
+  }
+
+  private resolveAlias(moduleSpecifier: string, fromDir: string, conditions: string[]): AliasResolution | null {
+    if (moduleSpecifier.startsWith('#')) {
+      return resolvePackageImportAlias(moduleSpecifier, fromDir, conditions);
+    }
+
+    if (moduleSpecifier.startsWith('.') || moduleSpecifier.startsWith('/') || isNodeBuiltinModule(moduleSpecifier)) {
       return null;
     }
+
+    const config = loadPathAliasConfig(fromDir);
+    return config ? resolvePathAlias(moduleSpecifier, config) : null;
+  }
+
+  private async validateAliasImport(
+    moduleSpecifier: string,
+    alias: AliasResolution,
+    specifiers: ImportSpecifierInfo[]
+  ): Promise<ValidationResult> {
+    const format = alias.file ? detectModuleFormat(alias.file) : undefined;
+    const result: ValidationResult = {
+      valid: alias.file !== null,
+      packageName: moduleSpecifier,
+      modulePath: alias.file || undefined,
+      reason: alias.file
+        ? `Resolved through ${alias.source} mapping '${alias.pattern}' in ${alias.configPath}`
+        : `Mapping '${alias.pattern}' in ${alias.configPath} matched, but its target '${alias.target}' does not exist`,
+      resolution: {
+        file: alias.file || undefined,
+        via: alias.source,
+        mapping: {
+          configPath: alias.configPath,
+          pattern: alias.pattern,
+          target: alias.target,
+        },
+        format,
+        chain: alias.candidates.map(candidate => `tried ${candidate}`),
+      },
+    };
+
+    if (alias.file && specifiers.length > 0) {
+      const surface = await this.analyzeExportSurface([alias.file], format === 'commonjs', specifiers);
+      this.applySpecifierValidation(result, moduleSpecifier, specifiers, surface);
+    }
+
+    return result;
+  }
+
+  private validateSpecifier(spec: ImportSpecifierInfo, surface: ExportSurface | null): SpecifierValidation {
+    if (spec.kind === 'namespace') {
+      return { ...spec, valid: true, verified: true };
+    }
+
+    if (!surface) {
+      return { ...spec, valid: true, verified: false, reason: 'Could not determine the exports of this module' };
+    }
+
+    const found = spec.kind === 'default'
+      ? surface.hasDefault || surface.names.has('default')
+      : surface.names.has(spec.imported);
+
+    if (found) {
+      return { ...spec, valid: true, verified: true };
+    }
+
+    if (!surface.complete) {
+      return {
+        ...spec,
+        valid: true,
+        verified: false,
+        reason: `'${spec.imported}' is not among the statically known exports, but the module re-exports names that were not analyzed`,
+      };
+    }
+
+    return {
+      ...spec,
+      valid: false,
+      verified: true,
+      reason: spec.kind === 'default' ? 'Module has no default export' : `'${spec.imported}' is not exported by this module`,
+      suggestions: suggestNames(spec.imported, [...surface.names].filter(name => name !== 'default')),
+    };
   }
 
-  private async getSimilarPackages(packageName: string): Promise<string[]> {
-    // Simple similarity check - in a real implementation, you might use fuzzy matching
+  /**
+   * Builtins are loaded (they run no third-party code); packages are introspected deep enough for
+   * the longest access chain. Path and alias imports are not checked.
+   */
+  private async loadUsageTarget(
+    source: string,
+    fromDir: string,
+    conditions: string[],
+    maxDepth: number,
+    topLevelNames: string[]
+  ): Promise<UsageTarget | null> {
+    if (this.isPathSpecifier(source)) {
+      return null;
+    }
+
     try {
-      const packageJsonPath = this.findPackageJson(process.cwd());
-      if (!packageJsonPath) return [];
-      
-      const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
-      const allDeps = { ...packageJson.dependencies, ...packageJson.devDependencies };
-      
-      return Object.keys(allDeps)
-        .filter(name => name.includes(packageName) || packageName.includes(name))
-        .slice(0, 5);
+      const resolution = resolveModule(source, fromDir, conditions);
+      if (resolution.format === 'builtin') {
+        const builtin = await import(source.startsWith('node:') ? source : `node:${source}`);
+        return { builtin: builtin.default ?? builtin, exports: [], typed: false, surface: null };
+      }
+      if (!resolution.packageDir) {
+        return null;
+      }
+
+      const info = await this.introspectModule({
+        moduleName: source,
+        language: 'javascript',
+        includePrivate: true,
+        maxDepth: Math.min(maxDepth, 5),
+        projectPath: fromDir,
+        sandbox: false,
+      });
+      const typed = info.exports.length > 0 && this.findDeclarationEntry(resolution, fromDir) !== null;
+      const surface = typed ? null : await this.getExportSurface(
+        splitModuleSpecifier(source).subpath,
+        resolution,
+        conditions,
+        topLevelNames.map(name => ({ kind: 'named' as const, imported: name, local: name, typeOnly: false }))
+      );
+      return { builtin: null, exports: info.exports, typed, surface };
+    } catch (error) {
+      console.error(`Could not load the exports of ${source} for usage validation:`, error);
+      return null;
+    }
+  }
+
+  private checkMemberAccess(access: MemberAccessInfo, target: UsageTarget | null): MemberUsageValidation {
+    const base = { expression: access.expression, source: access.source, members: access.members, line: access.line, column: access.column };
+    if (!target) {
+      return { ...base, valid: true, verified: false, reason: 'Member access is only checked on packages and built-in modules' };
+    }
+    if (target.builtin) {
+      return this.checkBuiltinMemberAccess(access, target.builtin);
+    }
+
+    // Named imports start at the export they name; default and namespace imports at the module
+    // (CommonJS module.exports and `export =` values are both described as the default export)
+    const defaultExport = target.exports.find(exp => exp.name === 'default');
+    let node: ModuleExport | 'module' | null = 'module';
+    if (access.imported === 'default') {
+      node = defaultExport ?? 'module';
+    } else if (access.imported !== '*') {
+      node = this.getUsageLevel('module', target).members.get(access.imported) ?? null;
+    }
+
+    for (const [index, member] of access.members.entries()) {
+      const path = [access.local, ...access.members.slice(0, index)].join('.');
+      if (node === null) {
+        return { ...base, valid: true, verified: false, reason: `The members of '${path}' are not known` };
+      }
+
+      const level = this.getUsageLevel(node, target);
+      if (level.members.has(member)) {
+        node = level.members.get(member)!;
+        continue;
+      }
+      if (!level.complete) {
+        return { ...base, valid: true, verified: false, reason: `'${member}' is not among the known members of '${path}'` };
+      }
+      return {
+        ...base,
+        valid: false,
+        verified: true,
+        reason: `'${path}' has no member '${member}'`,
+        suggestions: suggestNames(member, [...level.members.keys()].filter(name => !FUNCTION_PROPERTIES.includes(name))),
+      };
+    }
+
+    if (node === null || node === 'module' || !access.call) {
+      return { ...base, valid: true, verified: true };
+    }
+    return { ...base, ...this.checkCallArity(access, node, target.typed) };
+  }
+
+  private getUsageLevel(node: ModuleExport | 'module', target: UsageTarget): UsageLevel {
+    if (node === 'module') {
+      const defaultExport = target.exports.find(exp => exp.name === 'default');
+      const defaultLevel = defaultExport ? this.getUsageLevel(defaultExport, target) : null;
+      const members = new Map<string, ModuleExport | null>(defaultLevel?.members);
+      for (const exp of target.exports.filter(exp => !this.isTypeOnly(exp))) {
+        members.set(exp.name, exp);
+      }
+      if (target.typed) {
+        return { members, complete: !defaultLevel || defaultLevel.complete };
+      }
+      for (const name of target.surface?.names ?? []) {
+        if (!members.has(name)) {
+          members.set(name, null);
+        }
+      }
+      return { members, complete: target.surface?.complete ?? false };
+    }
+
+    // Through the class itself only static members are reachable; instances are not traced
+    const members = new Map<string, ModuleExport | null>();
+    for (const member of (node.members ?? []).filter(member => !this.isTypeOnly(member))) {
+      if (node.type !== 'class' || (member.static !== false && member.type !== 'constructor')) {
+        members.set(member.name, member);
+      }
+    }
+    const callable = node.type === 'function' || node.type === 'class' || node.type === 'method';
+    if (callable) {
+      for (const name of FUNCTION_PROPERTIES) {
+        members.set(name, members.get(name) ?? null);
+      }
+    }
+
+    // Below the top level only the type checker's view is exhaustive
+    return { members, complete: target.typed && (callable || node.type === 'namespace' || node.members !== undefined) };
+  }
+
+  /**
+   * Interfaces and type aliases have no runtime value, so member accesses never reach them
+   */
+  private isTypeOnly(exp: ModuleExport): boolean {
+    return exp.type === 'interface' || exp.type === 'type';
+  }
+
+  private checkBuiltinMemberAccess(access: MemberAccessInfo, builtin: object): MemberUsageValidation {
+    const base = { expression: access.expression, source: access.source, members: access.members, line: access.line, column: access.column };
+    let value: unknown = access.imported === '*' || access.imported === 'default' ? builtin : (builtin as Record<string, unknown>)[access.imported];
+
+    for (const [index, member] of access.members.entries()) {
+      const path = [access.local, ...access.members.slice(0, index)].join('.');
+      if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+        return { ...base, valid: true, verified: false, reason: `The members of '${path}' are not known` };
+      }
+      if (!(member in value)) {
+        return {
+          ...base,
+          valid: false,
+          verified: true,
+          reason: `'${path}' has no member '${member}'`,
+          suggestions: suggestNames(member, Object.keys(value)),
+        };
+      }
+      value = (value as Record<string, unknown>)[member];
+    }
+
+    return { ...base, valid: true, verified: true };
+  }
+
+  /**
+   * Whether any declared signature accepts the number of arguments passed (spread arguments are not counted)
+   */
+  private checkCallArity(
+    access: MemberAccessInfo,
+    node: ModuleExport,
+    typed: boolean
+  ): Pick<MemberUsageValidation, 'valid' | 'verified' | 'reason' | 'signature'> {
+    const call = access.call!;
+    const callable = call.construct ? node.type === 'class' : node.type === 'function' || node.type === 'method';
+    const signatures = node.overloads ?? (node.parameters ? [{ signature: node.signature ?? node.name, parameters: node.parameters }] : []);
+    if (!typed || !callable || signatures.length === 0 || call.spread) {
+      return { valid: true, verified: typed && callable && !call.spread, signature: node.signature };
+    }
+
+    const ranges = signatures.map(({ parameters }) => ({
+      min: parameters.filter(param => !param.optional && !param.name.startsWith('...')).length,
+      max: parameters.some(param => param.name.startsWith('...')) ? Infinity : parameters.length,
+    }));
+    if (ranges.some(({ min, max }) => call.arguments >= min && call.arguments <= max)) {
+      return { valid: true, verified: true, signature: node.signature };
+    }
+
+    const min = Math.min(...ranges.map(range => range.min));
+    const max = Math.max(...ranges.map(range => range.max));
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+    return {
+      valid: false,
+      verified: true,
+      reason: `${access.expression} expects ${expected} argument${expected === '1' ? '' : 's'}, but got ${call.arguments}`,
+      signature: signatures.map(({ signature }) => signature).join('; '),
+    };
+  }
+
+  /**
+   * The package manager whose lockfile the project uses, for install commands
+   */
+  private getPackageManager(fromDir: string): string {
+    const lockfilePath = LockfileParser.find(fromDir);
+    return lockfilePath?.endsWith('pnpm-lock.yaml') ? 'pnpm' : lockfilePath?.endsWith('yarn.lock') ? 'yarn' : 'npm';
+  }
+
+  /**
+   * Declared, workspace, locked and built-in packages: what an unavailable package is compared with
+   */
+  private async getKnownPackages(fromDir: string = process.cwd()): Promise<Set<string>> {
+    const candidates = new Set<string>([...NODE_BUILTIN_MODULES].filter(name => !name.includes('/')));
+    try {
+      const owner = findOwningPackage(fromDir);
+      if (owner) {
+        const packageJson = owner.packageJson;
+        for (const name of Object.keys({ ...packageJson.dependencies, ...packageJson.devDependencies })) {
+          candidates.add(name);
+        }
+        for (const member of this.getWorkspace(owner.dir)?.packages || []) {
+          candidates.add(member.name);
+        }
+        for (const locked of this.getLockedDependencies(owner.dir, packageJson)) {
+          candidates.add(locked.name);
+        }
+      }
     } catch {
-      return [];
+      // Built-in modules are still worth comparing with
+    }
+
+    return candidates;
+  }
+
+  /**
+   * The file the type checker should start from: the module's declaration entry, or its own TypeScript source
+   */
+  private findDeclarationEntry(resolution: ModuleResolutionResult, projectRoot: string): string | null {
+    if (resolution.format === 'builtin' || !resolution.packageName) {
+      return null;
+    }
+
+    const { subpath } = splitModuleSpecifier(resolution.specifier);
+    const declarations = resolveTypeDeclarations(resolution.packageName, subpath, projectRoot, ['node', 'import']);
+    if (declarations.file) {
+      return declarations.file;
     }
+    return resolution.file && /\.[cm]?tsx?$/.test(resolution.file) ? resolution.file : null;
   }
 
-  private async analyzeModuleExports(moduleName: string, modulePath: string | null, includePrivate: boolean): Promise<ModuleExport[]> {
+  private async analyzeModuleExports(
+    input: IntrospectModuleInput,
+    resolution: ModuleResolutionResult,
+    modulePath: string | null,
+    declarationFile: string | null
+  ): Promise<ModuleExport[]> {
+    const { moduleName, includePrivate, maxDepth } = input;
+    const memberDepth = maxDepth - 1; // The exports themselves are the first level
     const exports: ModuleExport[] = [];
     
     try {
@@ -414,15 +1289,26 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
         return exports;
       }
       
+      if (declarationFile) {
+        // The type checker sees through re-exports and renders resolved signatures
+        try {
+          exports.push(...this.filterPrivate(DeclarationParser.parseModule(declarationFile, { memberDepth }), includePrivate));
+
+          if (exports.length > 0) {
+            return exports;
+          }
+        } catch (checkerError) {
+          console.error(`Type checker introspection failed for ${declarationFile}:`, checkerError);
+        }
+      }
+
       if (modulePath) {
         // Try AST parsing first for better results
         try {
-          const astResult = await ASTParser.parseFile(modulePath);
+          const astResult = await ASTParser.parseFile(modulePath, { maxDepth, memberDepth });
           
           // Filter private exports if needed
-          const filteredExports = astResult.exports.filter(exp => 
-            includePrivate || !exp.name.startsWith('_')
-          );
+          const filteredExports = this.filterPrivate(astResult.exports, includePrivate);
           
           exports.push(...filteredExports);
           
@@ -431,30 +1317,17 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
             return exports;
           }
         } catch (astError) {
-          console.debug(`AST parsing failed for ${modulePath}, falling back to dynamic import:`, astError);
+          console.error(`AST parsing failed for ${modulePath}:`, astError);
         }
         
-        // Fallback: try to dynamically import and analyze the module
-        try {
-          const module = await import(modulePath);
-          
-          for (const [key, value] of Object.entries(module)) {
-            if (!includePrivate && key.startsWith('_')) {
-              continue;
-            }
-            
-            const type = typeof value === 'function' ? 'function' : 
-                        typeof value === 'object' && value?.constructor?.name === 'Object' ? 'namespace' :
-                        'constant';
-            
-            exports.push({
-              name: key,
-              type,
-              signature: type === 'function' ? `${key}()` : undefined,
-            });
+        // Module code only ever runs when the caller opted into the sandbox
+        if (input.sandbox && (resolution.format === 'module' || resolution.format === 'commonjs')) {
+          try {
+            const loaded = await inspectModuleInSandbox(modulePath, resolution.format, { packageDir: resolution.packageDir });
+            exports.push(...this.filterPrivate(loaded, includePrivate));
+          } catch (sandboxError) {
+            console.error(`Sandboxed inspection failed for ${modulePath}:`, sandboxError);
           }
-        } catch (importError) {
-          console.debug(`Dynamic import failed for ${modulePath}:`, importError);
         }
       }
       
@@ -462,8 +1335,8 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
       if (exports.length === 0) {
         try {
           const packagePath = join(dirname(modulePath || ''), 'package.json');
-          if (existsSync(packagePath)) {
-            const packageJson = JSON.parse(readFileSync(packagePath, 'utf-8'));
+          if (isFile(packagePath)) {
+            const packageJson = JSON.parse(readTextFile(packagePath));
             if (packageJson.exports) {
               for (const exportPath of Object.keys(packageJson.exports)) {
                 exports.push({
@@ -484,12 +1357,24 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
     return exports;
   }
 
+  /**
+   * Drop `_`-prefixed exports and members, `#private` and `private` class members, at every level
+   */
+  private filterPrivate(exports: ModuleExport[], includePrivate: boolean): ModuleExport[] {
+    if (includePrivate) {
+      return exports;
+    }
+    return exports
+      .filter(exp => !exp.name.startsWith('_') && !exp.name.startsWith('#') && exp.access !== 'private')
+      .map(exp => exp.members ? { ...exp, members: this.filterPrivate(exp.members, includePrivate) } : exp);
+  }
+
   private async findSubmodules(moduleName: string, modulePath: string | null): Promise<string[]> {
     if (!modulePath) return [];
     
     try {
       const moduleDir = dirname(modulePath);
-      const files = readdirSync(moduleDir);
+      const files = listDirectory(moduleDir);
       
       return files
         .filter(file => file.endsWith('.js') || file.endsWith('.ts'))
@@ -501,16 +1386,7 @@ export class JavaScriptDiscoveryEngine implements DiscoveryEngine {
     }
   }
 
-  private async getModuleDependencies(moduleName: string): Promise<string[]> {
-    try {
-      const packagePath = join(process.cwd(), 'node_modules', moduleName, 'package.json');
-      if (existsSync(packagePath)) {
-        const packageJson = JSON.parse(readFileSync(packagePath, 'utf-8'));
-        return Object.keys(packageJson.dependencies || {});
-      }
-    } catch {
-      // Ignore errors
-    }
-    return [];
+  private async getModuleDependencies(packageJson: any | null): Promise<string[]> {
+    return Object.keys(packageJson?.dependencies || {});
   }
 }
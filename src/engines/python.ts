@@ -1,7 +1,10 @@
-import { execSync } from 'child_process';
-import { readFileSync, existsSync, readdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { relative, sep } from 'path';
 import { CacheManager } from '../cache.js';
+import { PythonMetadataParser, PythonDistribution, PythonDistributionIndex } from '../parsers/python-metadata.js';
+import { PythonManifestParser, PythonManifest, PythonDependency } from '../parsers/python-manifest.js';
+import { PythonSourceParser } from '../parsers/python-source-parser.js';
+import { findPythonSourceFile, getPythonEnvironment, indexPythonModules, locatePythonModule, PythonModuleIndex } from '../resolvers/python-modules.js';
+import { detectPythonEnvironment, describePythonEnvironment, ProjectPythonEnvironment } from '../resolvers/python-environments.js';
 import {
   DiscoveryEngine,
   DiscoverPackagesInput,
@@ -13,10 +16,14 @@ import {
   ModuleInfo,
   PackageInfo,
   ModuleExport,
+  ValidationWarning,
 } from '../types.js';
+import { rankSuggestionGroups } from '../utils/suggestions.js';
+import { assessPackageRisk, getPopularPackages } from '../utils/typosquat.js';
+import { checkRegistry, REGISTRY_NAMES } from '../utils/registry-index.js';
 
 /**
- * Python standard library modules
+ * Python standard library modules, for when no interpreter can be found to list them
  */
 const PYTHON_STDLIB_MODULES = new Set([
   'os', 'sys', 'json', 'datetime', 'time', 'math', 'random', 'collections',
@@ -45,7 +52,7 @@ export class PythonDiscoveryEngine implements DiscoveryEngine {
   }
 
   async discoverPackages(input: DiscoverPackagesInput): Promise<DiscoveryResult> {
-    const cacheKey = CacheManager.generateKey('discover_python', input.searchTerm, input.includeDevDependencies, input.maxResults);
+    const cacheKey = CacheManager.generateKey('discover_python', input.searchTerm, input.includeDevDependencies, input.maxResults, input.projectPath);
     
     // Check cache first
     const cached = this.cache.get<DiscoveryResult>(cacheKey);
@@ -56,8 +63,8 @@ export class PythonDiscoveryEngine implements DiscoveryEngine {
     const packages: PackageInfo[] = [];
     
     try {
-      // Get installed packages using pip
-      const installedPackages = await this.getInstalledPackages();
+      const environment = detectPythonEnvironment(input.projectPath);
+      const installedPackages = await this.getInstalledPackages(environment);
       
       // Filter by search term if provided
       const filteredPackages = input.searchTerm 
@@ -71,7 +78,7 @@ export class PythonDiscoveryEngine implements DiscoveryEngine {
       
       // Add standard library modules if they match the search
       if (packages.length < input.maxResults) {
-        const stdlibMatches = this.getStandardLibraryMatches(input.searchTerm || '');
+        const stdlibMatches = this.getStandardLibraryMatches(input.searchTerm || '', environment);
         packages.push(...stdlibMatches.slice(0, input.maxResults - packages.length));
       }
       
@@ -94,7 +101,7 @@ export class PythonDiscoveryEngine implements DiscoveryEngine {
   }
 
   async validateImport(input: ValidateImportInput): Promise<ValidationResult> {
-    const cacheKey = CacheManager.generateKey('validate_python', input.importStatement);
+    const cacheKey = CacheManager.generateKey('validate_python', input.importStatement, input.projectPath);
     
     // Check cache first
     const cached = this.cache.get<ValidationResult>(cacheKey);
@@ -116,38 +123,79 @@ export class PythonDiscoveryEngine implements DiscoveryEngine {
         return result;
       }
 
-      // Check if it's a standard library module
-      if (PYTHON_STDLIB_MODULES.has(packageName)) {
+      const environment = detectPythonEnvironment(input.projectPath);
+      const modules = this.getModuleIndex(environment);
+      const location = modules ? modules.modules.get(packageName) : undefined;
+
+      if (location?.stdlib || (!modules && PYTHON_STDLIB_MODULES.has(packageName))) {
         const result: ValidationResult = {
           valid: true,
           packageName,
+          packageStatus: 'installed',
           reason: 'Python standard library module',
         };
         this.cache.set(cacheKey, result);
         return result;
       }
 
-      // Check if package is installed
-      const isInstalled = await this.checkPackageInstalled(packageName);
-      
-      if (isInstalled) {
+      // Installed distributions are matched by the packages they provide, which often have other names (Pillow -> PIL)
+      const index = this.getDistributionIndex(environment);
+      if (location) {
+        const providers = index.byImport.get(packageName);
         const result: ValidationResult = {
           valid: true,
           packageName,
+          packageStatus: 'installed',
+          reason: providers
+            ? `Provided by the installed distribution${providers.length > 1 ? 's' : ''} ${providers.map(dist => `${dist.name} ${dist.version}`).join(', ')}`
+            : `Importable from ${location.path}`, // Project modules, .pth directories and packages installed without metadata
         };
+        const warning = providers ? this.checkDeclaredDependency(providers, environment) : null;
+        if (warning) {
+          result.warnings = [warning];
+        }
         this.cache.set(cacheKey, result);
         return result;
-      } else {
-        const suggestions = await this.getSimilarPackages(packageName);
+      }
+
+      const distribution = index.byDistribution.get(PythonMetadataParser.normalizeName(packageName));
+      if (distribution && distribution.importNames.length > 0) {
+        const publicNames = distribution.importNames.filter(name => !name.startsWith('_')); // PyYAML also installs _yaml
+        const importNames = publicNames.length > 0 ? publicNames : distribution.importNames;
         const result: ValidationResult = {
           valid: false,
           packageName,
-          reason: `Package '${packageName}' is not installed`,
-          suggestions,
+          reason: `'${packageName}' is the name of the installed distribution ${distribution.name}, which is imported as ${importNames.map(name => `'${name}'`).join(', ')}`,
+          suggestions: importNames,
         };
         this.cache.set(cacheKey, result);
         return result;
       }
+
+      const knownPackages = await this.getKnownPackages(environment);
+      // Widely used packages only after the environment's own, which are the likelier meaning
+      const suggestions = rankSuggestionGroups(packageName, [knownPackages, getPopularPackages('python')]);
+      const listing = checkRegistry('pypi', packageName);
+      const result: ValidationResult = {
+        valid: false,
+        packageName,
+        reason: `Package '${packageName}' is not installed${environment.manager ? ` in ${describePythonEnvironment(environment)}` : ''}${listing.registry ? `, but it is published on ${REGISTRY_NAMES.pypi}` : ''}`,
+        suggestions: suggestions.map(suggestion => suggestion.name),
+        rankedSuggestions: suggestions,
+        risk: assessPackageRisk(packageName, 'python', knownPackages),
+        ...listing,
+      };
+
+      // Declared but missing means the environment is out of date, not that the import is made up
+      const manifest = this.getManifest(environment);
+      const declared = PythonManifestParser.findDependency(manifest, packageName)
+        ?? (listing.registry ? PythonManifestParser.findDependency(manifest, listing.registry.name) : null);
+      if (declared) {
+        result.reason = `'${packageName}' is declared in ${relative(environment.projectRoot, declared.source)} (as ${declared.name}${declared.specifier.startsWith('@') ? ` ${declared.specifier}` : declared.specifier}) but not installed in ${describePythonEnvironment(environment)}`;
+        result.installCommand = this.getSyncCommand(environment, declared);
+      }
+      this.cache.set(cacheKey, result);
+      return result;
       
     } catch (error) {
       const result: ValidationResult = {
@@ -162,7 +210,7 @@ export class PythonDiscoveryEngine implements DiscoveryEngine {
   }
 
   async introspectModule(input: IntrospectModuleInput): Promise<ModuleInfo> {
-    const cacheKey = CacheManager.generateKey('introspect_python', input.moduleName);
+    const cacheKey = CacheManager.generateKey('introspect_python', input.moduleName, input.includePrivate, input.maxDepth, input.projectPath);
     
     // Check cache first
     const cached = this.cache.get<ModuleInfo>(cacheKey);
@@ -171,12 +219,13 @@ export class PythonDiscoveryEngine implements DiscoveryEngine {
     }
 
     try {
-      const exports = await this.getModuleExports(input.moduleName);
-      const dependencies = await this.getModuleDependencies(input.moduleName);
+      const environment = detectPythonEnvironment(input.projectPath);
+      const exports = await this.getModuleExports(input, environment);
+      const dependencies = await this.getModuleDependencies(input.moduleName, environment);
       
       const result: ModuleInfo = {
         name: input.moduleName,
-        path: await this.getModulePath(input.moduleName) || '',
+        path: await this.getModulePath(input.moduleName, environment) || '',
         exports,
         submodules: [],
         dependencies,
@@ -209,51 +258,95 @@ export class PythonDiscoveryEngine implements DiscoveryEngine {
   }
 
   // Helper methods
-  private async getInstalledPackages(): Promise<PackageInfo[]> {
-    const packages: PackageInfo[] = [];
-    
-    try {
-      // Try pip list first
-      const output = execSync('pip list --format=json', { encoding: 'utf-8' });
-      const pipPackages = JSON.parse(output);
-      
-      for (const pkg of pipPackages) {
+  /**
+   * Installed distributions, then importable modules that no distribution claims
+   */
+  private async getInstalledPackages(environment: ProjectPythonEnvironment): Promise<PackageInfo[]> {
+    const { distributions, byImport } = this.getDistributionIndex(environment);
+    const packages: PackageInfo[] = distributions.map(dist => ({
+      name: dist.name,
+      version: dist.version,
+      description: dist.summary,
+      installed: true,
+      path: dist.sitePackages,
+      importNames: dist.importNames,
+    }));
+
+    for (const location of this.getModuleIndex(environment)?.modules.values() || []) {
+      if (!location.stdlib && !byImport.has(location.name) && location.path) {
         packages.push({
-          name: pkg.name,
-          version: pkg.version,
+          name: location.name,
+          version: 'unknown',
           installed: true,
+          path: location.path,
+          importNames: [location.name],
         });
       }
-    } catch (error) {
-      console.debug('Failed to get pip packages:', error);
-      
-      // Fallback: try conda list
-      try {
-        const condaOutput = execSync('conda list --json', { encoding: 'utf-8' });
-        const condaPackages = JSON.parse(condaOutput);
-        
-        for (const pkg of condaPackages) {
-          packages.push({
-            name: pkg.name,
-            version: pkg.version,
-            installed: true,
-          });
-        }
-      } catch (condaError) {
-        console.debug('Failed to get conda packages:', condaError);
-      }
     }
-    
+
     return packages;
   }
 
-  private getStandardLibraryMatches(searchTerm: string): PackageInfo[] {
+  /**
+   * Top-level modules importable in the project's environment, from a static scan of its sys.path
+   */
+  private getModuleIndex(environment: ProjectPythonEnvironment): PythonModuleIndex | null {
+    const cacheKey = CacheManager.generateKey('python_modules', environment.interpreters.join(','), environment.projectRoot);
+    const cached = this.cache.get<PythonModuleIndex>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const interpreter = getPythonEnvironment(environment.interpreters, environment.projectRoot);
+    if (!interpreter) {
+      return null;
+    }
+
+    const index = indexPythonModules(interpreter.sysPath, interpreter);
+    this.cache.set(cacheKey, index);
+    return index;
+  }
+
+  /**
+   * Distributions in the interpreter's site-packages, indexed both ways between distribution and import names
+   */
+  private getDistributionIndex(environment: ProjectPythonEnvironment): PythonDistributionIndex {
+    const cacheKey = CacheManager.generateKey('python_distributions', environment.interpreters.join(','), environment.projectRoot);
+    const cached = this.cache.get<PythonDistributionIndex>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const index = PythonMetadataParser.indexSitePackages(this.getSitePackages(environment));
+    this.cache.set(cacheKey, index);
+    return index;
+  }
+
+  /**
+   * site-packages directories in sys.path order, including ones added by .pth files
+   */
+  private getSitePackages(environment: ProjectPythonEnvironment): string[] {
+    return this.getModuleIndex(environment)?.sitePackages || [];
+  }
+
+  private getStandardLibraryModules(environment: ProjectPythonEnvironment): string[] {
+    const index = this.getModuleIndex(environment);
+    if (!index) {
+      return [...PYTHON_STDLIB_MODULES];
+    }
+    return [...index.modules.values()]
+      .filter(location => location.stdlib && !location.name.startsWith('_'))
+      .map(location => location.name)
+      .sort();
+  }
+
+  private getStandardLibraryMatches(searchTerm: string, environment: ProjectPythonEnvironment): PackageInfo[] {
     if (!searchTerm) return [];
     
     const matches: PackageInfo[] = [];
     const searchLower = searchTerm.toLowerCase();
     
-    for (const moduleName of PYTHON_STDLIB_MODULES) {
+    for (const moduleName of this.getStandardLibraryModules(environment)) {
       if (moduleName.includes(searchLower)) {
         matches.push({
           name: moduleName,
@@ -285,92 +378,160 @@ export class PythonDiscoveryEngine implements DiscoveryEngine {
     return null;
   }
 
-  private async checkPackageInstalled(packageName: string): Promise<boolean> {
-    try {
-      // Use Python to check if module can be imported
-      const result = execSync(`python -c "import ${packageName}"`, { encoding: 'utf-8' });
-      return true;
-    } catch (error) {
-      return false;
-    }
-  }
+  private async getKnownPackages(environment: ProjectPythonEnvironment): Promise<Set<string>> {
+    const candidates = new Set<string>(this.getStandardLibraryModules(environment));
 
-  private async getSimilarPackages(packageName: string): Promise<string[]> {
-    const suggestions: string[] = [];
-    
     try {
-      const installedPackages = await this.getInstalledPackages();
-      
-      // Simple similarity check
-      for (const pkg of installedPackages) {
-        if (pkg.name.includes(packageName) || packageName.includes(pkg.name)) {
-          suggestions.push(pkg.name);
-        }
-      }
-      
-      // Also check standard library
-      for (const stdlibModule of PYTHON_STDLIB_MODULES) {
-        if (stdlibModule.includes(packageName) || packageName.includes(stdlibModule)) {
-          suggestions.push(stdlibModule);
+      for (const pkg of await this.getInstalledPackages(environment)) {
+        candidates.add(pkg.name);
+        for (const importName of pkg.importNames || []) {
+          candidates.add(importName);
         }
       }
-      
     } catch (error) {
       console.debug('Error getting similar packages:', error);
     }
-    
-    return suggestions.slice(0, 5);
+
+    return candidates;
   }
 
-  private async getModuleExports(moduleName: string): Promise<ModuleExport[]> {
-    const exports: ModuleExport[] = [];
-    
+  /**
+   * Exports read from the module's stub or source file. Nothing is imported, so module code never runs.
+   */
+  private async getModuleExports(input: IntrospectModuleInput, environment: ProjectPythonEnvironment): Promise<ModuleExport[]> {
+    const index = this.getModuleIndex(environment);
+    const file = index ? findPythonSourceFile(index, input.moduleName) : null;
+    if (!file) {
+      return [];
+    }
+
     try {
-      // Use Python introspection to get module members
-      const script = `
-import inspect
-import ${moduleName}
-
-members = inspect.getmembers(${moduleName})
-for name, obj in members:
-    if not name.startswith('_'):
-        obj_type = 'function' if inspect.isfunction(obj) else 'class' if inspect.isclass(obj) else 'constant'
-        signature = str(inspect.signature(obj)) if inspect.isfunction(obj) else ''
-        print(f"{name}|{obj_type}|{signature}")
-      `;
-      
-      const output = execSync(`python -c "${script}"`, { encoding: 'utf-8' });
-      const lines = output.trim().split('\n');
-      
-      for (const line of lines) {
-        if (line.trim()) {
-          const [name, type, signature] = line.split('|');
-          exports.push({
-            name: name || '',
-            type: type as any,
-            signature: signature || undefined,
-          });
-        }
-      }
+      return PythonSourceParser.parseModule(file, {
+        memberDepth: input.maxDepth - 1,
+        includePrivate: input.includePrivate,
+        resolveModule: moduleName => findPythonSourceFile(index!, moduleName),
+      });
     } catch (error) {
-      console.debug(`Error getting exports for ${moduleName}:`, error);
+      console.error(`Error parsing ${file}:`, error);
+      return [];
     }
-    
-    return exports;
   }
 
-  private async getModulePath(moduleName: string): Promise<string | null> {
-    try {
-      const output = execSync(`python -c "import ${moduleName}; print(${moduleName}.__file__)"`, { encoding: 'utf-8' });
-      return output.trim() || null;
-    } catch (error) {
+  private async getModulePath(moduleName: string, environment: ProjectPythonEnvironment): Promise<string | null> {
+    const index = this.getModuleIndex(environment);
+    // Submodules of single-file modules (`six.moves`) have no file of their own, only the stub their exports come from
+    return index ? locatePythonModule(index, moduleName) ?? findPythonSourceFile(index, moduleName) : null;
+  }
+
+  /**
+   * What the distribution providing a module requires, or for the project's own modules, the
+   * runtime dependencies its manifests declare
+   */
+  private async getModuleDependencies(moduleName: string, environment: ProjectPythonEnvironment): Promise<string[]> {
+    const topLevel = moduleName.split('.')[0]!;
+    const providers = this.getDistributionIndex(environment).byImport.get(topLevel);
+    if (providers) {
+      return [...new Set(providers.flatMap(dist => dist.requires))];
+    }
+
+    const location = this.getModuleIndex(environment)?.modules.get(topLevel);
+    const inProject = (path: string) => path.startsWith(environment.projectRoot + sep) && !(environment.prefix && path.startsWith(environment.prefix + sep));
+    if (location?.path && !location.stdlib && inProject(location.path)) {
+      const runtime = this.getManifest(environment).dependencies.filter(dependency => dependency.group === null);
+      return [...new Set(runtime.map(dependency => dependency.name))];
+    }
+    return [];
+  }
+
+  /**
+   * Declared dependencies from pyproject.toml, setup.cfg and requirements*.txt, and versions pinned by uv.lock or poetry.lock
+   */
+  private getManifest(environment: ProjectPythonEnvironment): PythonManifest {
+    const cacheKey = CacheManager.generateKey('python_manifest', environment.projectRoot);
+    const cached = this.cache.get<PythonManifest>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const manifest = PythonManifestParser.readProject(environment.projectRoot);
+    this.cache.set(cacheKey, manifest);
+    return manifest;
+  }
+
+  /**
+   * Importable is not the same as declared: a distribution that is only there because another one
+   * requires it disappears when that one is upgraded or removed
+   */
+  private checkDeclaredDependency(providers: PythonDistribution[], environment: ProjectPythonEnvironment): ValidationWarning | null {
+    const manifest = this.getManifest(environment);
+    const manifests = manifest.files.filter(file => !file.endsWith('.lock')).map(file => relative(environment.projectRoot, file));
+    const projectName = manifest.projectName ? PythonManifestParser.normalizeName(manifest.projectName) : null;
+    if (manifests.length === 0 || providers.some(dist => PythonManifestParser.findDependency(manifest, dist.name) || PythonManifestParser.normalizeName(dist.name) === projectName)) {
       return null;
     }
+
+    const distribution = providers[0]!;
+    const dependencyPath = this.findDependencyPath(distribution, manifest, this.getDistributionIndex(environment));
+    if (!dependencyPath) {
+      return {
+        code: 'undeclared-dependency',
+        message: `'${distribution.name}' is installed but not declared in ${manifests.join(', ')}, and no declared dependency requires it`,
+      };
+    }
+
+    return {
+      code: 'undeclared-dependency',
+      message: `'${distribution.name}' is installed but not declared in ${manifests.join(', ')}; it is only installed because of ${dependencyPath.join(' > ')}`,
+      dependencyPath,
+    };
   }
 
-  private async getModuleDependencies(moduleName: string): Promise<string[]> {
-    // This is a simplified implementation
-    // In practice, you'd want to parse requirements.txt or setup.py
-    return [];
+  /**
+   * Shortest chain of Requires-Dist from a declared dependency to the distribution, breadth first
+   */
+  private findDependencyPath(target: PythonDistribution, manifest: PythonManifest, index: PythonDistributionIndex): string[] | null {
+    const targetKey = PythonManifestParser.normalizeName(target.name);
+    const queue: Array<{ dist: PythonDistribution; path: string[] }> = [];
+    const visited = new Set<string>();
+
+    for (const dependency of manifest.dependencies) {
+      const dist = index.byDistribution.get(PythonManifestParser.normalizeName(dependency.name));
+      if (dist && !visited.has(PythonManifestParser.normalizeName(dist.name))) {
+        visited.add(PythonManifestParser.normalizeName(dist.name));
+        queue.push({ dist, path: [dist.name] });
+      }
+    }
+
+    while (queue.length > 0) {
+      const { dist, path } = queue.shift()!;
+      for (const requirement of dist.requires) {
+        const key = PythonManifestParser.normalizeName(requirement);
+        const required = index.byDistribution.get(key);
+        if (key === targetKey) {
+          return [...path, target.name];
+        }
+        if (required && !visited.has(key)) {
+          visited.add(key);
+          queue.push({ dist: required, path: [...path, required.name] });
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The command that installs what the project declares, for the tool that manages its environment
+   */
+  private getSyncCommand(environment: ProjectPythonEnvironment, dependency: PythonDependency): string {
+    switch (environment.manager) {
+      case 'uv':
+        return 'uv sync';
+      case 'poetry':
+        return dependency.group ? `poetry install --with ${dependency.group}` : 'poetry install';
+      case 'pipenv':
+        return 'pipenv install';
+    }
+    const source = relative(environment.projectRoot, dependency.source);
+    return source.endsWith('.txt') ? `pip install -r ${source}` : `pip install ${dependency.name}`;
   }
 }
\ No newline at end of file
@@ -14,6 +14,9 @@ import {
   PackageInfo,
   ModuleExport,
 } from '../types.js';
+import { rankSuggestions } from '../utils/suggestions.js';
+import { assessPackageRisk } from '../utils/typosquat.js';
+import { checkRegistry, REGISTRY_NAMES } from '../utils/registry-index.js';
 
 /**
  * Rust standard library modules
@@ -132,6 +135,7 @@ export class RustDiscoveryEngine implements DiscoveryEngine {
         const result: ValidationResult = {
           valid: true,
           packageName,
+          packageStatus: 'installed',
           reason: 'Rust standard library module',
         };
         this.cache.set(cacheKey, result);
@@ -145,16 +149,22 @@ export class RustDiscoveryEngine implements DiscoveryEngine {
         const result: ValidationResult = {
           valid: true,
           packageName,
+          packageStatus: 'installed',
         };
         this.cache.set(cacheKey, result);
         return result;
       } else {
-        const suggestions = await this.getSimilarPackages(packageName);
+        const knownPackages = await this.getKnownPackages();
+        const suggestions = rankSuggestions(packageName, knownPackages);
+        const listing = checkRegistry('crates', packageName);
         const result: ValidationResult = {
           valid: false,
           packageName,
-          reason: `Crate '${packageName}' is not found in Cargo.toml`,
-          suggestions,
+          reason: `Crate '${packageName}' is not found in Cargo.toml${listing.registry ? `, but it is published on ${REGISTRY_NAMES.crates}` : ''}`,
+          suggestions: suggestions.map(suggestion => suggestion.name),
+          rankedSuggestions: suggestions,
+          risk: assessPackageRisk(packageName, 'rust', knownPackages),
+          ...listing,
         };
         this.cache.set(cacheKey, result);
         return result;
@@ -325,37 +335,21 @@ export class RustDiscoveryEngine implements DiscoveryEngine {
     }
   }
 
-  private async getSimilarPackages(packageName: string): Promise<string[]> {
-    const suggestions: string[] = [];
-    
+  private async getKnownPackages(): Promise<Set<string>> {
+    const candidates = new Set<string>(RUST_STDLIB_MODULES);
+
     try {
       const cargoTomlPath = this.findCargoToml(process.cwd());
-      
       if (cargoTomlPath) {
         const cargoToml = this.parseCargoToml(cargoTomlPath);
-        const dependencies = cargoToml.dependencies || {};
-        const devDependencies = cargoToml['dev-dependencies'] || {};
-        const allDeps = { ...dependencies, ...devDependencies };
-        
-        // Simple similarity check
-        for (const depName of Object.keys(allDeps)) {
-          if (depName.includes(packageName) || packageName.includes(depName)) {
-            suggestions.push(depName);
-          }
+        for (const depName of Object.keys({ ...cargoToml.dependencies, ...cargoToml['dev-dependencies'] })) {
+          candidates.add(depName);
         }
       }
-      
-      // Also check standard library
-      for (const stdlibModule of RUST_STDLIB_MODULES) {
-        if (stdlibModule.includes(packageName) || packageName.includes(stdlibModule)) {
-          suggestions.push(stdlibModule);
-        }
-      }
-      
     } catch (error) {
       console.debug('Error getting similar packages:', error);
     }
-    
-    return suggestions.slice(0, 5);
+
+    return candidates;
   }
 }
\ No newline at end of file
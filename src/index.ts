@@ -8,12 +8,15 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { DiscoveryEngineFactory } from './engines/factory.js';
+import { validateCode } from './engines/code-validation.js';
 import { CacheManager } from './cache.js';
 import {
   DiscoverPackagesInputSchema,
   ValidateImportInputSchema,
   IntrospectModuleInputSchema,
   SearchAffordancesInputSchema,
+  ValidateUsageInputSchema,
+  ValidateCodeInputSchema,
 } from './types.js';
 
 class AffordanceDiscoveryServer {
@@ -78,12 +81,16 @@ class AffordanceDiscoveryServer {
                   default: 50,
                   description: 'Maximum number of results to return',
                 },
+                projectPath: {
+                  type: 'string',
+                  description: 'Optional path to the project root',
+                },
               },
             },
           },
           {
             name: 'validate_import',
-            description: 'Validate if a specific import statement is valid in the current environment',
+            description: 'Validate if a specific import statement is valid in the current environment, including each imported name',
             inputSchema: {
               type: 'object',
               properties: {
@@ -99,7 +106,11 @@ class AffordanceDiscoveryServer {
                 },
                 projectPath: {
                   type: 'string',
-                  description: 'Optional path to the project root',
+                  description: 'Optional path to the project root; Python imports are checked against the project\'s virtualenv, Poetry, uv, pipenv or conda environment',
+                },
+                importingFile: {
+                  type: 'string',
+                  description: 'Optional path of the file that contains the import; relative imports are resolved from it',
                 },
               },
               required: ['importStatement'],
@@ -123,15 +134,24 @@ class AffordanceDiscoveryServer {
                 },
                 includePrivate: {
                   type: 'boolean',
+                  description: 'Include private/internal exports and members (`_` names, `#private` and `private` class members)',
                   default: false,
-                  description: 'Include private/internal exports',
                 },
                 maxDepth: {
                   type: 'number',
                   minimum: 1,
                   maximum: 5,
                   default: 2,
-                  description: 'Maximum depth for nested introspection',
+                  description: 'Levels of nesting to describe: 1 lists the exports, 2 adds class, namespace and object members, and so on',
+                },
+                projectPath: {
+                  type: 'string',
+                  description: 'Project directory to resolve the module from (defaults to the server working directory); for Python, its environment is used',
+                },
+                sandbox: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'When static analysis finds no exports, load the module in an isolated child process (read-only filesystem access to its package, no network, time-limited). Module code never runs otherwise.',
                 },
               },
               required: ['moduleName'],
@@ -170,6 +190,62 @@ class AffordanceDiscoveryServer {
               required: ['query'],
             },
           },
+          {
+            name: 'validate_code',
+            description: 'Validate every import in a whole file or snippet at once (multi-line imports, re-exports, require() and dynamic imports included), with the line and column of each and an overall verdict',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                code: {
+                  type: 'string',
+                  description: 'Source text of the file or snippet',
+                },
+                language: {
+                  type: 'string',
+                  enum: ['javascript', 'python', 'rust', 'go', 'java'],
+                  default: 'javascript',
+                  description: 'Programming language of the code (TypeScript is parsed as javascript)',
+                },
+                projectPath: {
+                  type: 'string',
+                  description: 'Optional path to the project root',
+                },
+                importingFile: {
+                  type: 'string',
+                  description: 'Optional path of the file the code belongs to; relative imports are resolved from it',
+                },
+              },
+              required: ['code'],
+            },
+          },
+          {
+            name: 'validate_usage',
+            description: 'Validate how a code snippet uses its imports: every member accessed through an imported binding (e.g. "fs.readFileAsync") is checked against the module\'s real exports, and calls against known signatures',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                code: {
+                  type: 'string',
+                  description: 'Code snippet, including the imports or require() calls it uses',
+                },
+                language: {
+                  type: 'string',
+                  enum: ['javascript'],
+                  default: 'javascript',
+                  description: 'Programming language of the code; only JavaScript and TypeScript are supported',
+                },
+                projectPath: {
+                  type: 'string',
+                  description: 'Optional path to the project root',
+                },
+                importingFile: {
+                  type: 'string',
+                  description: 'Optional path of the file the code belongs to; imports are resolved from it',
+                },
+              },
+              required: ['code'],
+            },
+          },
         ] satisfies Tool[],
       };
     });
@@ -236,6 +312,37 @@ class AffordanceDiscoveryServer {
             };
           }
 
+          case 'validate_code': {
+            const input = ValidateCodeInputSchema.parse(args);
+            const engine = this.engineFactory.getEngine(input.language);
+            const result = await validateCode(engine, input);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'validate_usage': {
+            const input = ValidateUsageInputSchema.parse(args);
+            const engine = this.engineFactory.getEngine(input.language);
+            if (!engine.validateUsage) {
+              throw new Error(`Usage validation is not supported for ${input.language}`);
+            }
+            const result = await engine.validateUsage(input);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -1,90 +1,503 @@
 import { parse } from '@babel/parser';
-import traverse from '@babel/traverse';
+import traverseModule from '@babel/traverse';
 import * as t from '@babel/types';
 import { readFileSync, existsSync } from 'fs';
-import { join, extname } from 'path';
+import { join, extname, dirname, resolve } from 'path';
 import { ModuleExport } from '../types.js';
+import { isFile, readTextFile } from '../utils/package-fs.js';
+import { resolveSourceFile } from '../resolvers/source-files.js';
+import { resolveModule } from '../resolvers/module-resolver.js';
+import { splitModuleSpecifier } from '../resolvers/package-exports.js';
+import { resolveTypeDeclarations, resolveDeclarationFile, DECLARATION_EXTENSION } from '../resolvers/type-declarations.js';
 import * as ts from 'typescript';
 
+// @babel/traverse is CommonJS; under native ESM the default import is the exports object
+const traverse: typeof traverseModule = (traverseModule as any).default ?? traverseModule;
+
 export interface ASTAnalysisResult {
   exports: ModuleExport[];
   imports: string[];
   hasDefaultExport: boolean;
   dependencies: string[];
+  reExports: string[]; // Sources of `export * from '...'` that were not followed
+  namedReExports: NamedReExport[];
+  hasExportAssignment: boolean; // `export = value` exposes members we cannot enumerate syntactically
+  commonJs: boolean; // Exports come from `module.exports` / `exports.x` assignments
+  esModuleFlag: boolean; // `__esModule` marker of transpiled ESM: interop treats `exports.default` as the default export
+}
+
+/**
+ * `export { imported as name } from 'source'` (imported is '*' for `export * as name from 'source'`)
+ */
+export interface NamedReExport {
+  name: string;
+  imported: string;
+  source: string;
+}
+
+export interface ParseOptions {
+  maxDepth?: number; // Re-export hops to follow into other files; 0 reads only the file itself
+  memberDepth?: number; // Levels of class, namespace and object members to describe under each export
+}
+
+type TSDeclaration = ts.FunctionDeclaration | ts.ClassDeclaration | ts.VariableStatement | ts.InterfaceDeclaration |
+  ts.TypeAliasDeclaration | ts.EnumDeclaration | ts.ModuleDeclaration;
+
+export interface ImportSpecifierInfo {
+  kind: 'default' | 'named' | 'namespace';
+  imported: string; // Name in the source module ('default' / '*' for default and namespace imports)
+  local: string; // Binding name in the importing module
+  typeOnly: boolean; // `import type { X }` or `import { type X }`; erased at runtime
+}
+
+export interface ImportStatementInfo {
+  source: string;
+  syntax: 'import' | 'require' | 'dynamic-import';
+  specifiers: ImportSpecifierInfo[];
+}
+
+export interface LocatedImportStatement extends ImportStatementInfo {
+  statement: string; // Source text, e.g. `import fs from 'fs'` or `const fs = require('fs');`
+  line: number;
+  column: number;
+}
+
+/**
+ * `local.members[0].members[1]...`, optionally called, where `local` was bound by an import
+ */
+export interface MemberAccessInfo {
+  local: string;
+  source: string;
+  imported: string; // What the binding refers to in the source module ('default' / '*' for default and namespace imports)
+  members: string[];
+  call: { arguments: number; spread: boolean; construct: boolean } | undefined;
+  expression: string; // Source text of the access, without call arguments
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface UsageAnalysis {
+  imports: LocatedImportStatement[];
+  accesses: MemberAccessInfo[];
 }
 
 export class ASTParser {
   /**
-   * Parse a JavaScript/TypeScript file using AST to extract exports and imports
+   * Parse a JavaScript/TypeScript file using AST to extract exports and imports, following
+   * `export * from` and `export { x } from` into the files that define the exports
+   */
+  static async parseFile(filePath: string, options: ParseOptions = {}): Promise<ASTAnalysisResult> {
+    return this.parseFollowingReExports(resolve(filePath), options.maxDepth ?? 0, options.memberDepth ?? 0, new Set());
+  }
+
+  /**
+   * `inProgress` holds the files on the current re-export chain; a re-export back into one of them is a cycle
+   */
+  private static parseFollowingReExports(filePath: string, remainingDepth: number, memberDepth: number, inProgress: Set<string>): ASTAnalysisResult {
+    const result = this.parseSingleFile(filePath, memberDepth);
+    const reExportedNames = new Set(result.namedReExports.map(reExport => reExport.name));
+    for (const exp of result.exports) {
+      if (!reExportedNames.has(exp.name)) {
+        exp.definedIn = filePath;
+      }
+    }
+
+    if (remainingDepth <= 0) {
+      return result;
+    }
+
+    inProgress.add(filePath);
+    const followed = new Map<string, { file: string; analysis: ASTAnalysisResult | null } | null>();
+    const follow = (source: string) => {
+      if (!followed.has(source)) {
+        const file = this.resolveReExportSource(source, filePath);
+        followed.set(source, file === null ? null : {
+          file,
+          analysis: inProgress.has(file) ? null : this.parseFollowingReExports(file, remainingDepth - 1, memberDepth, inProgress),
+        });
+      }
+      return followed.get(source)!;
+    };
+
+    const unresolved: string[] = [];
+    for (const source of result.reExports) {
+      const target = follow(source);
+      if (!target) {
+        unresolved.push(source);
+        continue;
+      }
+      if (!target.analysis) {
+        continue; // Cycle: the file's exports are already being collected further up the chain
+      }
+
+      // `export *` never re-exports default, and local exports shadow star exports
+      const names = new Set(result.exports.map(exp => exp.name));
+      result.exports.push(...target.analysis.exports.filter(exp => exp.name !== 'default' && !names.has(exp.name)));
+      unresolved.push(...target.analysis.reExports);
+      result.hasExportAssignment ||= target.analysis.hasExportAssignment;
+    }
+    result.reExports = unresolved;
+
+    for (const reExport of result.namedReExports) {
+      const target = follow(reExport.source);
+      const index = result.exports.findIndex(exp => exp.name === reExport.name);
+      if (!target || index === -1) {
+        continue;
+      }
+
+      if (reExport.imported === '*') {
+        result.exports[index]!.definedIn = target.file;
+        continue;
+      }
+      const original = target.analysis?.exports.find(exp => exp.name === reExport.imported);
+      if (original) {
+        result.exports[index] = { ...original, name: reExport.name };
+      }
+    }
+
+    inProgress.delete(filePath);
+    return result;
+  }
+
+  /**
+   * Relative re-exports resolve like source imports; bare ones through the package's entry point.
+   * Re-exports in declaration files lead to other declarations (`./x.js` -> `./x.d.ts`), as in TypeScript.
    */
-  static async parseFile(filePath: string): Promise<ASTAnalysisResult> {
-    if (!existsSync(filePath)) {
+  private static resolveReExportSource(source: string, fromFile: string): string | null {
+    const fromDeclaration = DECLARATION_EXTENSION.test(fromFile);
+
+    if (source.startsWith('.') || source.startsWith('/')) {
+      const basePath = resolve(dirname(fromFile), source);
+      return (fromDeclaration && resolveDeclarationFile(basePath)) || resolveSourceFile(basePath);
+    }
+
+    if (fromDeclaration) {
+      const { packageName, subpath } = splitModuleSpecifier(source);
+      return resolveTypeDeclarations(packageName, subpath, dirname(fromFile), ['node', 'import']).file;
+    }
+    const resolution = resolveModule(source, dirname(fromFile));
+    return resolution.format === 'builtin' ? null : resolution.file;
+  }
+
+  private static parseSingleFile(filePath: string, memberDepth: number): ASTAnalysisResult {
+    if (!isFile(filePath)) {
       throw new Error(`File not found: ${filePath}`);
     }
 
     const extension = extname(filePath).toLowerCase();
-    const content = readFileSync(filePath, 'utf-8');
+    const content = readTextFile(filePath);
 
-    if (extension === '.ts' || extension === '.tsx') {
-      return this.parseTypeScriptFile(content, filePath);
+    if (extension === '.ts' || extension === '.tsx' || extension === '.mts' || extension === '.cts') {
+      return this.parseTypeScriptFile(content, filePath, memberDepth);
     } else {
-      return this.parseJavaScriptFile(content, filePath);
+      return this.parseJavaScriptFile(content, filePath, memberDepth);
     }
   }
 
+  /**
+   * Parse import statements (ESM imports, `export ... from` re-exports, require() calls, dynamic
+   * imports and TypeScript's `import x = require()`) from a code snippet
+   */
+  static parseImports(code: string): ImportStatementInfo[] {
+    return this.locateImports(this.parseWithBabel(code), code).map(({ statement, line, column, ...info }) => info);
+  }
+
+  /**
+   * Like parseImports, with the source text and position of every statement
+   */
+  static parseImportLocations(code: string): LocatedImportStatement[] {
+    return this.locateImports(this.parseWithBabel(code), code);
+  }
+
+  /**
+   * Imports of a code snippet together with every member access and call made through the
+   * bindings they create (`fs.promises.readFile(...)`, `new Widget(...)`, `debounce(fn, 100)`).
+   * References are resolved through scopes, so shadowed names are not mistaken for imports.
+   */
+  static parseUsages(code: string): UsageAnalysis {
+    const bindings: Array<{ binding: any; source: string; imported: string }> = [];
+    const imports = this.locateImports(this.parseWithBabel(code), code, (path, statement) => {
+      if (t.isExportDeclaration(path.node)) {
+        return; // Re-exports bind no local names
+      }
+      for (const spec of statement.specifiers) {
+        if (!spec.typeOnly) {
+          bindings.push({ binding: path.scope.getBinding(spec.local), source: statement.source, imported: spec.imported });
+        }
+      }
+    });
+
+    const accesses: MemberAccessInfo[] = [];
+    for (const { binding, source, imported } of bindings) {
+      for (const reference of binding?.referencePaths ?? []) {
+        const access = this.traceMemberAccess(reference, code);
+        if (access) {
+          accesses.push({ ...access, source, imported });
+        }
+      }
+    }
+    accesses.sort((a, b) => a.line - b.line || a.column - b.column);
+
+    return { imports, accesses };
+  }
+
+  /**
+   * Every import-like statement in document order. A `require()` assigned to a variable is reported
+   * as its declaration (`const x = require('x');`), so the text keeps its bindings.
+   */
+  private static locateImports(
+    ast: t.File,
+    code: string,
+    onImport?: (path: any, statement: ImportStatementInfo) => void
+  ): LocatedImportStatement[] {
+    const imports: LocatedImportStatement[] = [];
+    const add = (path: any, statement: ImportStatementInfo | null) => {
+      if (!statement) {
+        return;
+      }
+      const node = path.node;
+      const text = t.isCallExpression(node) && t.isVariableDeclarator(path.parent)
+        ? `const ${code.slice(path.parent.start, path.parent.end)};`
+        : code.slice(node.start, node.end);
+      imports.push({ ...statement, statement: text, line: node.loc.start.line, column: node.loc.start.column + 1 });
+      onImport?.(path, statement);
+    };
+
+    traverse(ast, {
+      ImportDeclaration(path: any) {
+        add(path, ASTParser.describeImportDeclaration(path.node));
+      },
+
+      ExportNamedDeclaration(path: any) {
+        if (path.node.source) {
+          add(path, ASTParser.describeReExport(path.node));
+        }
+      },
+
+      ExportAllDeclaration(path: any) {
+        add(path, ASTParser.describeReExport(path.node));
+      },
+
+      TSImportEqualsDeclaration(path: any) {
+        add(path, ASTParser.describeImportEquals(path.node));
+      },
+
+      CallExpression(path: any) {
+        add(path, ASTParser.describeImportCall(path));
+      }
+    });
+
+    return imports;
+  }
+
+  private static describeImportDeclaration(node: t.ImportDeclaration): ImportStatementInfo {
+    const statementTypeOnly = node.importKind === 'type';
+    const specifiers: ImportSpecifierInfo[] = node.specifiers.map((spec: any) => {
+      const typeOnly = statementTypeOnly || spec.importKind === 'type';
+      if (t.isImportDefaultSpecifier(spec)) {
+        return { kind: 'default', imported: 'default', local: spec.local.name, typeOnly };
+      }
+      if (t.isImportNamespaceSpecifier(spec)) {
+        return { kind: 'namespace', imported: '*', local: spec.local.name, typeOnly };
+      }
+      const imported = t.isIdentifier(spec.imported) ? spec.imported.name : spec.imported.value;
+      return { kind: imported === 'default' ? 'default' : 'named', imported, local: spec.local.name, typeOnly };
+    });
+
+    return { source: node.source.value, syntax: 'import', specifiers };
+  }
+
+  /**
+   * `export { a as b } from 'x'`, `export * as ns from 'x'` and `export * from 'x'` import from 'x' too;
+   * `local` is the name the specifier is exported as
+   */
+  private static describeReExport(node: t.ExportNamedDeclaration | t.ExportAllDeclaration): ImportStatementInfo {
+    const statementTypeOnly = node.exportKind === 'type';
+    const specifiers: ImportSpecifierInfo[] = t.isExportAllDeclaration(node) ? [] : node.specifiers.map(spec => {
+      const exported = t.isIdentifier(spec.exported) ? spec.exported.name : spec.exported.value;
+      if (t.isExportNamespaceSpecifier(spec)) {
+        return { kind: 'namespace', imported: '*', local: exported, typeOnly: statementTypeOnly };
+      }
+      if (t.isExportDefaultSpecifier(spec)) {
+        return { kind: 'default', imported: 'default', local: exported, typeOnly: statementTypeOnly };
+      }
+      const imported = t.isIdentifier(spec.local) ? spec.local.name : (spec.local as t.StringLiteral).value;
+      const typeOnly = statementTypeOnly || spec.exportKind === 'type';
+      return { kind: imported === 'default' ? 'default' : 'named', imported, local: exported, typeOnly };
+    });
+
+    return { source: node.source!.value, syntax: 'import', specifiers };
+  }
+
+  /**
+   * TypeScript's `import x = require('x')` (but not `import x = Namespace.member`)
+   */
+  private static describeImportEquals(node: t.TSImportEqualsDeclaration): ImportStatementInfo | null {
+    if (!t.isTSExternalModuleReference(node.moduleReference)) {
+      return null;
+    }
+    return {
+      source: node.moduleReference.expression.value,
+      syntax: 'require',
+      specifiers: [{ kind: 'namespace', imported: '*', local: node.id.name, typeOnly: node.importKind === 'type' }],
+    };
+  }
+
+  /**
+   * `require('x')` (with the bindings of `const x = ...` / `const { a } = ...`) and `import('x')`
+   */
+  private static describeImportCall(path: any): ImportStatementInfo | null {
+    const { callee, arguments: args } = path.node;
+    const isRequire = t.isIdentifier(callee) && callee.name === 'require';
+    if ((!isRequire && !t.isImport(callee)) || !t.isStringLiteral(args[0])) {
+      return null;
+    }
+
+    const specifiers: ImportSpecifierInfo[] = [];
+    const parent = path.parent;
+    if (isRequire && t.isVariableDeclarator(parent) && parent.init === path.node) {
+      if (t.isIdentifier(parent.id)) {
+        specifiers.push({ kind: 'namespace', imported: '*', local: parent.id.name, typeOnly: false });
+      } else if (t.isObjectPattern(parent.id)) {
+        for (const prop of parent.id.properties) {
+          if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
+            const local = t.isIdentifier(prop.value) ? prop.value.name : prop.key.name;
+            specifiers.push({ kind: 'named', imported: prop.key.name, local, typeOnly: false });
+          }
+        }
+      }
+    }
+
+    return { source: args[0].value, syntax: isRequire ? 'require' : 'dynamic-import', specifiers };
+  }
+
+  /**
+   * Follow a reference outwards through property accesses up to a call, if any. Dynamic (computed)
+   * keys end the chain, and assignments to it are definitions rather than uses.
+   */
+  private static traceMemberAccess(reference: any, code: string): Omit<MemberAccessInfo, 'source' | 'imported'> | null {
+    const members: string[] = [];
+    let current = reference;
+    while ((t.isMemberExpression(current.parent) || t.isOptionalMemberExpression(current.parent)) && current.parent.object === current.node) {
+      const name = this.getMemberName(current.parent as t.MemberExpression);
+      if (name === null) {
+        break;
+      }
+      members.push(name);
+      current = current.parentPath;
+    }
+
+    const parent = current.parent;
+    if (t.isAssignmentExpression(parent) && parent.left === current.node) {
+      return null;
+    }
+    const call = (t.isCallExpression(parent) || t.isOptionalCallExpression(parent) || t.isNewExpression(parent)) && parent.callee === current.node
+      ? { arguments: parent.arguments.length, spread: parent.arguments.some(arg => t.isSpreadElement(arg)), construct: t.isNewExpression(parent) }
+      : undefined;
+    if (members.length === 0 && !call) {
+      return null;
+    }
+
+    return {
+      local: reference.node.name,
+      members,
+      call,
+      expression: code.slice(current.node.start, current.node.end),
+      line: reference.node.loc.start.line,
+      column: reference.node.loc.start.column + 1,
+    };
+  }
+
+  /**
+   * Parse source text with Babel using permissive JavaScript/TypeScript settings
+   */
+  private static parseWithBabel(content: string): t.File {
+    return parse(content, {
+      sourceType: 'module',
+      plugins: [
+        'jsx',
+        'typescript',
+        'decorators-legacy',
+        'classProperties',
+        'objectRestSpread',
+        'asyncGenerators',
+        'dynamicImport',
+        'exportDefaultFrom',
+        'exportNamespaceFrom',
+        'nullishCoalescingOperator',
+        'optionalChaining',
+        'topLevelAwait'
+      ],
+      allowImportExportEverywhere: true,
+      allowReturnOutsideFunction: true,
+    });
+  }
+
   /**
    * Parse JavaScript file using Babel
    */
-  private static parseJavaScriptFile(content: string, filePath: string): ASTAnalysisResult {
+  private static parseJavaScriptFile(content: string, filePath: string, memberDepth: number): ASTAnalysisResult {
     const result: ASTAnalysisResult = {
       exports: [],
       imports: [],
       hasDefaultExport: false,
-      dependencies: []
+      dependencies: [],
+      reExports: [],
+      namedReExports: [],
+      hasExportAssignment: false,
+      commonJs: false,
+      esModuleFlag: false
     };
 
+    const commonJsExports = new Map<string, ModuleExport>();
+
     try {
-      const ast = parse(content, {
-        sourceType: 'module',
-        plugins: [
-          'jsx',
-          'typescript',
-          'decorators-legacy',
-          'classProperties',
-          'objectRestSpread',
-          'asyncGenerators',
-          'dynamicImport',
-          'exportDefaultFrom',
-          'exportNamespaceFrom',
-          'nullishCoalescingOperator',
-          'optionalChaining',
-          'topLevelAwait'
-        ],
-        allowImportExportEverywhere: true,
-        allowReturnOutsideFunction: true,
-      });
+      const ast = this.parseWithBabel(content);
 
       traverse(ast, {
+        // CommonJS: exports.x = ..., module.exports = ...
+        AssignmentExpression(path: any) {
+          ASTParser.collectCommonJsAssignment(path, result, commonJsExports, memberDepth);
+        },
+
         // Handle exports
         ExportNamedDeclaration(path: any) {
           if (path.node.declaration) {
-            ASTParser.extractExportsFromDeclaration(path.node.declaration, result.exports);
+            ASTParser.extractExportsFromDeclaration(path.node.declaration, result.exports, memberDepth);
           }
           
+          const source = path.node.source?.value;
           if (path.node.specifiers) {
             path.node.specifiers.forEach((spec: any) => {
               if (t.isExportSpecifier(spec)) {
                 const exportedName = t.isIdentifier(spec.exported) ? spec.exported.name : spec.exported.value;
+                if (source) {
+                  const imported = t.isIdentifier(spec.local) ? spec.local.name : (spec.local as t.StringLiteral).value;
+                  result.namedReExports.push({ name: exportedName, imported, source });
+                }
                 result.exports.push({
                   name: exportedName,
                   type: 'constant',
                   signature: exportedName
                 });
+              } else if (t.isExportNamespaceSpecifier(spec)) {
+                if (source) {
+                  result.namedReExports.push({ name: spec.exported.name, imported: '*', source });
+                }
+                result.exports.push({
+                  name: spec.exported.name,
+                  type: 'namespace',
+                  signature: spec.exported.name
+                });
               }
             });
           }
         },
 
+        ExportAllDeclaration(path: any) {
+          result.reExports.push(path.node.source.value);
+        },
+
         ExportDefaultDeclaration(path: any) {
           result.hasDefaultExport = true;
           const declaration = path.node.declaration;
@@ -99,13 +512,15 @@ export class ASTParser {
             result.exports.push({
               name: 'default',
               type: 'class',
-              signature: declaration.id.name
+              signature: declaration.id.name,
+              members: ASTParser.describeClassMembers(declaration, declaration.id.name, memberDepth)
             });
           } else {
             result.exports.push({
               name: 'default',
               type: 'constant',
-              signature: 'default'
+              signature: 'default',
+              members: ASTParser.describeObjectMembers(declaration, memberDepth)
             });
           }
         },
@@ -126,6 +541,8 @@ export class ASTParser {
 
         // Handle require() calls
         CallExpression(path: any) {
+          ASTParser.collectCommonJsCall(path, result, commonJsExports, memberDepth);
+
           if (t.isIdentifier(path.node.callee) && path.node.callee.name === 'require') {
             const arg = path.node.arguments[0];
             if (t.isStringLiteral(arg)) {
@@ -142,6 +559,13 @@ export class ASTParser {
         }
       });
 
+      if (result.commonJs) {
+        // Node hands module.exports to default imports of CommonJS modules; for transpiled ESM,
+        // interop hands them `exports.default` instead
+        result.hasDefaultExport = !result.esModuleFlag || commonJsExports.has('default');
+        result.exports.push(...commonJsExports.values());
+      }
+
     } catch (error) {
       console.error(`Error parsing JavaScript file ${filePath}:`, error);
     }
@@ -149,15 +573,264 @@ export class ASTParser {
     return result;
   }
 
+  /**
+   * Static CommonJS export detection along the lines of cjs-module-lexer:
+   * `exports.x = v`, `module.exports.x = v`, `exports['x'] = v` and `module.exports = { ... }` / `require('...')` / value
+   */
+  private static collectCommonJsAssignment(path: any, result: ASTAnalysisResult, commonJsExports: Map<string, ModuleExport>, memberDepth: number): void {
+    const { left, operator } = path.node;
+    if (operator !== '=' || !t.isMemberExpression(left)) {
+      return;
+    }
+
+    const right = path.get('right');
+
+    if (this.isModuleExports(path, left)) {
+      result.commonJs = true;
+      this.collectModuleExportsValue(path, right, result, commonJsExports, memberDepth);
+      return;
+    }
+
+    const name = this.getMemberName(left);
+    if (name === null || !this.isExportsObject(path, left.object)) {
+      return;
+    }
+
+    result.commonJs = true;
+    if (name === '__esModule') {
+      result.esModuleFlag = true;
+      return;
+    }
+    // TypeScript hoists `exports.a = exports.b = void 0;` ahead of the real assignments
+    if (!commonJsExports.has(name) || !t.isUnaryExpression(right.node, { operator: 'void' })) {
+      this.setCommonJsExport(path, name, right, result, commonJsExports, memberDepth);
+    }
+  }
+
+  /**
+   * `Object.defineProperty(exports, 'x', ...)`, TypeScript's `__exportStar(require('y'), exports)` and
+   * Babel's `Object.keys(_y).forEach(...)` re-export loop over `var _y = require('y')`
+   */
+  private static collectCommonJsCall(path: any, result: ASTAnalysisResult, commonJsExports: Map<string, ModuleExport>, memberDepth: number): void {
+    const { callee, arguments: args } = path.node;
+
+    if (t.isMemberExpression(callee) && t.isIdentifier(callee.object, { name: 'Object' }) &&
+        t.isIdentifier(callee.property, { name: 'defineProperty' }) &&
+        args[0] && this.isExportsObject(path, args[0]) && t.isStringLiteral(args[1])) {
+      result.commonJs = true;
+      const name = args[1].value;
+      if (name === '__esModule') {
+        result.esModuleFlag = true;
+        return;
+      }
+      const descriptor = path.get('arguments.2');
+      const valueProperty = t.isObjectExpression(descriptor.node)
+        ? descriptor.get('properties').find((property: any) => t.isObjectProperty(property.node) && t.isIdentifier(property.node.key, { name: 'value' }))
+        : undefined;
+      if (valueProperty) {
+        this.setCommonJsExport(path, name, valueProperty.get('value'), result, commonJsExports, memberDepth);
+        return;
+      }
+
+      commonJsExports.set(name, { name, type: 'constant', signature: name });
+      // Babel's re-export getter: `get: function () { return _module.name; }`
+      const getter = t.isObjectExpression(descriptor.node)
+        ? descriptor.node.properties.find((property: t.Node) => this.getPropertyKeyName((property as t.ObjectProperty).key) === 'get')
+        : undefined;
+      const getterFunction = t.isObjectProperty(getter) ? getter.value : getter;
+      const returned = t.isFunction(getterFunction) && t.isBlockStatement(getterFunction.body) && getterFunction.body.body.length === 1 &&
+        t.isReturnStatement(getterFunction.body.body[0]) ? getterFunction.body.body[0].argument : null;
+      if (t.isMemberExpression(returned)) {
+        const source = this.getRequiredSource(path, returned.object);
+        const imported = this.getMemberName(returned);
+        if (source && imported) {
+          result.namedReExports.push({ name, imported, source });
+        }
+      }
+      return;
+    }
+
+    const helperName = t.isIdentifier(callee) ? callee.name
+      : t.isMemberExpression(callee) && t.isIdentifier(callee.property) ? callee.property.name
+      : t.isSequenceExpression(callee) && t.isMemberExpression(callee.expressions.at(-1)) ? ((callee.expressions.at(-1) as t.MemberExpression).property as t.Identifier).name
+      : null;
+    if ((helperName === '__exportStar' || helperName === '__export') && args[0]) {
+      const source = this.getRequiredSource(path, args[0]);
+      if (source) {
+        result.commonJs = true;
+        result.reExports.push(source);
+      }
+      return;
+    }
+
+    if (t.isMemberExpression(callee) && t.isIdentifier(callee.property, { name: 'forEach' }) &&
+        t.isCallExpression(callee.object) && t.isMemberExpression(callee.object.callee) &&
+        t.isIdentifier(callee.object.callee.object, { name: 'Object' }) &&
+        t.isIdentifier(callee.object.callee.property, { name: 'keys' }) && callee.object.arguments[0] &&
+        path.get('arguments.0').toString().includes('exports')) {
+      const source = this.getRequiredSource(path, callee.object.arguments[0]);
+      if (source) {
+        result.commonJs = true;
+        result.reExports.push(source);
+      }
+    }
+  }
+
+  private static collectModuleExportsValue(
+    path: any,
+    value: any,
+    result: ASTAnalysisResult,
+    commonJsExports: Map<string, ModuleExport>,
+    memberDepth: number
+  ): void {
+    const required = this.getRequiredSource(path, value.node);
+    if (required) {
+      result.reExports.push(required);
+      return;
+    }
+
+    const objectValue = t.isIdentifier(value.node) ? this.resolveBinding(value) : value;
+    if (objectValue && t.isObjectExpression(objectValue.node)) {
+      for (const property of objectValue.get('properties')) {
+        if (t.isSpreadElement(property.node)) {
+          const source = this.getRequiredSource(path, property.node.argument);
+          if (source) {
+            result.reExports.push(source);
+          } else {
+            result.hasExportAssignment = true;
+          }
+          continue;
+        }
+
+        const name = property.node.computed ? null : this.getPropertyKeyName(property.node.key);
+        if (name === null) {
+          result.hasExportAssignment = true;
+        } else if (t.isObjectMethod(property.node)) {
+          commonJsExports.set(name, { name, type: 'function', signature: this.generateFunctionSignature(property.node, name) });
+        } else {
+          this.setCommonJsExport(path, name, property.get('value'), result, commonJsExports, memberDepth);
+        }
+      }
+      return;
+    }
+
+    // module.exports = fn / class / instance: a single value whose properties we cannot enumerate
+    result.hasExportAssignment = true;
+    commonJsExports.set('default', this.inferCommonJsExport('default', value, memberDepth));
+  }
+
+  /**
+   * `exports.x = require('./x')` re-exports another module's module.exports, which is its default export
+   */
+  private static setCommonJsExport(
+    path: any,
+    name: string,
+    value: any,
+    result: ASTAnalysisResult,
+    commonJsExports: Map<string, ModuleExport>,
+    memberDepth: number
+  ): void {
+    const source = this.getRequiredSource(path, value.node);
+    if (source) {
+      result.namedReExports = result.namedReExports.filter(reExport => reExport.name !== name);
+      result.namedReExports.push({ name, imported: 'default', source });
+    }
+    commonJsExports.set(name, this.inferCommonJsExport(name, value, memberDepth));
+  }
+
+  /**
+   * Kind of an exported value, looking through identifiers to their top-level declarations
+   */
+  private static inferCommonJsExport(name: string, value: any, memberDepth: number): ModuleExport {
+    const target = t.isIdentifier(value.node) ? this.resolveBinding(value) || value : value;
+    const node = target.node;
+
+    if (t.isFunction(node)) {
+      const functionName = name === 'default' ? ((node as any).id?.name || 'default') : name;
+      return { name, type: 'function', signature: this.generateFunctionSignature(node, functionName) };
+    }
+    if (t.isClass(node)) {
+      const className = name === 'default' ? (node.id?.name || 'default') : name;
+      return { name, type: 'class', signature: className, members: this.describeClassMembers(node, className, memberDepth) };
+    }
+    if (t.isCallExpression(node) && t.isIdentifier(node.callee, { name: 'require' })) {
+      return { name, type: 'namespace', signature: name };
+    }
+    return { name, type: 'constant', signature: name, members: this.describeObjectMembers(node, memberDepth) };
+  }
+
+  /**
+   * The declaration (or variable initializer) an identifier is bound to
+   */
+  private static resolveBinding(identifier: any): any | null {
+    const binding = identifier.scope.getBinding(identifier.node.name);
+    if (!binding) {
+      return null;
+    }
+    if (t.isVariableDeclarator(binding.path.node)) {
+      return binding.path.node.init ? binding.path.get('init') : null;
+    }
+    return binding.path;
+  }
+
+  /**
+   * `require('x')`, an identifier bound to one, or a helper wrapping one (`_interopRequireWildcard(require('x'))`)
+   */
+  private static getRequiredSource(path: any, node: t.Node): string | null {
+    if (t.isIdentifier(node)) {
+      const binding = path.scope.getBinding(node.name);
+      return binding && t.isVariableDeclarator(binding.path.node) && binding.path.node.init
+        ? this.getRequiredSource(path, binding.path.node.init)
+        : null;
+    }
+    if (!t.isCallExpression(node)) {
+      return null;
+    }
+    if (t.isIdentifier(node.callee, { name: 'require' }) && t.isStringLiteral(node.arguments[0])) {
+      return node.arguments[0].value;
+    }
+    return node.arguments.length === 1 && node.arguments[0] && t.isCallExpression(node.arguments[0])
+      ? this.getRequiredSource(path, node.arguments[0])
+      : null;
+  }
+
+  /**
+   * `module.exports`, as long as `module` is the CommonJS free variable
+   */
+  private static isModuleExports(path: any, node: t.Node): boolean {
+    return t.isMemberExpression(node) && t.isIdentifier(node.object, { name: 'module' }) &&
+      this.getMemberName(node) === 'exports' && !path.scope.hasBinding('module');
+  }
+
+  private static isExportsObject(path: any, node: t.Node): boolean {
+    return (t.isIdentifier(node, { name: 'exports' }) && !path.scope.hasBinding('exports')) || this.isModuleExports(path, node);
+  }
+
+  private static getMemberName(node: t.MemberExpression): string | null {
+    if (!node.computed && t.isIdentifier(node.property)) {
+      return node.property.name;
+    }
+    return t.isStringLiteral(node.property) ? node.property.value : null;
+  }
+
+  private static getPropertyKeyName(key: t.Node): string | null {
+    return t.isIdentifier(key) ? key.name : t.isStringLiteral(key) ? key.value : null;
+  }
+
   /**
    * Parse TypeScript file using TypeScript compiler API
    */
-  private static parseTypeScriptFile(content: string, filePath: string): ASTAnalysisResult {
+  private static parseTypeScriptFile(content: string, filePath: string, memberDepth: number): ASTAnalysisResult {
     const result: ASTAnalysisResult = {
       exports: [],
       imports: [],
       hasDefaultExport: false,
-      dependencies: []
+      dependencies: [],
+      reExports: [],
+      namedReExports: [],
+      hasExportAssignment: false,
+      commonJs: false,
+      esModuleFlag: false
     };
 
     try {
@@ -171,18 +844,36 @@ export class ASTParser {
       const visit = (node: ts.Node) => {
         // Handle exports
         if (ts.isExportDeclaration(node)) {
+          const source = node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier) ? node.moduleSpecifier.text : undefined;
           if (node.exportClause && ts.isNamedExports(node.exportClause)) {
             node.exportClause.elements.forEach(element => {
+              if (source) {
+                result.namedReExports.push({ name: element.name.text, imported: (element.propertyName || element.name).text, source });
+              }
               result.exports.push({
                 name: element.name.text,
                 type: 'constant',
                 signature: element.name.text
               });
             });
+          } else if (node.exportClause && ts.isNamespaceExport(node.exportClause)) {
+            if (source) {
+              result.namedReExports.push({ name: node.exportClause.name.text, imported: '*', source });
+            }
+            result.exports.push({
+              name: node.exportClause.name.text,
+              type: 'namespace',
+              signature: node.exportClause.name.text
+            });
+          } else if (!node.exportClause && source) {
+            result.reExports.push(source);
           }
         }
 
         if (ts.isExportAssignment(node)) {
+          if (node.isExportEquals) {
+            result.hasExportAssignment = true;
+          }
           result.hasDefaultExport = true;
           result.exports.push({
             name: 'default',
@@ -191,51 +882,12 @@ export class ASTParser {
           });
         }
 
-        // Handle function exports
-        if (ts.isFunctionDeclaration(node) && node.modifiers?.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword)) {
-          const isDefault = node.modifiers?.some(mod => mod.kind === ts.SyntaxKind.DefaultKeyword);
-          const name = isDefault ? 'default' : (node.name?.text || 'anonymous');
-          
-          if (isDefault) {
+        // Handle declaration exports (functions, classes, variables, types, enums and namespaces)
+        if (this.isTSDeclaration(node) && node.modifiers?.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword)) {
+          if (node.modifiers?.some(mod => mod.kind === ts.SyntaxKind.DefaultKeyword)) {
             result.hasDefaultExport = true;
           }
-
-          result.exports.push({
-            name,
-            type: 'function',
-            signature: this.generateTSFunctionSignature(node),
-            parameters: this.extractTSParameters(node),
-            returnType: node.type ? this.getTSTypeString(node.type) : undefined
-          });
-        }
-
-        // Handle class exports
-        if (ts.isClassDeclaration(node) && node.modifiers?.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword)) {
-          const isDefault = node.modifiers?.some(mod => mod.kind === ts.SyntaxKind.DefaultKeyword);
-          const name = isDefault ? 'default' : (node.name?.text || 'anonymous');
-          
-          if (isDefault) {
-            result.hasDefaultExport = true;
-          }
-
-          result.exports.push({
-            name,
-            type: 'class',
-            signature: name
-          });
-        }
-
-        // Handle variable exports
-        if (ts.isVariableStatement(node) && node.modifiers?.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword)) {
-          node.declarationList.declarations.forEach(decl => {
-            if (ts.isIdentifier(decl.name)) {
-              result.exports.push({
-                name: decl.name.text,
-                type: 'constant',
-                signature: decl.name.text
-              });
-            }
-          });
+          result.exports.push(...this.describeTSDeclaration(node, memberDepth));
         }
 
         // Handle imports
@@ -251,7 +903,10 @@ export class ASTParser {
           }
         }
 
-        ts.forEachChild(node, visit);
+        // Declarations inside a namespace are its members, not module exports
+        if (!(ts.isModuleDeclaration(node) && ts.isIdentifier(node.name))) {
+          ts.forEachChild(node, visit);
+        }
       };
 
       visit(sourceFile);
@@ -266,7 +921,7 @@ export class ASTParser {
   /**
    * Extract exports from a declaration node
    */
-  private static extractExportsFromDeclaration(declaration: t.Declaration, exports: ModuleExport[]): void {
+  private static extractExportsFromDeclaration(declaration: t.Declaration, exports: ModuleExport[], memberDepth: number): void {
     if (t.isFunctionDeclaration(declaration) && declaration.id) {
       exports.push({
         name: declaration.id.name,
@@ -277,7 +932,8 @@ export class ASTParser {
       exports.push({
         name: declaration.id.name,
         type: 'class',
-        signature: declaration.id.name
+        signature: declaration.id.name,
+        members: this.describeClassMembers(declaration, declaration.id.name, memberDepth)
       });
     } else if (t.isVariableDeclaration(declaration)) {
       declaration.declarations.forEach(decl => {
@@ -285,7 +941,10 @@ export class ASTParser {
           exports.push({
             name: decl.id.name,
             type: 'constant',
-            signature: decl.id.name
+            signature: decl.id.name,
+            members: t.isClass(decl.init)
+              ? this.describeClassMembers(decl.init, decl.id.name, memberDepth)
+              : this.describeObjectMembers(decl.init, memberDepth)
           });
         }
       });
@@ -304,11 +963,112 @@ export class ASTParser {
     }
   }
 
+  /**
+   * Constructor, methods, properties and accessors declared in a class body (inherited members are not visible here)
+   */
+  private static describeClassMembers(node: t.Class, className: string, memberDepth: number): ModuleExport[] | undefined {
+    if (memberDepth <= 0) {
+      return undefined;
+    }
+
+    const members = new Map<string, ModuleExport>();
+    for (const member of node.body.body) {
+      if (!t.isClassMethod(member) && !t.isClassPrivateMethod(member) && !t.isClassProperty(member) &&
+          !t.isClassPrivateProperty(member) && !t.isClassAccessorProperty(member)) {
+        continue; // Static blocks, index signatures and TypeScript overload declarations
+      }
+
+      const name = t.isPrivateName(member.key) ? `#${member.key.id.name}`
+        : (member as t.ClassProperty).computed ? null
+        : this.getPropertyKeyName(member.key);
+      if (name === null) {
+        continue;
+      }
+      const classMember = {
+        static: !!member.static,
+        access: t.isPrivateName(member.key) ? 'private' as const : (member as t.ClassMethod).accessibility ?? 'public',
+      };
+      const key = `${classMember.static ? 'static ' : ''}${name}`;
+
+      if (t.isClassMethod(member) || t.isClassPrivateMethod(member)) {
+        if (member.kind === 'constructor') {
+          members.set(key, { name, type: 'constructor', signature: this.generateFunctionSignature(member, `new ${className}`), access: classMember.access });
+        } else if (member.kind === 'get' || member.kind === 'set') {
+          members.set(key, this.mergeAccessor(members.get(key), name, member.kind, this.generateFunctionSignature(member, `${member.kind} ${name}`), classMember));
+        } else {
+          members.set(key, { name, type: 'method', signature: this.generateFunctionSignature(member, name), ...classMember });
+        }
+      } else if (t.isClassAccessorProperty(member)) {
+        members.set(key, { name, type: 'accessor', signature: `accessor ${name}`, ...classMember });
+      } else {
+        members.set(key, {
+          name,
+          type: 'property',
+          signature: name,
+          ...classMember,
+          readonly: (member as t.ClassProperty).readonly || undefined,
+          members: this.describeObjectMembers(member.value, memberDepth - 1),
+        });
+      }
+    }
+
+    return members.size > 0 ? [...members.values()] : undefined;
+  }
+
+  /**
+   * Properties and methods of an object literal
+   */
+  private static describeObjectMembers(node: t.Node | null | undefined, memberDepth: number): ModuleExport[] | undefined {
+    if (memberDepth <= 0 || !t.isObjectExpression(node)) {
+      return undefined;
+    }
+
+    const members = new Map<string, ModuleExport>();
+    for (const property of node.properties) {
+      if (t.isSpreadElement(property) || property.computed) {
+        continue;
+      }
+      const name = this.getPropertyKeyName(property.key);
+      if (name === null) {
+        continue;
+      }
+
+      if (t.isObjectMethod(property) && (property.kind === 'get' || property.kind === 'set')) {
+        members.set(name, this.mergeAccessor(members.get(name), name, property.kind, this.generateFunctionSignature(property, `${property.kind} ${name}`), {}));
+      } else if (t.isObjectMethod(property) || t.isFunction(property.value)) {
+        members.set(name, { name, type: 'method', signature: this.generateFunctionSignature(t.isObjectMethod(property) ? property : property.value as t.Function, name) });
+      } else {
+        members.set(name, { name, type: 'property', signature: name, members: this.describeObjectMembers(property.value, memberDepth - 1) });
+      }
+    }
+
+    return members.size > 0 ? [...members.values()] : undefined;
+  }
+
+  /**
+   * A getter and setter pair is one accessor member, read-only when there is no setter
+   */
+  private static mergeAccessor(
+    existing: ModuleExport | undefined,
+    name: string,
+    kind: 'get' | 'set',
+    signature: string,
+    classMember: Partial<ModuleExport>
+  ): ModuleExport {
+    const signatures = existing?.type === 'accessor' && existing.signature ? [existing.signature, signature] : [signature];
+    return {
+      name,
+      type: 'accessor',
+      signature: signatures.sort().join('; '),
+      ...classMember,
+      readonly: signatures.some(accessor => accessor.startsWith('set ')) ? undefined : true,
+    };
+  }
+
   /**
    * Generate function signature from Babel AST
    */
-  private static generateFunctionSignature(func: t.FunctionDeclaration): string {
-    const name = func.id?.name || 'anonymous';
+  private static generateFunctionSignature(func: t.Function, name: string = (func as t.FunctionDeclaration).id?.name || 'anonymous'): string {
     const params = func.params.map(param => {
       if (t.isIdentifier(param)) {
         return param.name;
@@ -321,11 +1081,223 @@ export class ASTParser {
     return `${name}(${params})`;
   }
 
+  private static isTSDeclaration(node: ts.Node): node is TSDeclaration {
+    return ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isVariableStatement(node) ||
+      ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) || ts.isEnumDeclaration(node) ||
+      (ts.isModuleDeclaration(node) && ts.isIdentifier(node.name));
+  }
+
+  /**
+   * Exports a declaration statement contributes, as a module export or as a namespace member
+   */
+  private static describeTSDeclaration(node: TSDeclaration, memberDepth: number): ModuleExport[] {
+    const isDefault = node.modifiers?.some(mod => mod.kind === ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isFunctionDeclaration(node)) {
+      return [{
+        name: isDefault ? 'default' : (node.name?.text || 'anonymous'),
+        type: 'function',
+        signature: this.generateTSFunctionSignature(node),
+        parameters: this.extractTSParameters(node),
+        returnType: node.type ? this.getTSTypeString(node.type) : undefined
+      }];
+    }
+
+    if (ts.isClassDeclaration(node)) {
+      const name = isDefault ? 'default' : (node.name?.text || 'anonymous');
+      return [{
+        name,
+        type: 'class',
+        signature: name,
+        members: this.describeTSClassMembers(node, node.name?.text || name, memberDepth)
+      }];
+    }
+
+    if (ts.isVariableStatement(node)) {
+      return node.declarationList.declarations.filter(decl => ts.isIdentifier(decl.name)).map(decl => ({
+        name: decl.name.getText(),
+        type: 'constant' as const,
+        signature: decl.name.getText(),
+        members: decl.initializer && ts.isClassExpression(decl.initializer)
+          ? this.describeTSClassMembers(decl.initializer, decl.name.getText(), memberDepth)
+          : this.describeTSObjectMembers(decl.initializer, memberDepth)
+      }));
+    }
+
+    if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+      return [{
+        name: node.name.text,
+        type: ts.isInterfaceDeclaration(node) ? 'interface' : 'type',
+        signature: node.name.text
+      }];
+    }
+
+    if (ts.isEnumDeclaration(node)) {
+      return [{
+        name: node.name.text,
+        type: 'constant',
+        signature: node.name.text
+      }];
+    }
+
+    return [{
+      name: node.name.text,
+      type: 'namespace',
+      signature: node.name.text,
+      members: this.describeTSNamespaceMembers(node, memberDepth)
+    }];
+  }
+
+  /**
+   * Exported declarations of a namespace body; everything in an ambient (`declare`) namespace is exported
+   */
+  private static describeTSNamespaceMembers(node: ts.ModuleDeclaration, memberDepth: number): ModuleExport[] | undefined {
+    if (memberDepth <= 0 || !node.body) {
+      return undefined;
+    }
+
+    // `namespace A.B { ... }` nests B inside A
+    const statements = ts.isModuleBlock(node.body) ? node.body.statements : [node.body];
+    let ambient = node.getSourceFile().isDeclarationFile;
+    for (let current: ts.Node | undefined = node; current && !ambient; current = current.parent) {
+      ambient = ts.isModuleDeclaration(current) && (ts.getCombinedModifierFlags(current) & ts.ModifierFlags.Ambient) !== 0;
+    }
+    const members = statements
+      .filter((statement): statement is TSDeclaration => this.isTSDeclaration(statement))
+      .filter(statement => ambient || ts.isModuleDeclaration(node.body!) ||
+        statement.modifiers?.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword))
+      .flatMap(statement => this.describeTSDeclaration(statement, memberDepth - 1));
+
+    return members.length > 0 ? members : undefined;
+  }
+
+  /**
+   * Constructor (with parameter properties), methods, properties and accessors declared in a class body.
+   * Overloaded methods are described by their first declaration.
+   */
+  private static describeTSClassMembers(node: ts.ClassLikeDeclaration, className: string, memberDepth: number): ModuleExport[] | undefined {
+    if (memberDepth <= 0) {
+      return undefined;
+    }
+
+    const members = new Map<string, ModuleExport>();
+    const describeModifiers = (member: ts.Declaration, name: string) => {
+      const modifiers = ts.getCombinedModifierFlags(member);
+      return {
+        static: (modifiers & ts.ModifierFlags.Static) !== 0,
+        access: name.startsWith('#') || modifiers & ts.ModifierFlags.Private ? 'private' as const
+          : modifiers & ts.ModifierFlags.Protected ? 'protected' as const
+          : 'public' as const,
+        readonly: modifiers & ts.ModifierFlags.Readonly ? true : undefined,
+      };
+    };
+
+    for (const member of node.members) {
+      if (ts.isConstructorDeclaration(member)) {
+        if (!members.has('constructor')) {
+          members.set('constructor', {
+            name: 'constructor',
+            type: 'constructor',
+            signature: this.generateTSFunctionSignature(member, `new ${className}`),
+            parameters: this.extractTSParameters(member),
+            access: describeModifiers(member, 'constructor').access
+          });
+        }
+        // `constructor(private readonly x: T)` declares a property too
+        for (const param of member.parameters) {
+          if (ts.isIdentifier(param.name) && ts.isParameterPropertyDeclaration(param, member)) {
+            const name = param.name.text;
+            members.set(name, {
+              name,
+              type: 'property',
+              signature: param.type ? `${name}${param.questionToken ? '?' : ''}: ${this.getTSTypeString(param.type)}` : name,
+              ...describeModifiers(param, name)
+            });
+          }
+        }
+        continue;
+      }
+
+      const name = member.name && !ts.isComputedPropertyName(member.name) ? member.name.text : null;
+      if (name === null) {
+        continue; // Index signatures, static blocks and computed names
+      }
+      const { readonly, ...classMember } = describeModifiers(member, name);
+      const key = `${classMember.static ? 'static ' : ''}${name}`;
+
+      if (ts.isMethodDeclaration(member)) {
+        if (!members.has(key)) {
+          members.set(key, {
+            name,
+            type: 'method',
+            signature: this.generateTSFunctionSignature(member, name),
+            parameters: this.extractTSParameters(member),
+            returnType: member.type ? this.getTSTypeString(member.type) : undefined,
+            ...classMember
+          });
+        }
+      } else if (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+        const kind = ts.isGetAccessorDeclaration(member) ? 'get' : 'set';
+        members.set(key, this.mergeAccessor(members.get(key), name, kind, this.generateTSFunctionSignature(member, `${kind} ${name}`), classMember));
+      } else if (ts.isPropertyDeclaration(member)) {
+        const isAccessor = member.modifiers?.some(mod => mod.kind === ts.SyntaxKind.AccessorKeyword);
+        members.set(key, {
+          name,
+          type: isAccessor ? 'accessor' : 'property',
+          signature: `${isAccessor ? 'accessor ' : ''}${name}${member.questionToken ? '?' : ''}${member.type ? `: ${this.getTSTypeString(member.type)}` : ''}`,
+          ...classMember,
+          readonly,
+          members: this.describeTSObjectMembers(member.initializer, memberDepth - 1)
+        });
+      }
+    }
+
+    return members.size > 0 ? [...members.values()] : undefined;
+  }
+
+  /**
+   * Properties and methods of an object literal
+   */
+  private static describeTSObjectMembers(node: ts.Expression | undefined, memberDepth: number): ModuleExport[] | undefined {
+    const object = node && ts.isAsExpression(node) ? node.expression : node; // `{ ... } as const`
+    if (memberDepth <= 0 || !object || !ts.isObjectLiteralExpression(object)) {
+      return undefined;
+    }
+
+    const members = new Map<string, ModuleExport>();
+    for (const property of object.properties) {
+      const name = property.name && !ts.isComputedPropertyName(property.name) ? property.name.text : null;
+      if (name === null) {
+        continue; // Spread assignments and computed names
+      }
+
+      if (ts.isGetAccessorDeclaration(property) || ts.isSetAccessorDeclaration(property)) {
+        const kind = ts.isGetAccessorDeclaration(property) ? 'get' : 'set';
+        members.set(name, this.mergeAccessor(members.get(name), name, kind, this.generateTSFunctionSignature(property, `${kind} ${name}`), {}));
+      } else if (ts.isMethodDeclaration(property)) {
+        members.set(name, { name, type: 'method', signature: this.generateTSFunctionSignature(property, name), parameters: this.extractTSParameters(property) });
+      } else if (ts.isPropertyAssignment(property) && (ts.isArrowFunction(property.initializer) || ts.isFunctionExpression(property.initializer))) {
+        members.set(name, { name, type: 'method', signature: this.generateTSFunctionSignature(property.initializer, name), parameters: this.extractTSParameters(property.initializer) });
+      } else {
+        members.set(name, {
+          name,
+          type: 'property',
+          signature: name,
+          members: ts.isPropertyAssignment(property) ? this.describeTSObjectMembers(property.initializer, memberDepth - 1) : undefined
+        });
+      }
+    }
+
+    return members.size > 0 ? [...members.values()] : undefined;
+  }
+
   /**
    * Generate function signature from TypeScript AST
    */
-  private static generateTSFunctionSignature(func: ts.FunctionDeclaration): string {
-    const name = func.name?.text || 'anonymous';
+  private static generateTSFunctionSignature(
+    func: ts.SignatureDeclaration,
+    name: string = func.name && ts.isIdentifier(func.name) ? func.name.text : 'anonymous'
+  ): string {
     const params = func.parameters.map(param => {
       const paramName = param.name.getText();
       const paramType = param.type ? `: ${this.getTSTypeString(param.type)}` : '';
@@ -340,7 +1312,7 @@ export class ASTParser {
   /**
    * Extract parameters from TypeScript function
    */
-  private static extractTSParameters(func: ts.FunctionDeclaration): Array<{
+  private static extractTSParameters(func: ts.SignatureDeclaration): Array<{
     name: string;
     type: string;
     optional: boolean;
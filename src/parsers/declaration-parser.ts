@@ -0,0 +1,386 @@
+import * as ts from 'typescript';
+import { ModuleExport, Parameter, Signature } from '../types.js';
+import { isDirectory, isFile, readTextFile } from '../utils/package-fs.js';
+
+/**
+ * Compiler options for introspecting installed packages: declaration files only, resolved the way
+ * a bundler-based project would see them, without pulling in every @types package on disk
+ */
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ['lib.es2022.d.ts'],
+  types: [],
+  strict: true,
+  allowJs: false,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+const TYPE_FORMAT_FLAGS = ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope;
+
+export interface DeclarationParseOptions {
+  memberDepth?: number; // Levels of class, namespace and object members to describe under each export
+}
+
+export class DeclarationParser {
+  /**
+   * Enumerate the exports of a module through the TypeScript type checker. `entryFile` is the
+   * module's declaration entry (or TypeScript source); `export *`, `export =` and re-exports
+   * across files are resolved by the checker, and every type is rendered fully resolved.
+   */
+  static parseModule(entryFile: string, options: DeclarationParseOptions = {}): ModuleExport[] {
+    const memberDepth = options.memberDepth ?? 0;
+    const program = ts.createProgram([entryFile], COMPILER_OPTIONS, this.createCompilerHost());
+    const checker = program.getTypeChecker();
+    const sourceFile = program.getSourceFile(entryFile);
+    const moduleSymbol = sourceFile ? checker.getSymbolAtLocation(sourceFile) : undefined;
+    if (!moduleSymbol) {
+      throw new Error(`${entryFile} is not a module`);
+    }
+
+    const exports: ModuleExport[] = [];
+
+    // `export = value`: the value is what a default import receives, its namespace members the named exports
+    const exportEquals = moduleSymbol.exports?.get(ts.InternalSymbolName.ExportEquals);
+    if (exportEquals) {
+      const described = this.describeSymbol(checker, 'default', exportEquals, memberDepth);
+      if (described) {
+        exports.push(described);
+      }
+    }
+
+    for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+      const described = this.describeSymbol(checker, symbol.getName(), symbol, memberDepth);
+      if (described) {
+        exports.push(described);
+      }
+    }
+
+    return exports;
+  }
+
+  /**
+   * Host that reads through package-fs, so declarations inside Yarn PnP zip archives resolve too
+   */
+  private static createCompilerHost(): ts.CompilerHost {
+    const host = ts.createCompilerHost(COMPILER_OPTIONS);
+    const readFile = (fileName: string): string | undefined => {
+      try {
+        return readTextFile(fileName);
+      } catch {
+        return undefined;
+      }
+    };
+
+    return {
+      ...host,
+      fileExists: isFile,
+      directoryExists: isDirectory,
+      readFile,
+      getSourceFile: (fileName, languageVersion) => {
+        const content = readFile(fileName);
+        return content === undefined ? undefined : ts.createSourceFile(fileName, content, languageVersion, true);
+      },
+    };
+  }
+
+  private static describeSymbol(checker: ts.TypeChecker, name: string, exported: ts.Symbol, memberDepth: number): ModuleExport | null {
+    const symbol = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+    const declaration = symbol.valueDeclaration || symbol.declarations?.[0];
+    if (!declaration) {
+      return null;
+    }
+
+    const described = this.describeDeclaredSymbol(checker, name, symbol, declaration);
+    if (!described) {
+      return null;
+    }
+
+    const members = memberDepth > 0 ? this.describeMembers(checker, symbol, declaration, described, memberDepth - 1) : [];
+    return {
+      ...described,
+      members: members.length > 0 ? members : undefined,
+      definedIn: declaration.getSourceFile().fileName,
+    };
+  }
+
+  /**
+   * Constructors and static/instance members of classes (inherited ones included), exports of
+   * namespaces (including those merged with functions and classes) and properties of objects
+   */
+  private static describeMembers(
+    checker: ts.TypeChecker,
+    symbol: ts.Symbol,
+    declaration: ts.Declaration,
+    described: ModuleExport,
+    memberDepth: number
+  ): ModuleExport[] {
+    const members = new Map<string, ModuleExport>();
+    const add = (member: ModuleExport | null) => {
+      if (member && !members.has(`${member.static ? 'static ' : ''}${member.name}`)) {
+        members.set(`${member.static ? 'static ' : ''}${member.name}`, member);
+      }
+    };
+
+    if (symbol.flags & ts.SymbolFlags.Class) {
+      const staticType = checker.getTypeOfSymbolAtLocation(symbol, declaration);
+      const constructors = staticType.getConstructSignatures().map(signature => this.describeSignature(checker, `new ${symbol.getName()}`, signature, declaration));
+      if (constructors.length > 0) {
+        add({
+          name: 'constructor',
+          type: 'constructor',
+          signature: constructors[0]!.signature,
+          description: constructors[0]!.description,
+          parameters: constructors[0]!.parameters,
+          overloads: constructors.length > 1 ? constructors : undefined,
+        });
+      }
+      for (const property of checker.getPropertiesOfType(staticType)) {
+        if (property.getName() !== 'prototype') {
+          add(this.describeMember(checker, property, declaration, memberDepth, true));
+        }
+      }
+      for (const property of checker.getPropertiesOfType(checker.getDeclaredTypeOfSymbol(symbol))) {
+        add(this.describeMember(checker, property, declaration, memberDepth, false));
+      }
+    }
+
+    if (symbol.flags & (ts.SymbolFlags.ValueModule | ts.SymbolFlags.NamespaceModule)) {
+      for (const exported of checker.getExportsOfModule(symbol)) {
+        add(this.describeSymbol(checker, exported.getName(), exported, memberDepth));
+      }
+    } else if (described.type === 'constant') {
+      for (const property of this.getObjectProperties(checker, checker.getTypeOfSymbolAtLocation(symbol, declaration))) {
+        add(this.describeMember(checker, property, declaration, memberDepth, undefined));
+      }
+    }
+
+    return [...members.values()];
+  }
+
+  /**
+   * A class member (`isStatic` set) or object property, with nested members for object-typed properties
+   */
+  private static describeMember(
+    checker: ts.TypeChecker,
+    property: ts.Symbol,
+    enclosing: ts.Declaration,
+    memberDepth: number,
+    isStatic: boolean | undefined
+  ): ModuleExport | null {
+    const declaration = property.valueDeclaration || property.declarations?.[0];
+    if (declaration && declaration.getSourceFile().hasNoDefaultLib) {
+      return null; // Inherited from the standard library (Error, Array, ...)
+    }
+
+    const declaredName = declaration && ts.getNameOfDeclaration(declaration);
+    const name = declaredName && ts.isPrivateIdentifier(declaredName) ? declaredName.text : property.getName();
+    const modifiers = declaration ? ts.getCombinedModifierFlags(declaration) : ts.ModifierFlags.None;
+    const type = checker.getTypeOfSymbolAtLocation(property, declaration || enclosing);
+    const location = declaration || enclosing;
+    const description = ts.displayPartsToString(property.getDocumentationComment(checker)) || undefined;
+
+    const classMember: Partial<ModuleExport> = isStatic === undefined ? {} : {
+      static: isStatic,
+      access: name.startsWith('#') || modifiers & ts.ModifierFlags.Private ? 'private'
+        : modifiers & ts.ModifierFlags.Protected ? 'protected'
+        : 'public',
+    };
+
+    if (property.flags & ts.SymbolFlags.Method) {
+      const signatures = type.getCallSignatures().map(signature => this.describeSignature(checker, name, signature, location));
+      const first = signatures[0];
+      return {
+        name,
+        type: 'method',
+        signature: first?.signature ?? `${name}()`,
+        description: description || first?.description,
+        typeParameters: first?.typeParameters,
+        parameters: first?.parameters,
+        returnType: first?.returnType,
+        overloads: signatures.length > 1 ? signatures : undefined,
+        ...classMember,
+      };
+    }
+
+    const typeText = checker.typeToString(type, location, TYPE_FORMAT_FLAGS);
+
+    if (property.flags & ts.SymbolFlags.Accessor) {
+      const hasSetter = !!(property.flags & ts.SymbolFlags.SetAccessor);
+      return {
+        name,
+        type: 'accessor',
+        signature: [
+          property.flags & ts.SymbolFlags.GetAccessor ? `get ${name}(): ${typeText}` : null,
+          hasSetter ? `set ${name}(value: ${typeText})` : null,
+        ].filter(Boolean).join('; '),
+        description,
+        returnType: typeText,
+        ...classMember,
+        readonly: hasSetter ? undefined : true,
+      };
+    }
+
+    const nested = memberDepth > 0
+      ? this.getObjectProperties(checker, type).map(nestedProperty => this.describeMember(checker, nestedProperty, location, memberDepth - 1, undefined))
+      : [];
+    const members = nested.filter((member): member is ModuleExport => member !== null);
+    return {
+      name,
+      type: 'property',
+      signature: `${name}${property.flags & ts.SymbolFlags.Optional ? '?' : ''}: ${typeText}`,
+      description,
+      ...classMember,
+      readonly: modifiers & ts.ModifierFlags.Readonly ? true : undefined,
+      members: members.length > 0 ? members : undefined,
+    };
+  }
+
+  /**
+   * Properties of plain object types; functions, primitives and standard library types are not expanded
+   */
+  private static getObjectProperties(checker: ts.TypeChecker, type: ts.Type): ts.Symbol[] {
+    if (!(type.flags & ts.TypeFlags.Object) || type.getCallSignatures().length > 0 || type.getConstructSignatures().length > 0) {
+      return [];
+    }
+    if (type.getSymbol()?.declarations?.some(declaration => declaration.getSourceFile().hasNoDefaultLib)) {
+      return [];
+    }
+    return checker.getPropertiesOfType(type);
+  }
+
+  private static describeDeclaredSymbol(checker: ts.TypeChecker, name: string, symbol: ts.Symbol, declaration: ts.Declaration): ModuleExport | null {
+    const description = ts.displayPartsToString(symbol.getDocumentationComment(checker)) || undefined;
+    const flags = symbol.flags;
+    const displayName = name === 'default' ? symbol.getName() : name; // renamed exports show under the exported name
+
+    if (flags & ts.SymbolFlags.Class) {
+      const type = checker.getTypeOfSymbolAtLocation(symbol, declaration);
+      const declaredType = checker.getDeclaredTypeOfSymbol(symbol) as ts.InterfaceType;
+      const typeParameters = this.renderTypeParameters(checker, declaredType.typeParameters, declaration);
+      const constructors = type.getConstructSignatures().map(signature => this.describeSignature(checker, `new ${displayName}`, signature, declaration));
+      return {
+        name,
+        type: 'class',
+        signature: `class ${displayName}${typeParameters ? `<${typeParameters.join(', ')}>` : ''}`,
+        description,
+        typeParameters,
+        parameters: constructors[0]?.parameters,
+        overloads: constructors.length > 1 ? constructors : undefined,
+      };
+    }
+
+    if (flags & (ts.SymbolFlags.Function | ts.SymbolFlags.Variable)) {
+      const type = checker.getTypeOfSymbolAtLocation(symbol, declaration);
+      const callSignatures = type.getCallSignatures();
+
+      if (callSignatures.length > 0 && (flags & ts.SymbolFlags.Function || type.getProperties().length === 0)) {
+        const signatures = callSignatures.map(signature => this.describeSignature(checker, displayName, signature, declaration));
+        const [first] = signatures as [Signature, ...Signature[]];
+        return {
+          name,
+          type: 'function',
+          signature: first.signature,
+          description: description || first.description,
+          typeParameters: first.typeParameters,
+          parameters: first.parameters,
+          returnType: first.returnType,
+          overloads: signatures.length > 1 ? signatures : undefined,
+        };
+      }
+
+      if (flags & ts.SymbolFlags.Variable) {
+        return {
+          name,
+          type: 'constant',
+          signature: `${name}: ${checker.typeToString(type, declaration, TYPE_FORMAT_FLAGS)}`,
+          description,
+        };
+      }
+    }
+
+    if (flags & ts.SymbolFlags.Enum) {
+      return { name, type: 'constant', signature: `enum ${displayName}`, description };
+    }
+
+    if (flags & ts.SymbolFlags.Interface) {
+      const declaredType = checker.getDeclaredTypeOfSymbol(symbol) as ts.InterfaceType;
+      const typeParameters = this.renderTypeParameters(checker, declaredType.typeParameters, declaration);
+      return {
+        name,
+        type: 'interface',
+        signature: `interface ${displayName}${typeParameters ? `<${typeParameters.join(', ')}>` : ''}`,
+        description,
+        typeParameters,
+      };
+    }
+
+    if (flags & ts.SymbolFlags.TypeAlias) {
+      const aliasDeclaration = symbol.declarations?.find(ts.isTypeAliasDeclaration);
+      const typeParameters = aliasDeclaration?.typeParameters
+        ?.map(parameter => this.renderTypeParameter(checker, checker.getTypeAtLocation(parameter) as ts.TypeParameter, declaration));
+      const aliased = checker.typeToString(checker.getDeclaredTypeOfSymbol(symbol), declaration, TYPE_FORMAT_FLAGS | ts.TypeFormatFlags.InTypeAlias);
+      return {
+        name,
+        type: 'type',
+        signature: `type ${displayName}${typeParameters ? `<${typeParameters.join(', ')}>` : ''} = ${aliased}`,
+        description,
+        typeParameters,
+      };
+    }
+
+    if (flags & (ts.SymbolFlags.ValueModule | ts.SymbolFlags.NamespaceModule)) {
+      return { name, type: 'namespace', signature: name, description };
+    }
+
+    return null;
+  }
+
+  private static describeSignature(checker: ts.TypeChecker, name: string, signature: ts.Signature, enclosing: ts.Node): Signature {
+    const typeParameters = this.renderTypeParameters(checker, signature.getTypeParameters(), enclosing);
+    const parameters: Parameter[] = signature.getParameters().map(parameter => {
+      const declaration = parameter.valueDeclaration;
+      const isRest = !!declaration && ts.isParameter(declaration) && !!declaration.dotDotDotToken;
+      return {
+        name: `${isRest ? '...' : ''}${parameter.getName()}`,
+        type: checker.typeToString(checker.getTypeOfSymbolAtLocation(parameter, declaration || enclosing), enclosing, TYPE_FORMAT_FLAGS),
+        optional: !!declaration && ts.isParameter(declaration) && checker.isOptionalParameter(declaration),
+        description: ts.displayPartsToString(parameter.getDocumentationComment(checker)) || undefined,
+      };
+    });
+    const returnType = checker.typeToString(signature.getReturnType(), enclosing, TYPE_FORMAT_FLAGS);
+
+    return {
+      signature: `${name}${checker.signatureToString(signature, enclosing, TYPE_FORMAT_FLAGS)}`,
+      description: ts.displayPartsToString(signature.getDocumentationComment(checker)) || undefined,
+      typeParameters,
+      parameters,
+      returnType,
+    };
+  }
+
+  private static renderTypeParameters(
+    checker: ts.TypeChecker,
+    typeParameters: readonly ts.TypeParameter[] | undefined,
+    enclosing: ts.Node
+  ): string[] | undefined {
+    return typeParameters?.length ? typeParameters.map(parameter => this.renderTypeParameter(checker, parameter, enclosing)) : undefined;
+  }
+
+  /**
+   * "T extends object = {}"
+   */
+  private static renderTypeParameter(checker: ts.TypeChecker, parameter: ts.TypeParameter, enclosing: ts.Node): string {
+    // The declared constraint ("keyof T") rather than what it resolves to ("string | number | symbol")
+    const constraintNode = parameter.symbol?.declarations?.find(ts.isTypeParameterDeclaration)?.constraint;
+    const constraint = constraintNode ? checker.getTypeFromTypeNode(constraintNode) : parameter.getConstraint();
+    const defaultType = parameter.getDefault();
+    return [
+      checker.typeToString(parameter, enclosing, TYPE_FORMAT_FLAGS),
+      constraint ? ` extends ${checker.typeToString(constraint, enclosing, TYPE_FORMAT_FLAGS)}` : '',
+      defaultType ? ` = ${checker.typeToString(defaultType, enclosing, TYPE_FORMAT_FLAGS)}` : '',
+    ].join('');
+  }
+}
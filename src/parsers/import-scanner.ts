@@ -0,0 +1,247 @@
+/**
+ * Import statements of Python, Go, Rust and Java sources. Comments and string literals are
+ * blanked out first (keeping offsets), so only real statements are found, including ones that
+ * span several lines; each statement is normalized to the single-line form the language's
+ * validateImport understands.
+ */
+
+export type ScannedLanguage = 'python' | 'go' | 'rust' | 'java';
+
+export interface ScannedImport {
+  statement: string; // Normalized, e.g. `from os import path, sep` for a parenthesized multi-line import
+  text: string; // As written in the source
+  module: string; // Module, package or path the statement imports from
+  local: boolean; // Refers to the project's own code (Python relative imports, Rust crate/self/super paths)
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export class ImportScanner {
+  static scan(code: string, language: ScannedLanguage): ScannedImport[] {
+    const masked = this.maskCommentsAndStrings(code, language);
+    const imports = language === 'python' ? this.scanPython(code, masked)
+      : language === 'go' ? this.scanGo(code, masked)
+      : language === 'rust' ? this.scanRust(code, masked)
+      : this.scanJava(code, masked);
+    return imports.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  /**
+   * `import a.b as c, d` (one import per module) and `from x import (a, b)`
+   */
+  private static scanPython(code: string, masked: string): ScannedImport[] {
+    const imports: ScannedImport[] = [];
+    let previousEnd = 0;
+    for (const match of masked.matchAll(/(?<=^|[\n;:])[ \t]*(import|from)\b/g)) {
+      const start = match.index! + match[0].length - match[1]!.length;
+      if (start < previousEnd) {
+        continue; // `import` of a `from ... \` statement continued on the next line
+      }
+      const end = this.findPythonStatementEnd(masked, start);
+      previousEnd = end;
+      const text = code.slice(start, end).trim();
+      const body = this.collapse(masked.slice(start, end).replace(/\\\n/g, ' ').replace(/[()]/g, ' '));
+
+      if (match[1] === 'from') {
+        const from = body.match(/^from\s+(\.*[\w.]*)\s+import\s+(.+)$/);
+        if (from) {
+          const names = from[2]!.split(',').map(name => name.trim()).filter(Boolean).join(', ');
+          imports.push(this.located(code, start, {
+            statement: `from ${from[1]} import ${names}`,
+            text,
+            module: from[1]!,
+            local: from[1]!.startsWith('.'),
+          }));
+        }
+        continue;
+      }
+
+      for (const entry of body.replace(/^import\s+/, '').split(',')) {
+        const module = entry.trim().split(/\s+as\s+/)[0]!.trim();
+        if (/^[\w.]+$/.test(module)) {
+          imports.push(this.located(code, start, { statement: `import ${module}`, text, module, local: false }));
+        }
+      }
+    }
+    return imports;
+  }
+
+  /**
+   * End of a logical line: a newline or `;` outside brackets and not after a line continuation
+   */
+  private static findPythonStatementEnd(masked: string, start: number): number {
+    let depth = 0;
+    for (let index = start; index < masked.length; index++) {
+      const char = masked[index];
+      if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth = Math.max(0, depth - 1);
+      } else if (depth === 0 && (char === ';' || (char === '\n' && masked[index - 1] !== '\\'))) {
+        return index;
+      }
+    }
+    return masked.length;
+  }
+
+  /**
+   * `import "fmt"`, `import alias "path"` and `import ( ... )` blocks (one import per path)
+   */
+  private static scanGo(code: string, masked: string): ScannedImport[] {
+    const imports: ScannedImport[] = [];
+    for (const match of masked.matchAll(/(?<=^|[\n;])[ \t]*import\b/g)) {
+      const start = match.index! + match[0].length - 'import'.length;
+      let index = start + 'import'.length;
+      while (/\s/.test(masked[index] ?? '')) {
+        index++;
+      }
+
+      const block = masked[index] === '(';
+      const end = block ? masked.indexOf(')', index) : this.findLineEnd(masked, index);
+      const specs = masked.slice(block ? index + 1 : index, end === -1 ? masked.length : end);
+      const offset = block ? index + 1 : index;
+
+      for (const spec of specs.matchAll(/(?:([\w.]+)[ \t]+)?(["`])(\s*)\2/g)) {
+        const quote = offset + spec.index! + (spec[1] ? spec[0].indexOf(spec[2]!) : 0);
+        const path = code.slice(quote + 1, quote + 1 + spec[3]!.length);
+        const alias = spec[1] ? `${spec[1]} ` : '';
+        const specStart = offset + spec.index!;
+        imports.push(this.located(code, block ? specStart : start, {
+          statement: `import ${alias}"${path}"`,
+          text: block ? code.slice(specStart, quote + path.length + 2) : code.slice(start, quote + path.length + 2),
+          module: path,
+          local: false,
+        }));
+      }
+    }
+    return imports;
+  }
+
+  /**
+   * `use a::b::{c, d};` (with any visibility) and `extern crate x;`
+   */
+  private static scanRust(code: string, masked: string): ScannedImport[] {
+    const imports: ScannedImport[] = [];
+    for (const match of masked.matchAll(/(?<=^|[\n;{}\]])[ \t]*((?:pub(?:\s*\([^)]*\))?\s+)?(?:use|extern\s+crate)\b)/g)) {
+      const start = match.index! + match[0].length - match[1]!.length;
+      const end = masked.indexOf(';', start);
+      const statementEnd = end === -1 ? masked.length : end + 1;
+      const statement = this.collapse(masked.slice(start, statementEnd)).replace(/^pub(?:\s*\([^)]*\))?\s+/, '');
+      const path = statement.replace(/^(?:use|extern\s+crate)\s+/, '').replace(/^::/, '');
+      const root = path.split(/::|[\s;{]/)[0] ?? '';
+
+      imports.push(this.located(code, start, {
+        statement: statement.replace(/^use\s+::/, 'use '),
+        text: code.slice(start, statementEnd),
+        module: root,
+        local: ['crate', 'self', 'super'].includes(root),
+      }));
+    }
+    return imports;
+  }
+
+  /**
+   * `import a.b.C;`, `import a.b.*;` and `import static a.b.C.member;`
+   */
+  private static scanJava(code: string, masked: string): ScannedImport[] {
+    const imports: ScannedImport[] = [];
+    for (const match of masked.matchAll(/(?<=^|[\n;])[ \t]*import\b/g)) {
+      const start = match.index! + match[0].length - 'import'.length;
+      const end = masked.indexOf(';', start);
+      const statementEnd = end === -1 ? masked.length : end + 1;
+      const statement = this.collapse(masked.slice(start, statementEnd)).replace(/\s*\.\s*/g, '.');
+      const name = statement.match(/^import\s+(?:static\s+)?([\w.*]+)/)?.[1];
+      if (name) {
+        imports.push(this.located(code, start, { statement, text: code.slice(start, statementEnd), module: name, local: false }));
+      }
+    }
+    return imports;
+  }
+
+  private static located(code: string, offset: number, scanned: Omit<ScannedImport, 'line' | 'column'>): ScannedImport {
+    const before = code.slice(0, offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return { ...scanned, line: before.split('\n').length, column: offset - lineStart + 1 };
+  }
+
+  private static findLineEnd(text: string, from: number): number {
+    const end = text.indexOf('\n', from);
+    return end === -1 ? text.length : end;
+  }
+
+  private static collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Replace comment text and string contents with spaces, keeping quotes, newlines and every offset
+   */
+  private static maskCommentsAndStrings(code: string, language: ScannedLanguage): string {
+    const chars = code.split('');
+    const blank = (from: number, to: number) => {
+      for (let index = from; index < to && index < chars.length; index++) {
+        if (chars[index] !== '\n') {
+          chars[index] = ' ';
+        }
+      }
+    };
+
+    let index = 0;
+    while (index < code.length) {
+      const char = code[index]!;
+      const next = code[index + 1];
+
+      // Comments
+      if ((language === 'python' && char === '#') || (language !== 'python' && char === '/' && next === '/')) {
+        const end = this.findLineEnd(code, index);
+        blank(index, end);
+        index = end;
+        continue;
+      }
+      if (language !== 'python' && char === '/' && next === '*') {
+        const close = code.indexOf('*/', index + 2);
+        const end = close === -1 ? code.length : close + 2;
+        blank(index, end);
+        index = end;
+        continue;
+      }
+
+      // Strings: the delimiters stay, the contents go
+      const rawRust = language === 'rust' && char === 'r' && /^r#*"/.test(code.slice(index, index + 260)) && !/\w/.test(code[index - 1] ?? '');
+      if (rawRust) {
+        const hashes = code.slice(index + 1).match(/^#*/)![0];
+        const open = index + 1 + hashes.length;
+        const close = code.indexOf(`"${hashes}`, open + 1);
+        const end = close === -1 ? code.length : close;
+        blank(open + 1, end);
+        index = end + 1 + hashes.length;
+        continue;
+      }
+
+      const triple = (language === 'python' || language === 'java') && (char === '"' || char === "'") && code.startsWith(char.repeat(3), index);
+      if (triple) {
+        const close = code.indexOf(char.repeat(3), index + 3);
+        const end = close === -1 ? code.length : close;
+        blank(index + 3, end);
+        index = end + 3;
+        continue;
+      }
+
+      // Rust lifetimes ('a) look like unterminated character literals, so Rust only has double-quoted strings
+      const quotes = language === 'rust' ? ['"'] : language === 'go' ? ['"', "'", '`'] : ['"', "'"];
+      if (quotes.includes(char)) {
+        let end = index + 1;
+        while (end < code.length && code[end] !== char && (char === '`' || code[end] !== '\n')) {
+          end += code[end] === '\\' && char !== '`' ? 2 : 1;
+        }
+        blank(index + 1, end);
+        index = end + 1;
+        continue;
+      }
+
+      index++;
+    }
+
+    return chars.join('');
+  }
+}
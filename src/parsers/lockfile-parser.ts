@@ -0,0 +1,452 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, dirname, resolve } from 'path';
+
+export type LockfileFormat = 'npm' | 'yarn-classic' | 'yarn-berry' | 'pnpm';
+
+/**
+ * One resolved package in a lockfile
+ */
+export interface LockedPackage {
+  id: string; // Unique within the lockfile
+  name: string;
+  version: string; // Exact locked version
+  dependencies: Map<string, string>; // dependency name -> id of the locked package it resolves to
+}
+
+export interface Lockfile {
+  path: string;
+  format: LockfileFormat;
+  packages: Map<string, LockedPackage>;
+  importers: Map<string, Map<string, string>>; // project path relative to the lockfile ('.', 'packages/ui') -> direct dependencies
+  descriptors: Map<string, string>; // yarn "name@range" descriptors -> id
+}
+
+/**
+ * A package reachable from a project, with the shortest chain of dependencies leading to it
+ */
+export interface LockedDependency {
+  name: string;
+  version: string;
+  direct: boolean;
+  dependencyPath: string[]; // Direct dependency first, this package last
+}
+
+const LOCKFILE_NAMES = ['npm-shrinkwrap.json', 'package-lock.json', 'pnpm-lock.yaml', 'yarn.lock'];
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+export class LockfileParser {
+  /**
+   * Find the nearest lockfile at or above a project directory (workspace members share the root lockfile)
+   */
+  static find(startDir: string): string | null {
+    let currentDir = resolve(startDir);
+
+    while (true) {
+      for (const fileName of LOCKFILE_NAMES) {
+        if (existsSync(join(currentDir, fileName))) {
+          return join(currentDir, fileName);
+        }
+      }
+
+      const parentDir = dirname(currentDir);
+      if (parentDir === currentDir) {
+        return null;
+      }
+      currentDir = parentDir;
+    }
+  }
+
+  /**
+   * Parse package-lock.json/npm-shrinkwrap.json (v1-v3), yarn.lock (classic and berry) or pnpm-lock.yaml (v5-v9)
+   */
+  static parseFile(lockfilePath: string): Lockfile {
+    const content = readFileSync(lockfilePath, 'utf-8');
+
+    if (lockfilePath.endsWith('.json')) {
+      return this.parseNpmLockfile(lockfilePath, JSON.parse(content));
+    }
+    if (lockfilePath.endsWith('pnpm-lock.yaml')) {
+      return this.parsePnpmLockfile(lockfilePath, parseYaml(content));
+    }
+    return content.includes('__metadata:')
+      ? this.parseYarnBerryLockfile(lockfilePath, parseYaml(content))
+      : this.parseYarnClassicLockfile(lockfilePath, content);
+  }
+
+  /**
+   * Every locked package reachable from a project, breadth first so each gets its shortest dependency path.
+   * `packageJson` supplies direct dependencies when the lockfile does not record them (yarn classic).
+   */
+  static listDependencies(lockfile: Lockfile, importerPath: string, packageJson: any): LockedDependency[] {
+    const roots = lockfile.importers.get(importerPath) || this.resolveDescriptors(lockfile, packageJson);
+    const results: LockedDependency[] = [];
+    const visited = new Set<string>();
+    const queue = [...roots].map(([name, id]) => ({ name, id, path: [name] }));
+
+    while (queue.length > 0) {
+      const { name, id, path } = queue.shift()!;
+      if (visited.has(id)) {
+        continue;
+      }
+      visited.add(id);
+
+      const locked = lockfile.packages.get(id);
+      results.push({ name, version: locked?.version || id, direct: path.length === 1, dependencyPath: path });
+
+      for (const [dependencyName, dependencyId] of locked?.dependencies || []) {
+        queue.push({ name: dependencyName, id: dependencyId, path: [...path, dependencyName] });
+      }
+    }
+
+    return results;
+  }
+
+  private static resolveDescriptors(lockfile: Lockfile, packageJson: any): Map<string, string> {
+    const roots = new Map<string, string>();
+    for (const [name, range] of Object.entries(collectDependencies(packageJson))) {
+      // npm v1 lockfiles have no root entry; direct dependencies sit at the top of node_modules
+      const id = lookupDescriptor(lockfile.descriptors, name, String(range)) ??
+        (lockfile.packages.has(`node_modules/${name}`) ? `node_modules/${name}` : undefined);
+      if (id) {
+        roots.set(name, id);
+      }
+    }
+    return roots;
+  }
+
+  /**
+   * v2/v3 list every install location under "packages"; v1 nests "dependencies" trees, which are
+   * flattened into the same location keys. Dependencies resolve like Node: nearest node_modules first.
+   */
+  private static parseNpmLockfile(lockfilePath: string, lock: any): Lockfile {
+    const entries = new Map<string, any>(Object.entries(lock.packages || {}));
+    if (entries.size === 0) {
+      entries.set('', { dependencies: {} });
+      flattenNpmV1Tree(lock.dependencies || {}, '', entries);
+    }
+
+    const packages = new Map<string, LockedPackage>();
+    const importers = new Map<string, Map<string, string>>();
+
+    const locate = (fromKey: string, name: string): string | null => {
+      let base = fromKey;
+      while (true) {
+        const candidate = base ? `${base}/node_modules/${name}` : `node_modules/${name}`;
+        const entry = entries.get(candidate);
+        if (entry) {
+          return entry.link && typeof entry.resolved === 'string' ? entry.resolved : candidate;
+        }
+        if (!base) {
+          return null;
+        }
+        const index = base.lastIndexOf('/node_modules/');
+        base = index === -1 ? '' : base.slice(0, index);
+      }
+    };
+
+    for (const [key, entry] of entries) {
+      if (entry.link) {
+        continue;
+      }
+
+      const dependencies = new Map<string, string>();
+      for (const name of Object.keys(collectDependencies(entry))) {
+        const id = locate(key, name);
+        if (id) {
+          dependencies.set(name, id);
+        }
+      }
+
+      if (!key.startsWith('node_modules/') && !key.includes('/node_modules/')) {
+        importers.set(key || '.', dependencies);
+      }
+      packages.set(key, {
+        id: key,
+        name: entry.name || (key.includes('node_modules/') ? key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length) : key),
+        version: entry.version || '',
+        dependencies,
+      });
+    }
+
+    // v1 lockfiles do not record the root's declared dependencies
+    if (!lock.packages) {
+      importers.delete('.');
+    }
+
+    return { path: lockfilePath, format: 'npm', packages, importers, descriptors: new Map() };
+  }
+
+  private static parseYarnClassicLockfile(lockfilePath: string, content: string): Lockfile {
+    const packages = new Map<string, LockedPackage>();
+    const descriptors = new Map<string, string>();
+    const ranges = new Map<string, Record<string, string>>();
+
+    let current: { id: string; descriptors: string[]; version: string; dependencies: Record<string, string> } | null = null;
+    let section = '';
+
+    const flush = () => {
+      if (!current) {
+        return;
+      }
+      const name = descriptorName(current.descriptors[0] || '');
+      current.id = `${name}@${current.version}`;
+      for (const descriptor of current.descriptors) {
+        descriptors.set(descriptor, current.id);
+      }
+      const existing = ranges.get(current.id) || {};
+      ranges.set(current.id, { ...existing, ...current.dependencies });
+      packages.set(current.id, { id: current.id, name, version: current.version, dependencies: new Map() });
+    };
+
+    for (const line of content.split('\n')) {
+      if (!line.trim() || line.startsWith('#')) {
+        continue;
+      }
+
+      const indent = line.length - line.trimStart().length;
+      const text = line.trim();
+
+      if (indent === 0) {
+        flush();
+        current = { id: '', descriptors: text.replace(/:$/, '').split(/,\s*/).map(unquote), version: '', dependencies: {} };
+        section = '';
+      } else if (current && indent === 2) {
+        const [key, ...rest] = text.split(/\s+/);
+        section = text.endsWith(':') ? text.slice(0, -1) : '';
+        if (key === 'version') {
+          current.version = unquote(rest.join(' '));
+        }
+      } else if (current && indent >= 4 && (section === 'dependencies' || section === 'optionalDependencies')) {
+        const match = text.match(/^("[^"]+"|\S+)\s+(.+)$/);
+        if (match && match[1] && match[2]) {
+          current.dependencies[unquote(match[1])] = unquote(match[2]);
+        }
+      }
+    }
+    flush();
+
+    linkDescriptorDependencies(packages, descriptors, ranges);
+    return { path: lockfilePath, format: 'yarn-classic', packages, importers: new Map(), descriptors };
+  }
+
+  private static parseYarnBerryLockfile(lockfilePath: string, lock: Record<string, any>): Lockfile {
+    const packages = new Map<string, LockedPackage>();
+    const descriptors = new Map<string, string>();
+    const ranges = new Map<string, Record<string, string>>();
+    const workspaces = new Map<string, string>();
+
+    for (const [key, entry] of Object.entries(lock)) {
+      if (key === '__metadata' || !entry || typeof entry !== 'object') {
+        continue;
+      }
+
+      const id = typeof entry.resolution === 'string' ? entry.resolution : key.split(/,\s*/)[0]!;
+      const name = descriptorName(id);
+      for (const descriptor of key.split(/,\s*/)) {
+        descriptors.set(descriptor, id);
+      }
+      ranges.set(id, { ...entry.dependencies, ...entry.optionalDependencies });
+      packages.set(id, { id, name, version: String(entry.version ?? ''), dependencies: new Map() });
+
+      const workspace = id.match(/@workspace:(.+)$/);
+      if (workspace && workspace[1]) {
+        workspaces.set(workspace[1], id);
+      }
+    }
+
+    linkDescriptorDependencies(packages, descriptors, ranges);
+
+    const importers = new Map<string, Map<string, string>>();
+    for (const [workspacePath, id] of workspaces) {
+      importers.set(workspacePath, packages.get(id)?.dependencies || new Map());
+    }
+
+    return { path: lockfilePath, format: 'yarn-berry', packages, importers, descriptors };
+  }
+
+  /**
+   * v5 keys look like "/name/1.0.0_peer@2.0.0", v6 like "/name@1.0.0(peer@2.0.0)", and v9 drops the
+   * leading slash and moves dependency edges from "packages" to "snapshots"
+   */
+  private static parsePnpmLockfile(lockfilePath: string, lock: Record<string, any>): Lockfile {
+    const packages = new Map<string, LockedPackage>();
+
+    for (const section of [lock.packages, lock.snapshots]) {
+      for (const [key, entry] of Object.entries<any>(section || {})) {
+        const { name, version } = parsePnpmPackageKey(key);
+        const id = `${name}@${version}`;
+        const existing = packages.get(id) || { id, name, version: stripPeerSuffix(version), dependencies: new Map() };
+
+        for (const [dependencyName, reference] of Object.entries(collectDependencies(entry))) {
+          existing.dependencies.set(dependencyName, pnpmReferenceToId(dependencyName, reference));
+        }
+        packages.set(id, existing);
+      }
+    }
+
+    const importers = new Map<string, Map<string, string>>();
+    const importerEntries: Record<string, any> = lock.importers || { '.': lock };
+
+    for (const [importerPath, importer] of Object.entries(importerEntries)) {
+      const dependencies = new Map<string, string>();
+      for (const [name, reference] of Object.entries<any>(collectDependencies(importer))) {
+        // v6+ records { specifier, version }; v5 records the version directly
+        const version = typeof reference === 'object' && reference !== null ? reference.version : reference;
+        const id = pnpmReferenceToId(name, String(version));
+        dependencies.set(name, id);
+        if (!packages.has(id)) {
+          packages.set(id, { id, name, version: String(version), dependencies: new Map() });
+        }
+      }
+      importers.set(importerPath, dependencies);
+    }
+
+    return { path: lockfilePath, format: 'pnpm', packages, importers, descriptors: new Map() };
+  }
+}
+
+function collectDependencies(manifest: any): Record<string, any> {
+  const dependencies: Record<string, any> = {};
+  for (const field of DEPENDENCY_FIELDS) {
+    if (manifest && typeof manifest[field] === 'object') {
+      Object.assign(dependencies, manifest[field]);
+    }
+  }
+  return dependencies;
+}
+
+function flattenNpmV1Tree(tree: Record<string, any>, parentKey: string, entries: Map<string, any>): void {
+  for (const [name, entry] of Object.entries(tree)) {
+    const key = parentKey ? `${parentKey}/node_modules/${name}` : `node_modules/${name}`;
+    entries.set(key, { version: entry.version, dependencies: entry.requires || {} });
+    flattenNpmV1Tree(entry.dependencies || {}, key, entries);
+  }
+}
+
+function linkDescriptorDependencies(
+  packages: Map<string, LockedPackage>,
+  descriptors: Map<string, string>,
+  ranges: Map<string, Record<string, string>>
+): void {
+  for (const [id, dependencies] of ranges) {
+    const locked = packages.get(id);
+    for (const [name, range] of Object.entries(dependencies || {})) {
+      const dependencyId = lookupDescriptor(descriptors, name, String(range));
+      if (locked && dependencyId) {
+        locked.dependencies.set(name, dependencyId);
+      }
+    }
+  }
+}
+
+/**
+ * Berry descriptors carry a protocol ("lodash@npm:^4.17.21") that package.json ranges omit
+ */
+function lookupDescriptor(descriptors: Map<string, string>, name: string, range: string): string | undefined {
+  return descriptors.get(`${name}@${range}`) ?? descriptors.get(`${name}@npm:${range}`);
+}
+
+/**
+ * "@scope/name@^1.0.0" -> "@scope/name"
+ */
+function descriptorName(descriptor: string): string {
+  const separator = descriptor.indexOf('@', 1);
+  return separator === -1 ? descriptor : descriptor.slice(0, separator);
+}
+
+function parsePnpmPackageKey(key: string): { name: string; version: string } {
+  const normalized = key.replace(/^\//, '');
+  const peerStart = normalized.search(/[(]/);
+  const base = peerStart === -1 ? normalized : normalized.slice(0, peerStart);
+
+  const at = base.indexOf('@', 1);
+  if (at !== -1) {
+    return { name: base.slice(0, at), version: normalized.slice(at + 1) };
+  }
+
+  // v5: "name/1.0.0" or "@scope/name/1.0.0"
+  const slash = normalized.lastIndexOf('/');
+  return { name: normalized.slice(0, slash), version: normalized.slice(slash + 1) };
+}
+
+function pnpmReferenceToId(name: string, reference: string): string {
+  if (reference.startsWith('/') || /^(@[^/]+\/)?[a-z][^@/(]*@\d/i.test(reference)) {
+    const parsed = parsePnpmPackageKey(reference); // aliased: "/real-name@1.0.0" or "real-name@1.0.0"
+    return `${parsed.name}@${parsed.version}`;
+  }
+  return `${name}@${reference}`;
+}
+
+function stripPeerSuffix(version: string): string {
+  return version.replace(/[(_].*$/, '');
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^"(.*)"$/, '$1').replace(/^'(.*)'$/, '$1');
+}
+
+/**
+ * Just enough YAML for lockfiles: block mappings and sequences, plain and quoted scalars.
+ * Flow collections ("{integrity: ...}", "[x64]") are kept as raw strings.
+ */
+function parseYaml(content: string): Record<string, any> {
+  const lines = content
+    .split('\n')
+    .filter(line => line.trim() && !line.trimStart().startsWith('#'))
+    .map(line => ({ indent: line.length - line.trimStart().length, text: line.trim() }));
+
+  const [value] = parseYamlBlock(lines, 0, 0);
+  return value && typeof value === 'object' ? value : {};
+}
+
+function parseYamlBlock(lines: Array<{ indent: number; text: string }>, start: number, indent: number): [any, number] {
+  const isSequence = lines[start]?.text.startsWith('- ') ?? false;
+  const result: any = isSequence ? [] : {};
+  let index = start;
+
+  while (index < lines.length) {
+    const line = lines[index]!;
+    if (line.indent < indent) {
+      break;
+    }
+
+    if (isSequence) {
+      result.push(parseYamlScalar(line.text.slice(2)));
+      index++;
+      continue;
+    }
+
+    const match = line.text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|.+?):(?:\s+(.*))?$/);
+    if (!match || !match[1]) {
+      index++;
+      continue;
+    }
+
+    const key = unquote(match[1]);
+    const rawValue = match[2];
+    index++;
+
+    if (rawValue !== undefined && rawValue !== '') {
+      result[key] = parseYamlScalar(rawValue);
+    } else if (index < lines.length && lines[index]!.indent > line.indent) {
+      const [child, next] = parseYamlBlock(lines, index, lines[index]!.indent);
+      result[key] = child;
+      index = next;
+    } else {
+      result[key] = null;
+    }
+  }
+
+  return [result, index];
+}
+
+function parseYamlScalar(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('"') && value.endsWith('"')) {
+    return JSON.parse(value);
+  }
+  return value;
+}
@@ -0,0 +1,618 @@
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+
+/**
+ * A PEP 508 requirement: `requests[socks]>=2.31; python_version >= "3.8"`
+ */
+export interface PythonRequirement {
+  name: string;
+  extras: string[];
+  specifier: string; // Version specifier or `@ url`, '' when unpinned
+  marker?: string | undefined;
+}
+
+/**
+ * A dependency the project declares, and where
+ */
+export interface PythonDependency extends PythonRequirement {
+  group: string | null; // null for runtime dependencies, otherwise the extra, dependency group or requirements file suffix
+  source: string; // Manifest file it is declared in
+}
+
+/**
+ * PEP 508 marker variables (`sys_platform`, `python_version`, ...); missing ones are unknown
+ */
+export type PythonMarkerEnvironment = Partial<Record<string, string>>;
+
+export interface PythonManifest {
+  projectRoot: string;
+  projectName: string | null;
+  files: string[]; // Manifests that were read, lockfiles included
+  dependencies: PythonDependency[];
+  locked: Map<string, string>; // PEP 503 normalized name -> version pinned by uv.lock or poetry.lock
+}
+
+const REQUIREMENTS_FILE = /^requirements.*\.txt$/;
+const MARKER_TOKEN = /\s*("[^"]*"|'[^']*'|\(|\)|===|==|!=|<=|>=|~=|<|>|not\s+in\b|in\b|and\b|or\b|[A-Za-z_.]+)/y;
+const REQUIREMENT = /^([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)\s*(?:\[([^\]]*)\])?\s*(.*)$/;
+
+export class PythonManifestParser {
+  /**
+   * Declared dependencies of the project at projectRoot, from pyproject.toml (PEP 621, PEP 735
+   * dependency groups, Poetry and PDM), setup.cfg and requirements*.txt, plus uv.lock or poetry.lock
+   */
+  static readProject(projectRoot: string): PythonManifest {
+    const manifest: PythonManifest = { projectRoot, projectName: null, files: [], dependencies: [], locked: new Map() };
+
+    const pyprojectPath = join(projectRoot, 'pyproject.toml');
+    const pyproject = this.readToml(pyprojectPath);
+    if (pyproject) {
+      manifest.files.push(pyprojectPath);
+      manifest.projectName = pyproject.project?.name ?? pyproject.tool?.poetry?.name ?? null;
+      manifest.dependencies.push(...this.parsePyproject(pyproject, pyprojectPath));
+    }
+
+    const setupCfgPath = join(projectRoot, 'setup.cfg');
+    if (existsSync(setupCfgPath)) {
+      const setupCfg = this.parseSetupCfg(readFileSync(setupCfgPath, 'utf-8'), setupCfgPath);
+      if (setupCfg.dependencies.length > 0 || setupCfg.projectName) {
+        manifest.files.push(setupCfgPath);
+        manifest.projectName ??= setupCfg.projectName;
+        manifest.dependencies.push(...setupCfg.dependencies);
+      }
+    }
+
+    const requirementsFiles = [
+      ...this.listFiles(projectRoot).filter(file => REQUIREMENTS_FILE.test(file)).map(file => join(projectRoot, file)),
+      ...this.listFiles(join(projectRoot, 'requirements')).filter(file => file.endsWith('.txt')).map(file => join(projectRoot, 'requirements', file)),
+    ];
+    const seen = new Set<string>();
+    for (const file of requirementsFiles) {
+      const dependencies = this.parseRequirementsFile(file, seen);
+      manifest.dependencies.push(...dependencies);
+    }
+    manifest.files.push(...seen);
+
+    for (const lockfile of ['uv.lock', 'poetry.lock']) {
+      const lock = this.readToml(join(projectRoot, lockfile));
+      if (lock) {
+        manifest.files.push(join(projectRoot, lockfile));
+        for (const pkg of Array.isArray(lock.package) ? lock.package : []) {
+          if (typeof pkg?.name === 'string' && typeof pkg.version === 'string') {
+            manifest.locked.set(this.normalizeName(pkg.name), pkg.version);
+          }
+        }
+      }
+    }
+
+    return manifest;
+  }
+
+  /**
+   * The first declaration of a distribution, runtime dependencies before groups
+   */
+  static findDependency(manifest: PythonManifest, distributionName: string): PythonDependency | null {
+    const key = this.normalizeName(distributionName);
+    const matches = manifest.dependencies.filter(dependency => this.normalizeName(dependency.name) === key);
+    return matches.find(dependency => dependency.group === null) ?? matches[0] ?? null;
+  }
+
+  static parsePyproject(pyproject: Record<string, any>, source: string): PythonDependency[] {
+    const dependencies: PythonDependency[] = [];
+    const addRequirements = (requirements: unknown, group: string | null) => {
+      for (const text of Array.isArray(requirements) ? requirements : []) {
+        const requirement = typeof text === 'string' ? this.parseRequirement(text) : null; // {include-group = "..."} tables name no package
+        if (requirement) {
+          dependencies.push({ ...requirement, group, source });
+        }
+      }
+    };
+
+    addRequirements(pyproject.project?.dependencies, null);
+    for (const [group, requirements] of Object.entries(pyproject.project?.['optional-dependencies'] ?? {})) {
+      addRequirements(requirements, group);
+    }
+    for (const [group, requirements] of Object.entries(pyproject['dependency-groups'] ?? {})) {
+      addRequirements(requirements, group);
+    }
+    for (const [group, requirements] of Object.entries(pyproject.tool?.pdm?.['dev-dependencies'] ?? {})) {
+      addRequirements(requirements, group);
+    }
+
+    const poetry = pyproject.tool?.poetry ?? {};
+    const poetryGroups: Array<[string | null, unknown]> = [
+      [null, poetry.dependencies],
+      ['dev', poetry['dev-dependencies']],
+      ...Object.entries(poetry.group ?? {}).map(([group, table]: [string, any]) => [group, table?.dependencies] as [string, unknown]),
+    ];
+    for (const [group, table] of poetryGroups) {
+      for (const [name, constraint] of Object.entries(table && typeof table === 'object' ? table : {})) {
+        if (name.toLowerCase() !== 'python') {
+          dependencies.push({ ...this.parsePoetryConstraint(name, constraint), group, source });
+        }
+      }
+    }
+
+    return dependencies;
+  }
+
+  /**
+   * Requirements from a requirements file and the files it includes with `-r`. Constraint files
+   * (`-c`) pin versions without declaring anything, so they are not read; each file is read once.
+   */
+  static parseRequirementsFile(file: string, seen: Set<string> = new Set()): PythonDependency[] {
+    const path = resolve(file);
+    if (seen.has(path) || !existsSync(path)) {
+      return [];
+    }
+    seen.add(path);
+
+    const group = this.requirementsGroup(path);
+    const dependencies: PythonDependency[] = [];
+    const content = readFileSync(path, 'utf-8').replace(/\\\r?\n/g, ' ');
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+      if (!line) {
+        continue;
+      }
+
+      const include = line.match(/^(?:-r|--requirement)(?:\s+|=)(\S+)/);
+      if (include) {
+        dependencies.push(...this.parseRequirementsFile(resolve(dirname(path), include[1]!), seen));
+        continue;
+      }
+
+      // Editable installs and bare URLs name their distribution with #egg=
+      const egg = line.match(/#egg=([A-Za-z0-9._-]+)/);
+      if (/^(-e|--editable)\s/.test(line) || /^[a-z+]+:\/\//.test(line)) {
+        if (egg) {
+          dependencies.push({ name: egg[1]!, extras: [], specifier: '', group, source: path });
+        }
+        continue;
+      }
+      if (line.startsWith('-')) {
+        continue; // --index-url, -c, --hash and other pip options
+      }
+
+      const requirement = this.parseRequirement(line.replace(/\s--?[a-z][\w-]*(=\S+)?/g, ''));
+      if (requirement) {
+        dependencies.push({ ...requirement, group, source: path });
+      }
+    }
+
+    return dependencies;
+  }
+
+  /**
+   * setup.cfg `[options] install_requires` and `[options.extras_require]`, each a dangling list
+   * (one requirement per line) or a single line separated by semicolons
+   */
+  static parseSetupCfg(content: string, source: string): { projectName: string | null; dependencies: PythonDependency[] } {
+    const sections = new Map<string, Map<string, string>>();
+    let section: Map<string, string> | null = null;
+    let key: string | null = null;
+
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim() || /^\s*[#;]/.test(line)) {
+        continue;
+      }
+      const header = line.match(/^\[([^\]]+)\]/);
+      if (header) {
+        section = new Map();
+        sections.set(header[1]!.trim(), section);
+        key = null;
+      } else if (/^\s/.test(line) && section && key) {
+        section.set(key, `${section.get(key)}\n${line.trim()}`);
+      } else if (section) {
+        const option = line.match(/^([^=:]+?)\s*[=:]\s*(.*)$/);
+        key = option ? option[1]!.trim() : null;
+        if (option) {
+          section.set(key!, option[2]!.trim());
+        }
+      }
+    }
+
+    const dependencies: PythonDependency[] = [];
+    const addRequirements = (value: string | undefined, group: string | null) => {
+      const lines = value?.includes('\n') ? value.split('\n') : (value ?? '').split(';');
+      for (const line of lines) {
+        const requirement = this.parseRequirement(line);
+        if (requirement) {
+          dependencies.push({ ...requirement, group, source });
+        }
+      }
+    };
+
+    addRequirements(sections.get('options')?.get('install_requires'), null);
+    for (const [group, value] of sections.get('options.extras_require') ?? []) {
+      addRequirements(value, group);
+    }
+
+    return { projectName: sections.get('metadata')?.get('name') || null, dependencies };
+  }
+
+  static parseRequirement(text: string): PythonRequirement | null {
+    const match = text.trim().match(REQUIREMENT);
+    if (!match) {
+      return null;
+    }
+
+    const rest = match[3]!.trim();
+    // In `name @ url ; marker` the marker needs whitespace before the semicolon, since URLs can contain one
+    const markerIndex = rest.startsWith('@') ? rest.search(/\s;/) : rest.indexOf(';');
+    const specifier = (markerIndex === -1 ? rest : rest.slice(0, markerIndex)).trim().replace(/^\((.*)\)$/, '$1').trim();
+    const marker = markerIndex === -1 ? undefined : rest.slice(markerIndex).replace(/^\s*;/, '').trim() || undefined;
+    if (specifier && !/^(@|[<>=!~(])/.test(specifier)) {
+      return null; // Not a requirement: `git+https://...`, a path, leftover options
+    }
+
+    return {
+      name: match[1]!,
+      extras: match[2] ? match[2].split(',').map(extra => extra.trim()).filter(Boolean) : [],
+      specifier,
+      marker,
+    };
+  }
+
+  /**
+   * Marker values for the machine this runs on. The Python version is only known when the caller
+   * has it, e.g. from a `lib/python3.11/site-packages` path.
+   */
+  static getMarkerEnvironment(pythonVersion?: string): PythonMarkerEnvironment {
+    const platforms: Record<string, [string, string]> = { linux: ['linux', 'Linux'], darwin: ['darwin', 'Darwin'], win32: ['win32', 'Windows'] };
+    const [sysPlatform, platformSystem] = platforms[process.platform] ?? [process.platform, undefined];
+    return {
+      sys_platform: sysPlatform,
+      platform_system: platformSystem,
+      os_name: process.platform === 'win32' ? 'nt' : 'posix',
+      python_version: pythonVersion,
+      extra: '', // Only what is always installed is of interest
+    };
+  }
+
+  /**
+   * Evaluate a PEP 508 marker such as `sys_platform == "win32" and python_version < "3.11"`.
+   * Comparisons involving unknown variables count as true, so a requirement is only ruled out when
+   * its marker is known not to hold; malformed markers count as true too.
+   */
+  static evaluateMarker(marker: string, environment: PythonMarkerEnvironment): boolean {
+    const tokens: string[] = [];
+    for (let offset = 0; marker.slice(offset).trim() !== '';) {
+      MARKER_TOKEN.lastIndex = offset;
+      const match = MARKER_TOKEN.exec(marker);
+      if (!match) {
+        return true;
+      }
+      tokens.push(match[1]!.replace(/\s+/g, ' '));
+      offset = MARKER_TOKEN.lastIndex;
+    }
+
+    let position = 0;
+    const readValue = (): string | null => {
+      const token = tokens[position++] ?? '';
+      return /^["']/.test(token) ? token.slice(1, -1) : environment[token] ?? null;
+    };
+    const readComparison = (): boolean => {
+      if (tokens[position] === '(') {
+        position++;
+        const result = readOr();
+        position++; // ')'
+        return result;
+      }
+      const left = readValue();
+      const operator = tokens[position++] ?? '';
+      const right = readValue();
+      return left === null || right === null || compareMarkerValues(left, operator, right);
+    };
+    const readAnd = (): boolean => {
+      let result = readComparison();
+      while (tokens[position] === 'and') {
+        position++;
+        result = readComparison() && result;
+      }
+      return result;
+    };
+    const readOr = (): boolean => {
+      let result = readAnd();
+      while (tokens[position] === 'or') {
+        position++;
+        result = readAnd() || result;
+      }
+      return result;
+    };
+
+    const result = readOr();
+    return position === tokens.length ? result : true;
+  }
+
+  /**
+   * PEP 503 normalization, as for distribution names
+   */
+  static normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+  }
+
+  static readToml(path: string): Record<string, any> | null {
+    try {
+      return existsSync(path) ? parseToml(readFileSync(path, 'utf-8')) : null;
+    } catch (error) {
+      console.error(`Could not parse ${path}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Poetry constraints are a version string (`"^2.31"`), a table (`{ version = "^2", extras = ["socks"] }`)
+   * or a list of tables, one per marker
+   */
+  private static parsePoetryConstraint(name: string, constraint: unknown): PythonRequirement {
+    const table: any = Array.isArray(constraint) ? constraint[0] : constraint;
+    if (typeof table === 'string') {
+      return { name, extras: [], specifier: table === '*' ? '' : table };
+    }
+
+    const source = table?.git ?? table?.url ?? table?.path;
+    return {
+      name,
+      extras: Array.isArray(table?.extras) ? table.extras : [],
+      specifier: typeof table?.version === 'string' && table.version !== '*' ? table.version : source ? `@ ${source}` : '',
+      marker: typeof table?.markers === 'string' ? table.markers : undefined,
+    };
+  }
+
+  /**
+   * requirements.txt holds runtime dependencies; requirements-dev.txt or requirements/test.txt a group
+   */
+  private static requirementsGroup(path: string): string | null {
+    const suffix = basename(path).replace(/\.txt$/, '').replace(/^requirements[-_.]?/, '');
+    const inRequirementsDir = basename(dirname(path)) === 'requirements';
+    return suffix === '' || (inRequirementsDir && ['base', 'main', 'prod', 'production'].includes(suffix)) ? null : suffix;
+  }
+
+  private static listFiles(dir: string): string[] {
+    try {
+      return readdirSync(dir).sort();
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * One marker comparison, `python_version >= "3.8"` or `"linux" in sys_platform`, by PEP 440 rules for versions
+ */
+function compareMarkerValues(left: string, operator: string, right: string): boolean {
+  if (operator === 'in' || operator === 'not in') {
+    return right.includes(left) === (operator === 'in');
+  }
+
+  const isVersion = (value: string) => /^\d+(\.\d+)*$/.test(value);
+  if (!isVersion(left) || !isVersion(right) || operator === '===') {
+    return operator === '!=' ? left !== right : operator === '==' || operator === '===' ? left === right : true;
+  }
+
+  const order = compareVersions(left, right);
+  switch (operator) {
+    case '==': return order === 0;
+    case '!=': return order !== 0;
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '~=': {
+      // ~= 3.8 means >= 3.8, == 3.*
+      const prefix = right.split('.').slice(0, -1);
+      return order >= 0 && compareVersions(left.split('.').slice(0, prefix.length).join('.'), prefix.join('.')) === 0;
+    }
+    default: return true;
+  }
+}
+
+function compareVersions(left: string, right: string): number {
+  const a = left.split('.').map(Number);
+  const b = right.split('.').map(Number);
+  for (let index = 0; index < Math.max(a.length, b.length); index++) {
+    const difference = (a[index] ?? 0) - (b[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Just enough TOML for Python manifests and lockfiles: tables, arrays of tables, dotted and quoted
+ * keys, strings of all four kinds, numbers, booleans, arrays and inline tables. Dates are kept as strings.
+ */
+function parseToml(content: string): Record<string, any> {
+  const root: Record<string, any> = {};
+  const state = { text: content, position: 0 };
+  let current = root;
+
+  while (skipTrivia(state, true), state.position < state.text.length) {
+    if (state.text.startsWith('[[', state.position)) {
+      state.position += 2;
+      const keys = readTomlKey(state);
+      expectToml(state, ']]');
+      const parent = getTomlTable(root, keys.slice(0, -1));
+      const last = keys[keys.length - 1]!;
+      const array = Array.isArray(parent[last]) ? parent[last] : (parent[last] = []);
+      current = {};
+      array.push(current);
+    } else if (state.text[state.position] === '[') {
+      state.position++;
+      const keys = readTomlKey(state);
+      expectToml(state, ']');
+      current = getTomlTable(root, keys);
+    } else {
+      const keys = readTomlKey(state);
+      expectToml(state, '=');
+      getTomlTable(current, keys.slice(0, -1))[keys[keys.length - 1]!] = readTomlValue(state);
+    }
+
+    skipTrivia(state, false);
+    if (state.position < state.text.length && !/[\r\n]/.test(state.text[state.position]!)) {
+      throw new Error(`Unexpected content on line ${lineOf(state)}`);
+    }
+  }
+
+  return root;
+}
+
+type TomlState = { text: string; position: number };
+
+function readTomlKey(state: TomlState): string[] {
+  const keys: string[] = [];
+  while (true) {
+    skipTrivia(state, false);
+    const quote = state.text[state.position];
+    if (quote === '"' || quote === "'") {
+      keys.push(readTomlString(state));
+    } else {
+      const bare = state.text.slice(state.position).match(/^[A-Za-z0-9_-]+/);
+      if (!bare) {
+        throw new Error(`Expected a key on line ${lineOf(state)}`);
+      }
+      keys.push(bare[0]);
+      state.position += bare[0].length;
+    }
+    skipTrivia(state, false);
+    if (state.text[state.position] !== '.') {
+      return keys;
+    }
+    state.position++;
+  }
+}
+
+function readTomlValue(state: TomlState): any {
+  skipTrivia(state, false);
+  const char = state.text[state.position];
+
+  if (char === '"' || char === "'") {
+    return readTomlString(state);
+  }
+  if (char === '[') {
+    state.position++;
+    const array: any[] = [];
+    while (skipTrivia(state, true), state.text[state.position] !== ']') {
+      array.push(readTomlValue(state));
+      skipTrivia(state, true);
+      if (state.text[state.position] === ',') {
+        state.position++;
+      } else if (state.text[state.position] !== ']') {
+        throw new Error(`Expected ',' or ']' on line ${lineOf(state)}`);
+      }
+    }
+    state.position++;
+    return array;
+  }
+  if (char === '{') {
+    state.position++;
+    const table: Record<string, any> = {};
+    while (skipTrivia(state, false), state.text[state.position] !== '}') {
+      const keys = readTomlKey(state);
+      expectToml(state, '=');
+      getTomlTable(table, keys.slice(0, -1))[keys[keys.length - 1]!] = readTomlValue(state);
+      skipTrivia(state, false);
+      if (state.text[state.position] === ',') {
+        state.position++;
+      } else if (state.text[state.position] !== '}') {
+        throw new Error(`Expected ',' or '}' on line ${lineOf(state)}`);
+      }
+    }
+    state.position++;
+    return table;
+  }
+
+  const token = state.text.slice(state.position).match(/^[^\s,\]}#]+/)?.[0];
+  if (!token) {
+    throw new Error(`Expected a value on line ${lineOf(state)}`);
+  }
+  state.position += token.length;
+  if (token === 'true' || token === 'false') {
+    return token === 'true';
+  }
+  const number = token.replace(/_/g, '');
+  return /^[+-]?(\d+(\.\d+)?([eE][+-]?\d+)?|0x[0-9a-fA-F]+|0o[0-7]+|0b[01]+)$/.test(number) ? Number(number.replace(/^\+/, '')) : token;
+}
+
+function readTomlString(state: TomlState): string {
+  const { text } = state;
+  const quote = text[state.position]!;
+  const multiline = text.startsWith(quote.repeat(3), state.position);
+  const delimiter = multiline ? quote.repeat(3) : quote;
+  state.position += delimiter.length;
+  if (multiline && text[state.position] === '\n') {
+    state.position++; // A newline right after the opening delimiter is trimmed
+  } else if (multiline && text.startsWith('\r\n', state.position)) {
+    state.position += 2;
+  }
+
+  let value = '';
+  while (!text.startsWith(delimiter, state.position) || (multiline && text.startsWith(delimiter + quote, state.position))) {
+    const char = text[state.position];
+    if (char === undefined || (!multiline && char === '\n')) {
+      throw new Error(`Unterminated string on line ${lineOf(state)}`);
+    }
+    if (char === '\\' && quote === '"') {
+      const escape = text[state.position + 1]!;
+      if (multiline && /[\s]/.test(escape)) {
+        state.position = text.slice(state.position + 1).search(/\S/) + state.position + 1; // Line-ending backslash
+        continue;
+      }
+      const simple: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\' };
+      if (escape in simple) {
+        value += simple[escape];
+        state.position += 2;
+      } else if (escape === 'u' || escape === 'U') {
+        const length = escape === 'u' ? 4 : 8;
+        value += String.fromCodePoint(parseInt(text.slice(state.position + 2, state.position + 2 + length), 16));
+        state.position += 2 + length;
+      } else {
+        throw new Error(`Invalid escape on line ${lineOf(state)}`);
+      }
+      continue;
+    }
+    value += char;
+    state.position++;
+  }
+
+  state.position += delimiter.length;
+  return value;
+}
+
+function getTomlTable(root: Record<string, any>, keys: string[]): Record<string, any> {
+  let table = root;
+  for (const key of keys) {
+    let next = table[key];
+    if (Array.isArray(next)) {
+      next = next[next.length - 1]; // [[package]] followed by [package.metadata] extends the last entry
+    }
+    if (!next || typeof next !== 'object') {
+      next = table[key] = {};
+    }
+    table = next;
+  }
+  return table;
+}
+
+function expectToml(state: TomlState, token: string): void {
+  skipTrivia(state, false);
+  if (!state.text.startsWith(token, state.position)) {
+    throw new Error(`Expected '${token}' on line ${lineOf(state)}`);
+  }
+  state.position += token.length;
+}
+
+function skipTrivia(state: TomlState, newlines: boolean): void {
+  const pattern = newlines ? /^(?:[ \t\r\n]+|#[^\n]*)+/ : /^(?:[ \t]+|#[^\n]*)+/;
+  const match = state.text.slice(state.position).match(pattern);
+  if (match) {
+    state.position += match[0].length;
+  }
+}
+
+function lineOf(state: TomlState): number {
+  return state.text.slice(0, state.position).split('\n').length;
+}
@@ -0,0 +1,226 @@
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { PythonManifestParser } from './python-manifest.js';
+
+/**
+ * An installed Python distribution (what `pip install` takes) and the top-level packages it
+ * provides (what `import` takes): `Pillow` provides `PIL`, `scikit-learn` provides `sklearn`.
+ */
+export interface PythonDistribution {
+  name: string;
+  version: string;
+  summary?: string | undefined;
+  importNames: string[];
+  requires: string[]; // Distributions it always depends on here (Requires-Dist whose marker holds, no extras)
+  metadataPath: string; // The *.dist-info or *.egg-info directory
+  sitePackages: string;
+}
+
+export interface PythonDistributionIndex {
+  distributions: PythonDistribution[];
+  byDistribution: Map<string, PythonDistribution>; // PEP 503 normalized name -> distribution
+  byImport: Map<string, PythonDistribution[]>; // top-level import name -> distributions providing it
+}
+
+const IMPORT_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MODULE_FILE = /\.(py|pyi|pyc|so|pyd)$/;
+
+export class PythonMetadataParser {
+  /**
+   * Read every distribution installed in the given site-packages directories. The first directory
+   * wins when a distribution is installed in several, as it does on sys.path.
+   */
+  static indexSitePackages(sitePackagesDirs: string[]): PythonDistributionIndex {
+    const index: PythonDistributionIndex = { distributions: [], byDistribution: new Map(), byImport: new Map() };
+
+    for (const sitePackages of sitePackagesDirs) {
+      for (const distribution of this.readSitePackages(sitePackages)) {
+        const key = this.normalizeName(distribution.name);
+        if (index.byDistribution.has(key)) {
+          continue;
+        }
+
+        index.distributions.push(distribution);
+        index.byDistribution.set(key, distribution);
+        for (const importName of distribution.importNames) {
+          index.byImport.set(importName, [...(index.byImport.get(importName) || []), distribution]);
+        }
+      }
+    }
+
+    return index;
+  }
+
+  static readSitePackages(sitePackages: string): PythonDistribution[] {
+    let entries: string[];
+    try {
+      entries = readdirSync(sitePackages);
+    } catch {
+      return [];
+    }
+
+    const distributions: PythonDistribution[] = [];
+    for (const entry of entries.sort()) {
+      if (entry.endsWith('.dist-info') || entry.endsWith('.egg-info')) {
+        const distribution = this.parseDistribution(join(sitePackages, entry), sitePackages);
+        if (distribution) {
+          distributions.push(distribution);
+        }
+      }
+    }
+    return distributions;
+  }
+
+  /**
+   * Import names come from top_level.txt when the build backend wrote one, and otherwise from the
+   * files the distribution installed (RECORD for wheels, installed-files.txt for eggs)
+   */
+  static parseDistribution(metadataPath: string, sitePackages: string): PythonDistribution | null {
+    const metadata = this.readOptional(join(metadataPath, 'METADATA')) ?? this.readOptional(join(metadataPath, 'PKG-INFO')) ?? '';
+    const headers = this.parseMetadataHeaders(metadata);
+    const name = headers.get('name');
+    if (!name) {
+      return null;
+    }
+
+    const topLevel = this.readOptional(join(metadataPath, 'top_level.txt'));
+    const record = this.readOptional(join(metadataPath, 'RECORD'));
+    const installedFiles = this.readOptional(join(metadataPath, 'installed-files.txt'));
+    const importNames = topLevel !== null
+      ? this.parseTopLevel(topLevel)
+      : record !== null
+        ? this.importNamesFromFiles(record.split(/\r?\n/).map(line => this.parseRecordPath(line)))
+        : installedFiles !== null
+          ? this.importNamesFromFiles(installedFiles.split(/\r?\n/).map(line => line.trim().replace(/^(\.\.\/)+/, '')))
+          : [];
+
+    return {
+      name,
+      version: headers.get('version') || 'unknown',
+      summary: headers.get('summary') || undefined,
+      importNames,
+      requires: this.parseRequires(metadata, this.readOptional(join(metadataPath, 'requires.txt')), sitePackages),
+      metadataPath,
+      sitePackages,
+    };
+  }
+
+  /**
+   * PEP 503 normalization: `Scikit_Learn` and `scikit-learn` are the same distribution
+   */
+  static normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+  }
+
+  /**
+   * Requirement names from Requires-Dist headers, or for eggs from requires.txt, whose sections
+   * are `[extra]`, `[extra:marker]` or `[:marker]`. Requirements whose marker does not hold on this
+   * platform and Python version (taken from a `lib/pythonX.Y/site-packages` path) are left out.
+   */
+  private static parseRequires(metadata: string, requiresTxt: string | null, sitePackages: string): string[] {
+    const environment = PythonManifestParser.getMarkerEnvironment(sitePackages.match(/python(\d+\.\d+)/)?.[1]);
+    const requirements = [];
+
+    if (requiresTxt !== null) {
+      let sectionMarker: string | null = '';
+      for (const line of requiresTxt.split(/\r?\n/)) {
+        const section = line.trim().match(/^\[([^:\]]*)(?::(.*))?\]$/);
+        if (section) {
+          sectionMarker = section[1] ? null : section[2] ?? '';
+          continue;
+        }
+        const requirement = sectionMarker === null ? null : PythonManifestParser.parseRequirement(line);
+        if (requirement) {
+          requirements.push({ ...requirement, marker: [sectionMarker, requirement.marker].filter(Boolean).map(marker => `(${marker})`).join(' and ') });
+        }
+      }
+    } else {
+      for (const line of this.readHeaderLines(metadata)) {
+        const requirement = /^Requires-Dist:/i.test(line) ? PythonManifestParser.parseRequirement(line.replace(/^Requires-Dist:/i, '')) : null;
+        if (requirement) {
+          requirements.push(requirement);
+        }
+      }
+    }
+
+    const names = requirements
+      .filter(requirement => !requirement.marker || PythonManifestParser.evaluateMarker(requirement.marker, environment))
+      .map(requirement => requirement.name);
+    return [...new Set(names)];
+  }
+
+  private static parseTopLevel(content: string): string[] {
+    const names = content.split(/\r?\n/)
+      .map(line => line.trim().split('/')[0]!)
+      .filter(name => IMPORT_NAME.test(name));
+    return [...new Set(names)];
+  }
+
+  /**
+   * Top-level packages and modules among installed files: `sklearn/base.py` -> `sklearn`,
+   * `six.py` -> `six`, `_cffi_backend.cpython-311-x86_64-linux-gnu.so` -> `_cffi_backend`
+   */
+  private static importNamesFromFiles(paths: string[]): string[] {
+    const names = new Set<string>();
+    for (const path of paths) {
+      if (!path || path.startsWith('..') || path.startsWith('/')) {
+        continue; // Scripts and data installed outside site-packages
+      }
+
+      const [first, ...rest] = path.split('/');
+      if (!first || first === '__pycache__' || /\.(dist-info|egg-info|data)$/.test(first)) {
+        continue;
+      }
+
+      const name = rest.length > 0
+        ? MODULE_FILE.test(path) ? first : null
+        : MODULE_FILE.test(first) ? first.split('.')[0]! : null;
+      if (name && IMPORT_NAME.test(name)) {
+        names.add(name);
+      }
+    }
+    return [...names].sort();
+  }
+
+  /**
+   * RECORD is CSV (path,hash,size); only paths containing commas are quoted
+   */
+  private static parseRecordPath(line: string): string {
+    if (line.startsWith('"')) {
+      const end = line.indexOf('",', 1);
+      return (end === -1 ? line.slice(1) : line.slice(1, end)).replace(/""/g, '"');
+    }
+    return line.split(',')[0]!.trim();
+  }
+
+  /**
+   * Core metadata is an email-style header block: `Name: Pillow`, `Version: 10.3.0`, `Summary: ...`
+   */
+  private static parseMetadataHeaders(content: string): Map<string, string> {
+    const headers = new Map<string, string>();
+    for (const line of this.readHeaderLines(content)) {
+      const match = line.match(/^([A-Za-z-]+):\s*(.*)$/);
+      if (match && !headers.has(match[1]!.toLowerCase())) {
+        headers.set(match[1]!.toLowerCase(), match[2]!.trim());
+      }
+    }
+    return headers;
+  }
+
+  /**
+   * Lines up to the blank line that starts the description body; files written on Windows use CRLF
+   */
+  private static readHeaderLines(content: string): string[] {
+    const lines = content.split(/\r?\n/);
+    const end = lines.findIndex(line => line.trim() === '');
+    return end === -1 ? lines : lines.slice(0, end);
+  }
+
+  private static readOptional(path: string): string | null {
+    try {
+      return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+    } catch {
+      return null;
+    }
+  }
+}
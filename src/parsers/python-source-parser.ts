@@ -0,0 +1,782 @@
+import { readFileSync, statSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { ModuleExport, Parameter, Signature } from '../types.js';
+
+export interface PythonParseOptions {
+  memberDepth?: number | undefined; // Levels of class members to describe, 0 for none
+  includePrivate?: boolean | undefined; // `_name` exports and members
+  resolveModule?: ((moduleName: string) => string | null) | undefined; // File for an absolute import outside the module's own package
+}
+
+/**
+ * A logical line and the indented block under it
+ */
+interface PythonStatement {
+  text: string; // Comments removed, continuation lines joined
+  line: number;
+  body: PythonStatement[];
+}
+
+interface PythonImport {
+  module: string; // As written: `.models`, `..`, `os.path`
+  name: string | null; // null for `import x` and `import x as y`
+  reexported: boolean; // Relative imports, and in stubs the `import x as x` form
+}
+
+interface PythonModuleScope {
+  file: string;
+  order: string[]; // Top-level names in definition order
+  definitions: Map<string, ModuleExport>;
+  imports: Map<string, PythonImport>;
+  starImports: string[];
+  all: string[] | null;
+}
+
+const COMPOUND_STATEMENT = /^(if|elif|else|try|except|finally|with|async\s+with)\b/;
+const DEFINITION = /^(async\s+)?def\s+([A-Za-z_]\w*)/;
+const CLASS = /^class\s+([A-Za-z_]\w*)/;
+const TYPE_FACTORY = /^(typing\.|typing_extensions\.)?(TypeVar|ParamSpec|TypeVarTuple|NewType)\(/;
+
+/**
+ * Exports of a Python module read from its source or stub file, without running it: `__all__`,
+ * functions and their annotated signatures (overloads included), classes with their methods and
+ * attributes, and module-level constants. Relative re-exports (`from .models import Request`) are
+ * followed to the file that defines them.
+ */
+export class PythonSourceParser {
+  static parseModule(file: string, options: PythonParseOptions = {}): ModuleExport[] {
+    const scopes = new Map<string, PythonModuleScope>();
+    const scope = this.getScope(resolve(file), scopes, options);
+    if (!scope) {
+      return [];
+    }
+
+    const names = this.getExportNames(scope, scopes, options, new Set());
+    return names
+      .map(name => this.resolveName(scope, name, scopes, options, new Set()) ?? { name, type: 'constant' as const, signature: `${name}: Any`, definedIn: scope.file })
+      .filter((exported, index, all) => all.findIndex(other => other.name === exported.name) === index);
+  }
+
+  /**
+   * `__all__` when the module sets it; otherwise its public definitions and re-exports, as `from module import *` sees them
+   */
+  private static getExportNames(scope: PythonModuleScope, scopes: Map<string, PythonModuleScope>, options: PythonParseOptions, visiting: Set<string>): string[] {
+    if (scope.all) {
+      return scope.all;
+    }
+    visiting.add(scope.file);
+
+    const names = [
+      ...scope.order,
+      ...[...scope.imports].filter(([, imported]) => imported.reexported).map(([name]) => name),
+    ];
+    for (const module of scope.starImports) {
+      const target = this.getScope(this.findModuleFile(scope.file, module, options), scopes, options);
+      if (target && !visiting.has(target.file)) {
+        names.push(...this.getExportNames(target, scopes, options, visiting));
+      }
+    }
+    return [...new Set(names)].filter(name => options.includePrivate || !name.startsWith('_'));
+  }
+
+  private static resolveName(
+    scope: PythonModuleScope,
+    name: string,
+    scopes: Map<string, PythonModuleScope>,
+    options: PythonParseOptions,
+    visiting: Set<string>
+  ): ModuleExport | null {
+    const key = `${scope.file}:${name}`;
+    if (visiting.has(key)) {
+      return null;
+    }
+    visiting.add(key);
+
+    const defined = scope.definitions.get(name);
+    if (defined) {
+      return defined;
+    }
+
+    const imported = scope.imports.get(name);
+    if (imported?.name === null) {
+      return { name, type: 'namespace', signature: `import ${imported.module} as ${name}` };
+    }
+    if (imported) {
+      const signature = `from ${imported.module} import ${imported.name}`;
+      const target = this.getScope(this.findModuleFile(scope.file, imported.module, options), scopes, options);
+      const found = target ? this.resolveName(target, imported.name, scopes, options, visiting) : null;
+      if (found) {
+        return { ...found, name };
+      }
+      const submodule = this.findModuleFile(scope.file, this.joinModule(imported.module, imported.name), options);
+      return submodule ? { name, type: 'namespace', signature, definedIn: submodule } : { name, type: 'constant', signature };
+    }
+
+    for (const module of scope.starImports) {
+      const target = this.getScope(this.findModuleFile(scope.file, module, options), scopes, options);
+      const found = target ? this.resolveName(target, name, scopes, options, visiting) : null;
+      if (found) {
+        return found;
+      }
+    }
+
+    // A submodule listed in __all__
+    const submodule = basename(scope.file).startsWith('__init__.') ? this.findSourceFile(join(dirname(scope.file), name)) : null;
+    return submodule ? { name, type: 'namespace', signature: `import ${name}`, definedIn: submodule } : null;
+  }
+
+  private static getScope(file: string | null, scopes: Map<string, PythonModuleScope>, options: PythonParseOptions): PythonModuleScope | null {
+    if (!file) {
+      return null;
+    }
+    if (!scopes.has(file)) {
+      const scope: PythonModuleScope = { file, order: [], definitions: new Map(), imports: new Map(), starImports: [], all: null };
+      scopes.set(file, scope); // Before parsing, so import cycles end here
+      this.collectModuleScope(scope, this.parseStatements(readFileSync(file, 'utf-8')), options);
+      this.collectAllSources(scope, scopes, options);
+    }
+    return scopes.get(file)!;
+  }
+
+  private static collectModuleScope(scope: PythonModuleScope, statements: PythonStatement[], options: PythonParseOptions): void {
+    const stub = scope.file.endsWith('.pyi');
+    const define = (exported: ModuleExport) => {
+      if (!scope.definitions.has(exported.name)) {
+        scope.order.push(exported.name);
+        scope.definitions.set(exported.name, { ...exported, definedIn: scope.file });
+      }
+    };
+
+    this.walk(statements, (statement, decorators) => {
+      const { text } = statement;
+
+      if (DEFINITION.test(text)) {
+        const signature = this.parseFunction(text, false, decorators);
+        if (signature) {
+          this.addFunction(scope.definitions, scope.order, signature, decorators, this.getDocstring(statement), 'function');
+          scope.definitions.get(signature.name)!.definedIn = scope.file;
+        }
+        return;
+      }
+
+      if (CLASS.test(text)) {
+        const described = this.describeClass(statement, decorators, options.memberDepth ?? 1, options);
+        if (described) {
+          define(described);
+        }
+        return;
+      }
+
+      const fromImport = text.match(/^from\s+(\.*[\w.]*)\s+import\s+\(?([\s\S]*?)\)?$/);
+      if (fromImport) {
+        const module = fromImport[1]!;
+        for (const part of fromImport[2]!.split(',').map(part => part.trim()).filter(Boolean)) {
+          if (part === '*') {
+            if (module.startsWith('.')) {
+              scope.starImports.push(module);
+            }
+            continue;
+          }
+          const [name, alias] = part.split(/\s+as\s+/).map(value => value.trim());
+          // Stubs only re-export `X as X` and submodules (PEP 484); sources re-export what they import from their own package
+          const reexported = stub ? alias === name || /^\.+$/.test(module) : this.resolveModuleBase(scope.file, module) !== null;
+          scope.imports.set(alias || name!, { module, name: name!, reexported });
+        }
+        return;
+      }
+
+      const plainImport = text.match(/^import\s+([\s\S]+)$/);
+      if (plainImport) {
+        for (const part of plainImport[1]!.split(',').map(part => part.trim())) {
+          const [module, alias] = part.split(/\s+as\s+/).map(value => value.trim());
+          if (alias) {
+            scope.imports.set(alias, { module: module!, name: null, reexported: stub && alias === module });
+          }
+        }
+        return;
+      }
+
+      const all = text.match(/^__all__\s*(?::[^=]*)?(\+)?=\s*([\s\S]*)$/) ?? text.match(/^__all__\.(extend|append)\(([\s\S]*)\)$/);
+      if (all) {
+        const names = this.readStringNames(all[2]!);
+        scope.all = all[1] ? [...(scope.all ?? []), ...names] : names;
+        // `__all__ = base_events.__all__ + ...` is expanded once the scope is complete
+        const sources = [...all[2]!.matchAll(/([A-Za-z_]\w*)\.__all__/g)].map(match => `__all__:${match[1]}`);
+        scope.all.push(...sources);
+        return;
+      }
+
+      const typeAlias = text.match(/^type\s+([A-Za-z_]\w*)(\[[^\]]*\])?\s*=\s*([\s\S]+)$/);
+      if (typeAlias) {
+        define({ name: typeAlias[1]!, type: 'type', signature: `type ${typeAlias[1]}${typeAlias[2] ?? ''} = ${this.normalize(typeAlias[3]!)}` });
+        return;
+      }
+
+      const assignment = this.parseAssignment(text);
+      if (assignment) {
+        define(this.describeVariable(assignment.name, assignment.annotation, assignment.value, this.getDocstring(statement)));
+      }
+    });
+  }
+
+  /**
+   * Replace `__all__:module` placeholders with that module's export names
+   */
+  private static collectAllSources(scope: PythonModuleScope, scopes: Map<string, PythonModuleScope>, options: PythonParseOptions): void {
+    if (!scope.all?.some(name => name.startsWith('__all__:'))) {
+      return;
+    }
+
+    const names: string[] = [];
+    for (const name of scope.all) {
+      if (!name.startsWith('__all__:')) {
+        names.push(name);
+        continue;
+      }
+      // A submodule bound by `from . import local`, `import pkg.local as local` or just by importing from it
+      const local = name.slice('__all__:'.length);
+      const imported = scope.imports.get(local);
+      const module = !imported ? `.${local}` : imported.name === null ? imported.module : this.joinModule(imported.module, imported.name);
+      const target = this.getScope(this.findModuleFile(scope.file, module, options), scopes, options);
+      if (target) {
+        names.push(...this.getExportNames(target, scopes, options, new Set([scope.file])));
+      }
+    }
+    scope.all = [...new Set(names)];
+  }
+
+  /**
+   * Statements of a block, looking through `if`/`try`/`with` blocks (version checks, TYPE_CHECKING,
+   * optional imports) but not into functions. Decorators are gathered for the statement they precede.
+   */
+  private static walk(statements: PythonStatement[], visit: (statement: PythonStatement, decorators: string[]) => void): void {
+    let decorators: string[] = [];
+    for (const statement of statements) {
+      if (statement.text.startsWith('@')) {
+        decorators.push(statement.text.slice(1).trim());
+        continue;
+      }
+      if (COMPOUND_STATEMENT.test(statement.text)) {
+        this.walk(statement.body, visit);
+      } else {
+        visit(statement, decorators);
+      }
+      decorators = [];
+    }
+  }
+
+  private static describeClass(statement: PythonStatement, decorators: string[], memberDepth: number, options: PythonParseOptions): ModuleExport | null {
+    const header = this.parseHeader(statement.text);
+    const match = header.match(/^class\s+([A-Za-z_]\w*)\s*(\[[^\]]*\])?\s*(?:\(([\s\S]*)\))?$/);
+    if (!match) {
+      return null;
+    }
+
+    const name = match[1]!;
+    const bases = match[3] ? this.splitTopLevel(match[3]).map(base => this.normalize(base)) : [];
+    const { members, fields } = this.describeMembers(statement, memberDepth, options);
+    const constructor = members.find(member => member.type === 'constructor');
+    const isDataclass = decorators.some(decorator => /^(dataclasses\.)?dataclass\b|^(attr\.|attrs\.)?(s|define|frozen|attrs)\b/.test(decorator));
+
+    return {
+      name,
+      type: 'class',
+      signature: `class ${name}${match[2] ?? ''}${bases.length > 0 ? `(${bases.join(', ')})` : ''}`,
+      description: this.getDocstring(statement),
+      typeParameters: match[2] ? this.splitTopLevel(match[2].slice(1, -1)).map(parameter => this.normalize(parameter)) : undefined,
+      parameters: constructor?.parameters ?? (isDataclass ? fields : undefined),
+      overloads: constructor?.overloads,
+      members: memberDepth > 0 && members.length > 0 ? members : undefined,
+    };
+  }
+
+  /**
+   * Methods, properties, class attributes and nested classes; `fields` are the annotated instance
+   * attributes a dataclass turns into constructor parameters
+   */
+  private static describeMembers(statement: PythonStatement, memberDepth: number, options: PythonParseOptions): { members: ModuleExport[]; fields: Parameter[] } {
+    const members = new Map<string, ModuleExport>();
+    const order: string[] = [];
+    const fields: Parameter[] = [];
+    // Dunder methods (`__init__`, `__call__`, `__getitem__`) are public; `__name` is name-mangled
+    const access = (name: string): ModuleExport['access'] =>
+      /^__\w+__$/.test(name) ? 'public' : name.startsWith('__') ? 'private' : name.startsWith('_') ? 'protected' : 'public';
+    const include = (name: string) => options.includePrivate || access(name) === 'public';
+
+    this.walk(statement.body, (member, decorators) => {
+      const { text } = member;
+
+      if (DEFINITION.test(text)) {
+        const isStatic = decorators.includes('staticmethod');
+        const signature = this.parseFunction(text, !isStatic, decorators);
+        if (!signature || !include(signature.name)) {
+          return;
+        }
+
+        const property = decorators.find(decorator => decorator === 'property' || /^(functools\.)?cached_property$/.test(decorator) || /\.(setter|deleter)$/.test(decorator));
+        if (property?.endsWith('.setter')) {
+          const existing = members.get(signature.name);
+          if (existing) {
+            existing.readonly = undefined;
+            existing.signature = `${signature.name}: ${existing.returnType}`;
+          }
+          return;
+        }
+        if (property) {
+          if (!property.endsWith('.deleter') && !members.has(signature.name)) {
+            order.push(signature.name);
+            members.set(signature.name, {
+              name: signature.name,
+              type: 'property',
+              signature: `${signature.name}: ${signature.returnType}`,
+              description: this.getDocstring(member),
+              returnType: signature.returnType,
+              access: access(signature.name),
+              readonly: true,
+            });
+          }
+          return;
+        }
+
+        const kind = signature.name === '__init__' ? 'constructor' : 'method';
+        this.addFunction(members, order, signature, decorators, this.getDocstring(member), kind);
+        Object.assign(members.get(signature.name)!, { static: isStatic || decorators.includes('classmethod'), access: access(signature.name) });
+
+        // Attributes assigned in __init__ are instance properties
+        if (kind === 'constructor') {
+          this.walk(member.body, attribute => {
+            const assigned = attribute.text.match(/^self\.([A-Za-z_]\w*)\s*(?::\s*([^=]+?))?\s*=(?!=)/);
+            if (assigned && include(assigned[1]!) && !members.has(assigned[1]!)) {
+              order.push(assigned[1]!);
+              members.set(assigned[1]!, {
+                name: assigned[1]!,
+                type: 'property',
+                signature: `${assigned[1]}: ${assigned[2] ? this.normalize(assigned[2]) : 'Any'}`,
+                static: false,
+                access: access(assigned[1]!),
+              });
+            }
+          });
+        }
+        return;
+      }
+
+      if (CLASS.test(text)) {
+        const nested = this.describeClass(member, decorators, memberDepth - 1, options);
+        if (nested && include(nested.name) && !members.has(nested.name)) {
+          order.push(nested.name);
+          members.set(nested.name, { ...nested, static: true, access: access(nested.name) });
+        }
+        return;
+      }
+
+      const assignment = this.parseAssignment(text);
+      if (!assignment || members.has(assignment.name)) {
+        return;
+      }
+      // Annotated names in a class body declare instance attributes, unless they are ClassVar
+      const isStatic = !assignment.annotation || /^(typing\.)?ClassVar\b/.test(assignment.annotation);
+      if (!isStatic && !/^(dataclasses\.)?field\(\s*init\s*=\s*False/.test(assignment.value ?? '')) {
+        fields.push({ name: assignment.name, type: this.normalize(assignment.annotation!), optional: assignment.value !== null });
+      }
+      if (include(assignment.name)) {
+        const variable = this.describeVariable(assignment.name, assignment.annotation, assignment.value, this.getDocstring(member));
+        order.push(assignment.name);
+        members.set(assignment.name, {
+          ...variable,
+          type: variable.type === 'constant' ? 'property' : variable.type,
+          static: isStatic,
+          access: access(assignment.name),
+        });
+      }
+    });
+
+    return { members: order.map(name => members.get(name)!), fields };
+  }
+
+  /**
+   * Record a function or method; `@overload` declarations collect into overloads, and the
+   * implementation that follows them only adds its docstring
+   */
+  private static addFunction(
+    target: Map<string, ModuleExport>,
+    order: string[],
+    signature: Signature & { name: string },
+    decorators: string[],
+    description: string | undefined,
+    type: 'function' | 'method' | 'constructor'
+  ): void {
+    const { name, ...rest } = signature;
+    const overload = decorators.some(decorator => /^(typing\.)?overload$/.test(decorator));
+    const existing = target.get(name);
+
+    if (existing?.overloads && overload) {
+      existing.overloads.push({ ...rest, description });
+      return;
+    }
+    if (existing) {
+      existing.description ??= description;
+      return;
+    }
+
+    order.push(name);
+    target.set(name, {
+      name,
+      type,
+      signature: rest.signature,
+      description,
+      typeParameters: rest.typeParameters,
+      parameters: rest.parameters,
+      returnType: rest.returnType,
+      overloads: overload ? [{ ...rest, description }] : undefined,
+    });
+  }
+
+  private static describeVariable(name: string, annotation: string | null, value: string | null, description: string | undefined): ModuleExport {
+    const factory = value?.match(TYPE_FACTORY);
+    if (factory || (annotation && /^(typing\.|typing_extensions\.)?TypeAlias$/.test(annotation))) {
+      return { name, type: 'type', signature: factory ? `${name} = ${this.normalize(value!)}` : `type ${name} = ${this.normalize(value ?? 'Any')}`, description };
+    }
+
+    const final = annotation?.match(/^(?:typing\.)?Final(?:\[([\s\S]*)\])?$/);
+    const type = final ? final[1] ?? this.inferType(value) : annotation ? this.normalize(annotation) : this.inferType(value);
+    return { name, type: 'constant', signature: `${name}: ${type}`, description, readonly: final ? true : undefined };
+  }
+
+  private static inferType(value: string | null): string {
+    const literal = value?.trim() ?? '';
+    if (/^[-+]?(\d[\d_]*|0[xob][\da-f_]+)$/i.test(literal)) return 'int';
+    if (/^[-+]?(\d[\d_]*)?\.?\d[\d_]*(e[-+]?\d+)?$/i.test(literal)) return 'float';
+    if (/^[rRuUfF]{0,2}['"]/.test(literal)) return 'str';
+    if (/^[bB][rR]?['"]|^[rR][bB]['"]/.test(literal)) return 'bytes';
+    if (literal === 'True' || literal === 'False') return 'bool';
+    if (literal === 'None') return 'None';
+    if (literal.startsWith('[')) return 'list';
+    if (literal.startsWith('(')) return 'tuple';
+    if (literal === '{}' || (literal.startsWith('{') && this.splitTopLevel(literal.slice(1, -1))[0]?.includes(':'))) return 'dict';
+    if (literal.startsWith('{')) return 'set';
+    return 'Any';
+  }
+
+  /**
+   * `def name[T](params) -> Return:` into a signature; `self`/`cls` is dropped from methods
+   */
+  private static parseFunction(text: string, dropFirst: boolean, decorators: string[]): (Signature & { name: string }) | null {
+    const header = this.parseHeader(text);
+    const match = header.match(/^(?:async\s+)?def\s+([A-Za-z_]\w*)\s*(\[[^\]]*\])?\s*\(/);
+    if (!match) {
+      return null;
+    }
+
+    const open = match[0].length - 1;
+    const close = this.findClosing(header, open);
+    const parameterTexts = this.splitTopLevel(header.slice(open + 1, close)).map(parameter => this.normalize(parameter)).filter(Boolean);
+    if (dropFirst && !decorators.includes('staticmethod') && parameterTexts[0] && !parameterTexts[0].startsWith('*')) {
+      parameterTexts.shift();
+    }
+
+    const parameters = parameterTexts
+      .filter(parameter => parameter !== '/' && parameter !== '*')
+      .map(parameter => this.parseParameter(parameter));
+    const returnAnnotation = header.slice(close + 1).match(/^\s*->\s*([\s\S]+)$/)?.[1];
+    const name = match[1]!;
+    const returnType = returnAnnotation ? this.normalize(returnAnnotation) : name === '__init__' ? 'None' : 'Any';
+
+    return {
+      name,
+      signature: `${name}${match[2] ?? ''}(${parameterTexts.join(', ')})${returnAnnotation ? ` -> ${returnType}` : ''}`,
+      typeParameters: match[2] ? this.splitTopLevel(match[2].slice(1, -1)).map(parameter => this.normalize(parameter)) : undefined,
+      parameters,
+      returnType,
+    };
+  }
+
+  private static parseParameter(text: string): Parameter {
+    const equals = this.findTopLevel(text, '=');
+    const declaration = equals === -1 ? text : text.slice(0, equals);
+    const colon = this.findTopLevel(declaration, ':');
+    const name = (colon === -1 ? declaration : declaration.slice(0, colon)).trim();
+    return {
+      name,
+      type: colon === -1 ? 'Any' : this.normalize(declaration.slice(colon + 1)),
+      optional: equals !== -1 || name.startsWith('*'),
+    };
+  }
+
+  private static parseAssignment(text: string): { name: string; annotation: string | null; value: string | null } | null {
+    const match = text.match(/^([A-Za-z_]\w*)\s*(:|=(?!=))/);
+    if (!match) {
+      return null;
+    }
+
+    const rest = text.slice(match[0].length);
+    if (match[2] === '=') {
+      // `A = B = value` binds A to the last right-hand side
+      let value = rest;
+      for (let equals = this.findTopLevel(value, '='); equals !== -1 && /^\s*[A-Za-z_][\w.]*\s*$/.test(value.slice(0, equals)); equals = this.findTopLevel(value, '=')) {
+        value = value.slice(equals + 1);
+      }
+      return { name: match[1]!, annotation: null, value: this.normalize(value) };
+    }
+    const equals = this.findTopLevel(rest, '=');
+    return {
+      name: match[1]!,
+      annotation: this.normalize(equals === -1 ? rest : rest.slice(0, equals)),
+      value: equals === -1 ? null : this.normalize(rest.slice(equals + 1)),
+    };
+  }
+
+  /**
+   * First paragraph of the docstring opening a block
+   */
+  private static getDocstring(statement: PythonStatement): string | undefined {
+    const first = statement.body[0]?.text ?? this.parseInlineBody(statement.text);
+    const match = first?.match(/^[rRuU]?("""|'''|"|')([\s\S]*?)\1$/);
+    if (!match) {
+      return undefined;
+    }
+    const paragraph = match[2]!.trim().split(/\n\s*\n/)[0]!;
+    return paragraph.replace(/\s+/g, ' ').trim() || undefined;
+  }
+
+  /**
+   * A block header up to its colon: `def f(x: int) -> str` from `def f(x: int) -> str: ...`
+   */
+  private static parseHeader(text: string): string {
+    const colon = this.findTopLevel(text, ':');
+    return (colon === -1 ? text : text.slice(0, colon)).trim();
+  }
+
+  private static parseInlineBody(text: string): string | undefined {
+    const colon = this.findTopLevel(text, ':');
+    return colon === -1 ? undefined : text.slice(colon + 1).trim() || undefined;
+  }
+
+  private static readStringNames(text: string): string[] {
+    return [...text.matchAll(/(['"])([A-Za-z_]\w*)\1/g)].map(match => match[2]!);
+  }
+
+  private static resolveModuleBase(file: string, module: string): string | null {
+    const dots = module.match(/^\.*/)![0].length;
+    const parts = module.slice(dots).split('.').filter(Boolean);
+
+    if (dots > 0) {
+      let base = dirname(file);
+      for (let level = 1; level < dots; level++) {
+        base = dirname(base);
+      }
+      return join(base, ...parts);
+    }
+
+    // Absolute imports of the module's own package (`from requests.models import Response`)
+    let packageDir = dirname(file);
+    while (this.findSourceFile(join(packageDir, '__init__'), true)) {
+      if (basename(packageDir) === parts[0]) {
+        return join(dirname(packageDir), ...parts);
+      }
+      packageDir = dirname(packageDir);
+    }
+    return null;
+  }
+
+  private static findModuleFile(file: string, module: string, options: PythonParseOptions): string | null {
+    const base = this.resolveModuleBase(file, module);
+    if (base !== null) {
+      return this.findSourceFile(base);
+    }
+    return module.startsWith('.') ? null : options.resolveModule?.(module) ?? null;
+  }
+
+  private static joinModule(module: string, name: string): string {
+    return module.endsWith('.') ? `${module}${name}` : `${module}.${name}`;
+  }
+
+  /**
+   * Stubs before sources, modules before packages, as the import system and type checkers look them up
+   */
+  private static findSourceFile(base: string, exact = false): string | null {
+    const candidates = exact ? [`${base}.pyi`, `${base}.py`] : [`${base}.pyi`, `${base}.py`, join(base, '__init__.pyi'), join(base, '__init__.py')];
+    return candidates.find(candidate => {
+      try {
+        return statSync(candidate).isFile();
+      } catch {
+        return false;
+      }
+    }) ?? null;
+  }
+
+  /**
+   * Logical lines (brackets and backslashes join physical lines; `;` splits them) nested by indentation
+   */
+  private static parseStatements(source: string): PythonStatement[] {
+    const root: PythonStatement[] = [];
+    const stack: Array<{ indent: number; body: PythonStatement[] }> = [{ indent: -1, body: root }];
+
+    for (const { indent, text, line } of this.readLogicalLines(source)) {
+      while (stack.length > 1 && indent <= stack[stack.length - 1]!.indent) {
+        stack.pop();
+      }
+      const statement: PythonStatement = { text, line, body: [] };
+      stack[stack.length - 1]!.body.push(statement);
+      stack.push({ indent, body: statement.body });
+    }
+
+    return root;
+  }
+
+  private static readLogicalLines(source: string): Array<{ indent: number; text: string; line: number }> {
+    const lines: Array<{ indent: number; text: string; line: number }> = [];
+    let text = '';
+    let depth = 0;
+    let line = 1;
+    let startLine = 1;
+    let indent = 0;
+    let atLineStart = true;
+
+    const flush = () => {
+      if (text.trim()) {
+        lines.push({ indent, text: text.trim(), line: startLine });
+      }
+      text = '';
+    };
+
+    for (let index = 0; index < source.length; index++) {
+      const char = source[index]!;
+
+      if (atLineStart) {
+        let column = 0;
+        while (source[index] === ' ' || source[index] === '\t') {
+          column = source[index] === '\t' ? column + 8 - (column % 8) : column + 1;
+          index++;
+        }
+        indent = column;
+        startLine = line;
+        atLineStart = false;
+        index--;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        const triple = source.startsWith(char.repeat(3), index);
+        const delimiter = triple ? char.repeat(3) : char;
+        let end = index + delimiter.length;
+        while (end < source.length && !source.startsWith(delimiter, end)) {
+          if (source[end] === '\\') {
+            end++;
+          } else if (source[end] === '\n' && !triple) {
+            break; // Unterminated
+          }
+          end++;
+        }
+        const literal = source.slice(index, end + delimiter.length);
+        line += literal.split('\n').length - 1;
+        text += literal;
+        index = end + delimiter.length - 1;
+      } else if (char === '#') {
+        while (index + 1 < source.length && source[index + 1] !== '\n') {
+          index++;
+        }
+      } else if (char === '\\' && source[index + 1] === '\n') {
+        text += ' ';
+        line++;
+        index++;
+      } else if (char === '\n') {
+        line++;
+        if (depth > 0) {
+          text += ' ';
+        } else {
+          flush();
+          atLineStart = true;
+        }
+      } else if (char === ';' && depth === 0) {
+        flush();
+        startLine = line;
+      } else if (char !== '\r') {
+        if ('([{'.includes(char)) depth++;
+        if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+        text += char;
+      }
+    }
+    flush();
+
+    return lines;
+  }
+
+  private static findClosing(text: string, open: number): number {
+    let depth = 0;
+    for (let index = open; index < text.length; index++) {
+      const char = text[index]!;
+      if (char === '"' || char === "'") {
+        index = this.skipString(text, index);
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char) && --depth === 0) {
+        return index;
+      }
+    }
+    return text.length;
+  }
+
+  /**
+   * Index of the first `char` outside brackets and strings (`=` never matches `==`, `<=`, `>=` or `!=`)
+   */
+  private static findTopLevel(text: string, char: string): number {
+    let depth = 0;
+    for (let index = 0; index < text.length; index++) {
+      const current = text[index]!;
+      if (current === '"' || current === "'") {
+        index = this.skipString(text, index);
+      } else if ('([{'.includes(current)) {
+        depth++;
+      } else if (')]}'.includes(current)) {
+        depth--;
+      } else if (current === char && depth === 0) {
+        if (char === '=' && (text[index + 1] === '=' || '=<>!'.includes(text[index - 1] ?? ''))) {
+          index += text[index + 1] === '=' ? 1 : 0;
+          continue;
+        }
+        if (char === ':' && text[index + 1] === '=') {
+          continue; // Walrus
+        }
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private static splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index]!;
+      if (char === '"' || char === "'") {
+        index = this.skipString(text, index);
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        parts.push(text.slice(start, index));
+        start = index + 1;
+      }
+    }
+    parts.push(text.slice(start));
+    return parts.map(part => part.trim()).filter(Boolean);
+  }
+
+  private static skipString(text: string, start: number): number {
+    const quote = text[start]!;
+    const delimiter = text.startsWith(quote.repeat(3), start) ? quote.repeat(3) : quote;
+    let index = start + delimiter.length;
+    while (index < text.length && !text.startsWith(delimiter, index)) {
+      index += text[index] === '\\' ? 2 : 1;
+    }
+    return index + delimiter.length - 1;
+  }
+
+  private static normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').replace(/([([{])\s/g, '$1').replace(/\s([)\]}])/g, '$1').replace(/,([)\]}])/g, '$1').trim();
+  }
+}
+
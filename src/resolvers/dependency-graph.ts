@@ -0,0 +1,67 @@
+import { join } from 'path';
+import { readTextFile } from '../utils/package-fs.js';
+import { locatePackageDirectory } from './module-resolver.js';
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'] as const;
+
+// Upper bound on installed packages visited while searching for an introducing dependency
+const MAX_VISITED_PACKAGES = 5000;
+
+/**
+ * Every package name a package.json declares, across all dependency fields
+ */
+export function getDeclaredDependencies(packageJson: any): Set<string> {
+  const declared = new Set<string>();
+
+  for (const field of DEPENDENCY_FIELDS) {
+    const dependencies = packageJson?.[field];
+    if (dependencies && typeof dependencies === 'object') {
+      for (const name of Object.keys(dependencies)) {
+        declared.add(name);
+      }
+    }
+  }
+
+  return declared;
+}
+
+/**
+ * Breadth-first search through the installed dependency tree for the shortest chain of
+ * packages, starting at one the owner declares, that pulls in `packageName`.
+ * Each package is located the way Node would locate it from its dependent's directory.
+ */
+export function findDependencyPath(packageName: string, ownerDir: string, ownerPackageJson: any): string[] | null {
+  const queue: Array<{ name: string; fromDir: string; path: string[] }> = [...getDeclaredDependencies(ownerPackageJson)]
+    .map(name => ({ name, fromDir: ownerDir, path: [name] }));
+  const visited = new Set<string>();
+
+  while (queue.length > 0 && visited.size < MAX_VISITED_PACKAGES) {
+    const { name, fromDir, path } = queue.shift()!;
+    const { packageDir } = locatePackageDirectory(name, fromDir);
+    if (!packageDir || visited.has(packageDir)) {
+      continue;
+    }
+    visited.add(packageDir);
+
+    const packageJson = readPackageJson(packageDir);
+    const dependencies = Object.keys({ ...packageJson?.dependencies, ...packageJson?.optionalDependencies, ...packageJson?.peerDependencies });
+
+    if (dependencies.includes(packageName)) {
+      return [...path, packageName];
+    }
+
+    for (const dependency of dependencies) {
+      queue.push({ name: dependency, fromDir: packageDir, path: [...path, dependency] });
+    }
+  }
+
+  return null;
+}
+
+function readPackageJson(packageDir: string): any | null {
+  try {
+    return JSON.parse(readTextFile(join(packageDir, 'package.json')));
+  } catch {
+    return null;
+  }
+}
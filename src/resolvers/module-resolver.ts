@@ -0,0 +1,204 @@
+import { createRequire } from 'module';
+import { existsSync, realpathSync } from 'fs';
+import { join, dirname, extname, resolve, sep } from 'path';
+import { isNodeBuiltinModule } from '../utils/builtin-modules.js';
+import { isFile, readTextFile } from '../utils/package-fs.js';
+import { splitModuleSpecifier, resolvePackageEntry, PackageEntryResolution } from './package-exports.js';
+import { findPnpManifest, resolvePnpPackage } from './pnp.js';
+import { ModuleFormat } from '../types.js';
+
+/**
+ * How the package manager laid out installed packages
+ */
+export type PackageLinker = 'node-modules' | 'pnpm' | 'pnp';
+
+/**
+ * Result of resolving a bare module specifier from a directory
+ */
+export interface ModuleResolutionResult {
+  specifier: string;
+  packageName: string;
+  packageDir: string | null;
+  packageJson: any | null;
+  file: string | null;
+  format: ModuleFormat;
+  entry: PackageEntryResolution | null;
+  linker: PackageLinker | null;
+  chain: string[]; // Human-readable steps taken, in order
+}
+
+/**
+ * Resolve a bare specifier the way Node does, without relying on the CommonJS `require` global.
+ * Package directories are looked up along the same node_modules path list that
+ * `createRequire(...).resolve.paths()` reports; the entry point is then resolved through the
+ * package's exports map (with the caller's conditions) or its legacy main/file layout.
+ */
+export function resolveModule(specifier: string, fromDir: string, conditions: string[] = ['node', 'import']): ModuleResolutionResult {
+  const { packageName, subpath } = splitModuleSpecifier(specifier);
+  const result: ModuleResolutionResult = {
+    specifier,
+    packageName,
+    packageDir: null,
+    packageJson: null,
+    file: null,
+    format: 'unknown',
+    entry: null,
+    linker: null,
+    chain: [],
+  };
+
+  if (isNodeBuiltinModule(specifier)) {
+    result.format = 'builtin';
+    result.chain.push(`'${specifier}' is a Node.js built-in module`);
+    return result;
+  }
+
+  const located = locatePackageDirectory(packageName, fromDir);
+  result.chain.push(...located.chain);
+
+  if (!located.packageDir) {
+    result.chain.push(`'${packageName}' was not found in any node_modules directory`);
+    return result;
+  }
+
+  result.packageDir = located.packageDir;
+  result.linker = located.linker;
+  result.packageJson = JSON.parse(readTextFile(join(located.packageDir, 'package.json')));
+
+  const entry = resolvePackageEntry(located.packageDir, result.packageJson, subpath, conditions);
+  result.entry = entry;
+  result.chain.push(describeEntry(entry));
+
+  if (entry.exists && entry.file) {
+    result.file = entry.file;
+  } else if (conditions.includes('require')) {
+    // Give Node's own CommonJS resolver the final word for anything our resolver does not model
+    const fallback = resolveWithRequire(specifier, fromDir);
+    if (fallback) {
+      result.file = fallback;
+      result.chain.push(`require.resolve fallback -> ${fallback}`);
+    }
+  }
+
+  if (result.file) {
+    result.format = detectModuleFormat(result.file);
+    result.chain.push(`format: ${result.format}`);
+  }
+
+  return result;
+}
+
+/**
+ * Find the directory of an installed package. Yarn Plug'n'Play projects are resolved through
+ * their PnP manifest; otherwise the node_modules lookup paths are walked and symlinks (pnpm's
+ * virtual store, workspace links) are followed to the real directory, as Node does.
+ */
+export function locatePackageDirectory(
+  packageName: string,
+  fromDir: string
+): { packageDir: string | null; linker: PackageLinker | null; chain: string[] } {
+  const chain: string[] = [];
+
+  const manifest = findPnpManifest(fromDir);
+  if (manifest) {
+    const pnp = resolvePnpPackage(manifest, packageName, fromDir);
+    if (pnp.packageDir && isFile(join(pnp.packageDir, 'package.json'))) {
+      chain.push(`found ${packageName} through Plug'n'Play manifest ${manifest.manifestPath} (issuer ${pnp.issuer}) at ${pnp.packageDir}`);
+      return { packageDir: pnp.packageDir, linker: 'pnp', chain };
+    }
+    chain.push(`Plug'n'Play manifest ${manifest.manifestPath}: ${pnp.reason || `${pnp.packageDir} has no package.json`}`);
+  }
+
+  for (const lookupDir of getLookupPaths(packageName, fromDir)) {
+    const packageDir = join(lookupDir, packageName);
+    if (existsSync(join(packageDir, 'package.json'))) {
+      chain.push(`found ${packageName} in ${lookupDir}`);
+
+      const realDir = realpathSync(packageDir);
+      if (realDir !== packageDir) {
+        chain.push(`${packageDir} links to ${realDir}`);
+      }
+      const linker = realDir.includes(`${sep}node_modules${sep}.pnpm${sep}`) ? 'pnpm' : 'node-modules';
+      return { packageDir: realDir, linker, chain };
+    }
+  }
+
+  return { packageDir: null, linker: null, chain };
+}
+
+/**
+ * Determine how Node would load a file: by extension, then by the nearest package.json "type"
+ */
+export function detectModuleFormat(filePath: string): ModuleFormat {
+  switch (extname(filePath).toLowerCase()) {
+    case '.mjs':
+      return 'module';
+    case '.cjs':
+      return 'commonjs';
+    case '.json':
+      return 'json';
+    case '.node':
+      return 'addon';
+    case '.wasm':
+      return 'wasm';
+    case '.ts':
+    case '.tsx':
+    case '.mts':
+    case '.cts':
+      return 'typescript';
+    case '.js':
+    case '':
+      return readNearestPackageType(dirname(filePath)) === 'module' ? 'module' : 'commonjs';
+    default:
+      return 'unknown';
+  }
+}
+
+function getLookupPaths(packageName: string, fromDir: string): string[] {
+  try {
+    const localRequire = createRequire(join(resolve(fromDir), 'noop.js'));
+    return localRequire.resolve.paths(packageName) || [];
+  } catch {
+    return [];
+  }
+}
+
+function resolveWithRequire(specifier: string, fromDir: string): string | null {
+  try {
+    return createRequire(join(resolve(fromDir), 'noop.js')).resolve(specifier);
+  } catch {
+    return null;
+  }
+}
+
+function readNearestPackageType(startDir: string): string | undefined {
+  let currentDir = startDir;
+
+  while (true) {
+    const packageJsonPath = join(currentDir, 'package.json');
+    if (isFile(packageJsonPath)) {
+      try {
+        return JSON.parse(readTextFile(packageJsonPath)).type;
+      } catch {
+        return undefined;
+      }
+    }
+
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) {
+      return undefined;
+    }
+    currentDir = parentDir;
+  }
+}
+
+function describeEntry(entry: PackageEntryResolution): string {
+  if (entry.via === 'exports') {
+    const conditions = entry.conditions && entry.conditions.length > 0 ? ` [${entry.conditions.join(' > ')}]` : '';
+    return entry.exists
+      ? `exports['${entry.matchedKey}']${conditions} -> ${entry.file}`
+      : `exports: ${entry.reason}`;
+  }
+
+  return entry.exists ? `${entry.via} -> ${entry.file}` : `${entry.via}: ${entry.reason}`;
+}
@@ -0,0 +1,317 @@
+import { isFile, isDirectory } from '../utils/package-fs.js';
+import { join } from 'path';
+
+/**
+ * Outcome of resolving a subpath of a package through its package.json
+ */
+export interface PackageEntryResolution {
+  subpath: string; // '.' for the package root, './x' otherwise
+  file: string | null; // Absolute path of the resolved target (null when not found or not exported)
+  exists: boolean;
+  via: 'exports' | 'main' | 'file';
+  matchedKey?: string; // Exports key or pattern that matched, e.g. './*'
+  conditions?: string[]; // Condition keys traversed to reach the target, e.g. ['import', 'default']
+  reason?: string;
+}
+
+/**
+ * Outcome of resolving a "#specifier" through the package.json "imports" field
+ */
+export interface PackageImportResolution {
+  matchedKey: string;
+  target: string | null; // Relative path inside the package, bare specifier, or null when blocked
+  external: boolean; // The target is a bare specifier of another package
+  conditions: string[];
+}
+
+/**
+ * Intermediate result of walking an exports/imports target
+ */
+interface TargetResolution {
+  target: string | null; // null when the target is explicitly blocked
+  conditions: string[];
+}
+
+const LEGACY_EXTENSIONS = ['', '.js', '.json', '.node', '.mjs', '.cjs'];
+const LEGACY_INDEX_FILES = ['index.js', 'index.json', 'index.node'];
+
+/**
+ * Split a bare module specifier into its package name and package subpath
+ */
+export function splitModuleSpecifier(specifier: string): { packageName: string; subpath: string } {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  const packageName = parts.slice(0, nameLength).join('/');
+  const rest = parts.slice(nameLength).join('/');
+
+  return {
+    packageName,
+    subpath: rest ? `./${rest}` : '.',
+  };
+}
+
+/**
+ * Resolve a package subpath using the "exports" map when present, otherwise the legacy main/file layout.
+ * Conditions are matched in the order they appear in the exports map; "default" always matches.
+ */
+export function resolvePackageEntry(
+  packageDir: string,
+  packageJson: any,
+  subpath: string,
+  conditions: string[]
+): PackageEntryResolution {
+  if (packageJson.exports !== undefined && packageJson.exports !== null) {
+    return resolveExportsField(packageDir, packageJson.exports, subpath, conditions);
+  }
+
+  return resolveLegacyEntry(packageDir, packageJson, subpath);
+}
+
+/**
+ * Resolve a private "#specifier" through the package.json "imports" field.
+ * Unlike exports, imports targets may also be bare specifiers of other packages.
+ */
+export function resolvePackageImports(
+  packageJson: any,
+  specifier: string,
+  conditions: string[]
+): PackageImportResolution | null {
+  const importsField = packageJson.imports;
+  if (typeof importsField !== 'object' || importsField === null || !specifier.startsWith('#')) {
+    return null;
+  }
+
+  const match = matchSubpathKey(importsField, specifier);
+  if (!match) {
+    return null;
+  }
+
+  const resolved = resolveTarget(importsField[match.key], match.patternMatch, conditions, [], true);
+  if (!resolved) {
+    return null;
+  }
+
+  return {
+    matchedKey: match.key,
+    target: resolved.target,
+    external: resolved.target !== null && !resolved.target.startsWith('./'),
+    conditions: resolved.conditions,
+  };
+}
+
+/**
+ * List the subpaths a package makes available through its exports map (patterns are kept as-is)
+ */
+export function listExportedSubpaths(packageJson: any): string[] {
+  const exportsField = packageJson.exports;
+
+  if (exportsField === undefined || exportsField === null) {
+    return [];
+  }
+
+  if (!isSubpathMap(exportsField)) {
+    return ['.'];
+  }
+
+  return Object.entries(exportsField)
+    .filter(([, target]) => target !== null)
+    .map(([key]) => key);
+}
+
+function resolveExportsField(
+  packageDir: string,
+  exportsField: any,
+  subpath: string,
+  conditions: string[]
+): PackageEntryResolution {
+  // A string, array or condition object is shorthand for { ".": ... }
+  const subpathMap: Record<string, unknown> = isSubpathMap(exportsField) ? exportsField : { '.': exportsField };
+  const match = matchSubpathKey(subpathMap, subpath);
+
+  if (!match) {
+    return {
+      subpath,
+      file: null,
+      exists: false,
+      via: 'exports',
+      reason: `Subpath '${subpath}' is not exported by the package`,
+    };
+  }
+
+  const resolved = resolveTarget(subpathMap[match.key], match.patternMatch, conditions, []);
+
+  if (!resolved) {
+    return {
+      subpath,
+      file: null,
+      exists: false,
+      via: 'exports',
+      matchedKey: match.key,
+      reason: `No exports condition matched for '${subpath}' (tried ${conditions.join(', ')}, default)`,
+    };
+  }
+
+  if (resolved.target === null) {
+    return {
+      subpath,
+      file: null,
+      exists: false,
+      via: 'exports',
+      matchedKey: match.key,
+      conditions: resolved.conditions,
+      reason: `Subpath '${subpath}' is explicitly blocked by the exports map`,
+    };
+  }
+
+  const file = join(packageDir, resolved.target);
+  const exists = isFile(file);
+
+  return {
+    subpath,
+    file,
+    exists,
+    via: 'exports',
+    matchedKey: match.key,
+    conditions: resolved.conditions,
+    ...(exists ? {} : { reason: `Exports target '${resolved.target}' does not exist` }),
+  };
+}
+
+function resolveLegacyEntry(packageDir: string, packageJson: any, subpath: string): PackageEntryResolution {
+  if (subpath === '.') {
+    const main = typeof packageJson.main === 'string' ? packageJson.main : null;
+    const file = (main && (resolveLegacyFile(join(packageDir, main)) || resolveLegacyDirectory(join(packageDir, main))))
+      || resolveLegacyDirectory(packageDir);
+
+    return {
+      subpath,
+      file,
+      exists: file !== null,
+      via: 'main',
+      ...(file ? {} : { reason: 'Package has no main entry point' }),
+    };
+  }
+
+  const candidate = join(packageDir, subpath);
+  const file = resolveLegacyFile(candidate) || resolveLegacyDirectory(candidate);
+
+  return {
+    subpath,
+    file,
+    exists: file !== null,
+    via: 'file',
+    ...(file ? {} : { reason: `File '${subpath}' does not exist in the package` }),
+  };
+}
+
+function resolveLegacyFile(basePath: string): string | null {
+  for (const extension of LEGACY_EXTENSIONS) {
+    if (isFile(basePath + extension)) {
+      return basePath + extension;
+    }
+  }
+  return null;
+}
+
+function resolveLegacyDirectory(directory: string): string | null {
+  if (!isDirectory(directory)) {
+    return null;
+  }
+
+  for (const indexFile of LEGACY_INDEX_FILES) {
+    if (isFile(join(directory, indexFile))) {
+      return join(directory, indexFile);
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the exports key matching a subpath: exact keys first, then "*" patterns by specificity
+ */
+function matchSubpathKey(subpathMap: Record<string, unknown>, subpath: string): { key: string; patternMatch: string | null } | null {
+  if (Object.prototype.hasOwnProperty.call(subpathMap, subpath) && !subpath.includes('*')) {
+    return { key: subpath, patternMatch: null };
+  }
+
+  const patternKeys = Object.keys(subpathMap)
+    .filter(key => key.split('*').length === 2)
+    .sort(comparePatternKeys);
+
+  for (const key of patternKeys) {
+    const [base, trailer] = key.split('*') as [string, string];
+    if (subpath.startsWith(base) && subpath !== base &&
+        (trailer === '' || (subpath.endsWith(trailer) && subpath.length >= key.length))) {
+      return { key, patternMatch: subpath.slice(base.length, subpath.length - trailer.length) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Order pattern keys the way Node does: longer prefix before the "*" first, then longer keys first
+ */
+function comparePatternKeys(a: string, b: string): number {
+  const baseA = a.indexOf('*');
+  const baseB = b.indexOf('*');
+  if (baseA !== baseB) {
+    return baseB - baseA;
+  }
+  return b.length - a.length;
+}
+
+/**
+ * Walk an exports target (string, array, condition object or null) to a concrete relative path
+ */
+function resolveTarget(
+  target: unknown,
+  patternMatch: string | null,
+  conditions: string[],
+  trail: string[],
+  allowBareTargets = false
+): TargetResolution | undefined {
+  if (target === null) {
+    return { target: null, conditions: trail };
+  }
+
+  if (typeof target === 'string') {
+    const isBare = !target.startsWith('./') && !target.startsWith('../') && !target.startsWith('/');
+    if (!target.startsWith('./') && !(allowBareTargets && isBare)) {
+      return undefined;
+    }
+    return {
+      target: patternMatch === null ? target : target.replace(/\*/g, patternMatch),
+      conditions: trail,
+    };
+  }
+
+  if (Array.isArray(target)) {
+    for (const fallback of target) {
+      const resolved = resolveTarget(fallback, patternMatch, conditions, trail, allowBareTargets);
+      if (resolved !== undefined) {
+        return resolved;
+      }
+    }
+    return undefined;
+  }
+
+  if (typeof target === 'object') {
+    for (const [condition, value] of Object.entries(target as Record<string, unknown>)) {
+      if (condition !== 'default' && !conditions.includes(condition)) {
+        continue;
+      }
+      const resolved = resolveTarget(value, patternMatch, conditions, [...trail, condition], allowBareTargets);
+      if (resolved !== undefined) {
+        return resolved;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function isSubpathMap(exportsField: unknown): exportsField is Record<string, unknown> {
+  return typeof exportsField === 'object' && exportsField !== null && !Array.isArray(exportsField) &&
+    Object.keys(exportsField).some(key => key.startsWith('.'));
+}
@@ -0,0 +1,255 @@
+import * as ts from 'typescript';
+import { existsSync, readFileSync } from 'fs';
+import { join, dirname, resolve, isAbsolute } from 'path';
+import { resolveSourceFile } from './source-files.js';
+import { resolvePackageImports, splitModuleSpecifier } from './package-exports.js';
+import { locatePackageDirectory, resolveModule } from './module-resolver.js';
+
+/**
+ * Module resolution settings collected from a tsconfig/jsconfig and everything it extends
+ */
+export interface PathAliasConfig {
+  configPath: string;
+  baseUrl: string | undefined; // Absolute
+  paths: Record<string, string[]>;
+  pathsBase: string; // Directory that "paths" targets are relative to
+}
+
+/**
+ * A specifier resolved through a project-level alias mapping
+ */
+export interface AliasResolution {
+  source: 'tsconfig-paths' | 'baseUrl' | 'package-imports';
+  configPath: string; // tsconfig/jsconfig or package.json that declared the mapping
+  pattern: string; // Key that matched, e.g. '@app/*' or '#internal/*'
+  target: string; // Mapping target after "*" substitution
+  file: string | null;
+  candidates: string[]; // Targets tried, in order
+}
+
+interface CompilerPathSettings {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  pathsDefinedIn?: string;
+}
+
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+/**
+ * Find the nearest tsconfig.json/jsconfig.json above a directory and load its path settings
+ */
+export function loadPathAliasConfig(startDir: string): PathAliasConfig | null {
+  const configPath = findNearestFile(startDir, CONFIG_FILE_NAMES);
+  if (!configPath) {
+    return null;
+  }
+
+  const settings = readCompilerPathSettings(configPath, new Set());
+  if (!settings.baseUrl && !settings.paths) {
+    return null;
+  }
+
+  return {
+    configPath,
+    baseUrl: settings.baseUrl,
+    paths: settings.paths || {},
+    pathsBase: settings.baseUrl || settings.pathsDefinedIn || dirname(configPath),
+  };
+}
+
+/**
+ * Resolve a specifier through "paths" (longest matching prefix first), then "baseUrl".
+ * Returns null when no mapping applies to the specifier.
+ */
+export function resolvePathAlias(specifier: string, config: PathAliasConfig): AliasResolution | null {
+  const match = matchPathPattern(specifier, Object.keys(config.paths));
+
+  if (match) {
+    const candidates = (config.paths[match.pattern] || []).map(target => target.replace('*', match.wildcard));
+    const resolution: AliasResolution = {
+      source: 'tsconfig-paths',
+      configPath: config.configPath,
+      pattern: match.pattern,
+      target: candidates[0] || '',
+      file: null,
+      candidates,
+    };
+
+    for (const candidate of candidates) {
+      const file = resolveSourceFile(resolve(config.pathsBase, candidate));
+      if (file) {
+        resolution.target = candidate;
+        resolution.file = file;
+        break;
+      }
+    }
+
+    return resolution;
+  }
+
+  if (config.baseUrl) {
+    const file = resolveSourceFile(resolve(config.baseUrl, specifier));
+    if (file) {
+      return {
+        source: 'baseUrl',
+        configPath: config.configPath,
+        pattern: '*',
+        target: specifier,
+        file,
+        candidates: [specifier],
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a "#specifier" through the "imports" field of the nearest package.json
+ */
+export function resolvePackageImportAlias(specifier: string, fromDir: string, conditions: string[]): AliasResolution | null {
+  const packageJsonPath = findNearestFile(fromDir, ['package.json']);
+  if (!packageJsonPath) {
+    return null;
+  }
+
+  const packageDir = dirname(packageJsonPath);
+  const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+  const resolved = resolvePackageImports(packageJson, specifier, conditions);
+  if (!resolved) {
+    return null;
+  }
+
+  let file: string | null = null;
+  if (resolved.target !== null) {
+    file = resolved.external
+      ? resolveModule(resolved.target, packageDir, conditions).file
+      : resolveSourceFile(join(packageDir, resolved.target));
+  }
+
+  return {
+    source: 'package-imports',
+    configPath: packageJsonPath,
+    pattern: resolved.matchedKey,
+    target: resolved.target ?? 'null',
+    file,
+    candidates: resolved.target !== null ? [resolved.target] : [],
+  };
+}
+
+/**
+ * Read baseUrl/paths from a config file, following "extends" (string or array, relative or package)
+ */
+function readCompilerPathSettings(configPath: string, seen: Set<string>): CompilerPathSettings {
+  if (seen.has(configPath)) {
+    return {};
+  }
+  seen.add(configPath);
+
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error || !config) {
+    return {};
+  }
+
+  const configDir = dirname(configPath);
+  let settings: CompilerPathSettings = {};
+
+  const extendsList: unknown[] = Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : [];
+  for (const extended of extendsList) {
+    if (typeof extended !== 'string') {
+      continue;
+    }
+    const extendedPath = resolveExtendedConfig(extended, configDir);
+    if (extendedPath) {
+      settings = { ...settings, ...definedOnly(readCompilerPathSettings(extendedPath, seen)) };
+    }
+  }
+
+  const compilerOptions = config.compilerOptions || {};
+  if (typeof compilerOptions.baseUrl === 'string') {
+    settings.baseUrl = resolve(configDir, compilerOptions.baseUrl);
+  }
+  if (compilerOptions.paths && typeof compilerOptions.paths === 'object') {
+    settings.paths = compilerOptions.paths;
+    settings.pathsDefinedIn = configDir;
+  }
+
+  return settings;
+}
+
+function resolveExtendedConfig(extended: string, configDir: string): string | null {
+  if (extended.startsWith('.') || isAbsolute(extended)) {
+    const candidate = resolve(configDir, extended);
+    if (existsSync(candidate) && candidate.endsWith('.json')) {
+      return candidate;
+    }
+    return existsSync(`${candidate}.json`) ? `${candidate}.json` : null;
+  }
+
+  // Shared configs published as packages, e.g. "@tsconfig/node18/tsconfig.json"
+  const { packageName, subpath } = splitModuleSpecifier(extended);
+  const { packageDir } = locatePackageDirectory(packageName, configDir);
+  if (!packageDir) {
+    return null;
+  }
+
+  if (subpath === '.') {
+    return existsSync(join(packageDir, 'tsconfig.json')) ? join(packageDir, 'tsconfig.json') : null;
+  }
+
+  const candidate = join(packageDir, subpath);
+  if (existsSync(candidate)) {
+    return candidate;
+  }
+  return existsSync(`${candidate}.json`) ? `${candidate}.json` : null;
+}
+
+/**
+ * Pick the "paths" key that matches a specifier; exact keys win, then the longest prefix before "*"
+ */
+function matchPathPattern(specifier: string, patterns: string[]): { pattern: string; wildcard: string } | null {
+  let best: { pattern: string; wildcard: string; prefixLength: number } | null = null;
+
+  for (const pattern of patterns) {
+    const starIndex = pattern.indexOf('*');
+
+    if (starIndex === -1) {
+      if (pattern === specifier) {
+        return { pattern, wildcard: '' };
+      }
+      continue;
+    }
+
+    const prefix = pattern.slice(0, starIndex);
+    const suffix = pattern.slice(starIndex + 1);
+    if (specifier.length >= prefix.length + suffix.length && specifier.startsWith(prefix) && specifier.endsWith(suffix) &&
+        (!best || prefix.length > best.prefixLength)) {
+      best = { pattern, wildcard: specifier.slice(prefix.length, specifier.length - suffix.length), prefixLength: prefix.length };
+    }
+  }
+
+  return best ? { pattern: best.pattern, wildcard: best.wildcard } : null;
+}
+
+function findNearestFile(startDir: string, fileNames: string[]): string | null {
+  let currentDir = resolve(startDir);
+
+  while (true) {
+    for (const fileName of fileNames) {
+      const candidate = join(currentDir, fileName);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) {
+      return null;
+    }
+    currentDir = parentDir;
+  }
+}
+
+function definedOnly(settings: CompilerPathSettings): CompilerPathSettings {
+  return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,211 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join, dirname, resolve, sep } from 'path';
+
+type PackageReference = string | [string, string] | null; // [alias target name, reference] for aliased dependencies
+
+interface PnpPackage {
+  name: string | null;
+  reference: string | null;
+  location: string; // Absolute, with a trailing separator
+  dependencies: Map<string, PackageReference>;
+}
+
+/**
+ * Package locations and dependency edges from a Yarn Plug'n'Play manifest
+ */
+export interface PnpManifest {
+  manifestPath: string;
+  root: string;
+  enableTopLevelFallback: boolean;
+  fallbackExclusions: Set<string>; // "name@reference" of packages that may not use the fallback
+  fallbackPool: Map<string, PackageReference>;
+  packages: Map<string, PnpPackage>; // keyed by "name@reference"
+}
+
+/**
+ * Outcome of resolving a package name through a PnP manifest
+ */
+export interface PnpResolution {
+  packageDir: string | null;
+  issuer: string; // "name@reference" of the package the lookup was made from
+  reason?: string;
+}
+
+const MANIFEST_FILE_NAMES = ['.pnp.data.json', '.pnp.cjs', '.pnp.js'];
+
+const manifestCache = new Map<string, { mtimeMs: number; manifest: PnpManifest }>();
+
+/**
+ * Find the Plug'n'Play manifest governing a directory, if the project uses Yarn PnP
+ */
+export function findPnpManifest(startDir: string): PnpManifest | null {
+  let currentDir = resolve(startDir);
+
+  while (true) {
+    for (const fileName of MANIFEST_FILE_NAMES) {
+      const manifestPath = join(currentDir, fileName);
+      if (existsSync(manifestPath)) {
+        const manifest = loadPnpManifest(manifestPath);
+        if (manifest) {
+          return manifest;
+        }
+      }
+    }
+
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) {
+      return null;
+    }
+    currentDir = parentDir;
+  }
+}
+
+/**
+ * Resolve a package name to its directory the way the PnP runtime does: through the issuer's
+ * declared dependencies, then (when allowed) the top-level fallback pool
+ */
+export function resolvePnpPackage(manifest: PnpManifest, packageName: string, fromDir: string): PnpResolution {
+  const issuer = findIssuer(manifest, fromDir);
+  const issuerKey = locatorKey(issuer.name, issuer.reference);
+
+  let reference = issuer.dependencies.get(packageName);
+  if (issuer.dependencies.has(packageName) && reference === null) {
+    return { packageDir: null, issuer: issuerKey, reason: `'${packageName}' is an unmet peer dependency of ${issuerKey}` };
+  }
+
+  if (reference === undefined && manifest.enableTopLevelFallback && !manifest.fallbackExclusions.has(issuerKey)) {
+    reference = manifest.fallbackPool.get(packageName);
+  }
+
+  if (reference === undefined || reference === null) {
+    return { packageDir: null, issuer: issuerKey, reason: `${issuerKey} does not depend on '${packageName}'` };
+  }
+
+  const [name, ref] = Array.isArray(reference) ? reference : [packageName, reference];
+  const target = manifest.packages.get(locatorKey(name, ref));
+  if (!target) {
+    return { packageDir: null, issuer: issuerKey, reason: `${name}@${ref} is missing from ${manifest.manifestPath}` };
+  }
+
+  return { packageDir: target.location.slice(0, -1), issuer: issuerKey };
+}
+
+function loadPnpManifest(manifestPath: string): PnpManifest | null {
+  try {
+    const { mtimeMs } = statSync(manifestPath);
+    const cached = manifestCache.get(manifestPath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.manifest;
+    }
+
+    const state = readRuntimeState(manifestPath);
+    if (!state) {
+      return null;
+    }
+
+    const manifest = buildManifest(manifestPath, state);
+    manifestCache.set(manifestPath, { mtimeMs, manifest });
+    return manifest;
+  } catch (error) {
+    console.error(`Could not read Plug'n'Play manifest ${manifestPath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * `.pnp.data.json` holds the state as JSON; `.pnp.cjs` inlines the same JSON as a string literal
+ * assigned to RAW_RUNTIME_STATE. Both are read statically - the runtime is never executed.
+ */
+function readRuntimeState(manifestPath: string): any | null {
+  const content = readFileSync(manifestPath, 'utf-8');
+  if (manifestPath.endsWith('.json')) {
+    return JSON.parse(content);
+  }
+
+  const match = content.match(/RAW_RUNTIME_STATE\s*=\s*'((?:[^'\\]|\\[\s\S])*)'/);
+  return match && match[1] !== undefined ? JSON.parse(decodeStringLiteral(match[1])) : null;
+}
+
+function buildManifest(manifestPath: string, state: any): PnpManifest {
+  const root = dirname(manifestPath);
+  const packages = new Map<string, PnpPackage>();
+
+  for (const [name, references] of state.packageRegistryData || []) {
+    for (const [reference, info] of references || []) {
+      if (info.discardFromLookup) {
+        continue;
+      }
+      const location = resolve(root, info.packageLocation);
+      packages.set(locatorKey(name, reference), {
+        name,
+        reference,
+        location: location.endsWith(sep) ? location : location + sep,
+        dependencies: new Map(info.packageDependencies || []),
+      });
+    }
+  }
+
+  // The top-level locator's dependencies are always part of the fallback pool
+  const topLevel = packages.get(locatorKey(null, null));
+  const fallbackPool = new Map<string, PackageReference>([...(topLevel?.dependencies || []), ...(state.fallbackPool || [])]);
+
+  const fallbackExclusions = new Set<string>();
+  for (const [name, references] of state.fallbackExclusionList || []) {
+    for (const reference of references || []) {
+      fallbackExclusions.add(locatorKey(name, reference));
+    }
+  }
+
+  return {
+    manifestPath,
+    root,
+    enableTopLevelFallback: state.enableTopLevelFallback !== false,
+    fallbackExclusions,
+    fallbackPool,
+    packages,
+  };
+}
+
+/**
+ * The package whose location is the longest prefix of the directory making the request
+ */
+function findIssuer(manifest: PnpManifest, fromDir: string): PnpPackage {
+  const directory = resolve(fromDir) + sep;
+  let issuer: PnpPackage | null = null;
+
+  for (const pkg of manifest.packages.values()) {
+    if (!directory.startsWith(pkg.location)) {
+      continue;
+    }
+    // The top-level locator shares the root workspace's location; the workspace wins
+    if (!issuer || pkg.location.length > issuer.location.length ||
+        (pkg.location.length === issuer.location.length && issuer.name === null)) {
+      issuer = pkg;
+    }
+  }
+
+  return issuer || manifest.packages.get(locatorKey(null, null)) || {
+    name: null,
+    reference: null,
+    location: manifest.root + sep,
+    dependencies: new Map(),
+  };
+}
+
+function locatorKey(name: string | null, reference: string | null): string {
+  return name === null ? '<top-level>' : `${name}@${reference}`;
+}
+
+function decodeStringLiteral(body: string): string {
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', v: '\v', 0: '\0' };
+
+  return body.replace(/\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|\r\n|[\s\S])/g, (_, escape: string) => {
+    if (escape.length > 1 && (escape[0] === 'u' || escape[0] === 'x')) {
+      return String.fromCharCode(parseInt(escape.slice(1), 16));
+    }
+    if (escape === '\n' || escape === '\r\n') {
+      return ''; // line continuation
+    }
+    return escapes[escape] ?? escape;
+  });
+}
@@ -0,0 +1,181 @@
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, realpathSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join, resolve } from 'path';
+import { PythonManifestParser } from '../parsers/python-manifest.js';
+
+/**
+ * Which Python environment owns a project: an in-project `.venv`/`venv` (what uv, and Poetry or
+ * pipenv with in-project settings, create), the environment Poetry or pipenv keep in their own
+ * cache directory, an activated virtualenv or conda environment, and finally the `python3` on PATH.
+ */
+
+export type PythonEnvironmentManager = 'uv' | 'poetry' | 'pipenv' | 'conda' | 'virtualenv';
+
+export interface ProjectPythonEnvironment {
+  manager: PythonEnvironmentManager | null; // null for the interpreter on PATH
+  prefix: string | null; // The environment directory (sys.prefix)
+  interpreters: string[]; // Executables to try, in order
+  projectRoot: string;
+  source: string; // What identified the environment, e.g. `.venv/pyvenv.cfg` or `VIRTUAL_ENV`
+}
+
+const PROJECT_MARKERS = ['pyproject.toml', 'uv.lock', 'poetry.lock', 'Pipfile', 'Pipfile.lock', 'setup.py', 'setup.cfg', 'requirements.txt', '.venv', 'venv'];
+const IN_PROJECT_ENVIRONMENTS = ['.venv', 'venv', 'env', '.conda'];
+const SYSTEM_INTERPRETERS = ['python3', 'python'];
+
+export function detectPythonEnvironment(projectPath: string = process.cwd()): ProjectPythonEnvironment {
+  const projectRoot = findPythonProjectRoot(projectPath);
+  const manager = detectEnvironmentManager(projectRoot);
+  const environment = (prefix: string, owner: PythonEnvironmentManager, source: string): ProjectPythonEnvironment => ({
+    manager: owner,
+    prefix,
+    interpreters: getInterpreterPaths(prefix),
+    projectRoot,
+    source,
+  });
+
+  const inProject = [
+    ...(manager === 'uv' && process.env.UV_PROJECT_ENVIRONMENT ? [resolve(projectRoot, process.env.UV_PROJECT_ENVIRONMENT)] : []),
+    ...IN_PROJECT_ENVIRONMENTS.map(name => join(projectRoot, name)),
+  ];
+  for (const prefix of inProject) {
+    if (existsSync(join(prefix, 'pyvenv.cfg'))) {
+      return environment(prefix, manager ?? 'virtualenv', `${basename(prefix)}/pyvenv.cfg`);
+    }
+    if (existsSync(join(prefix, 'conda-meta'))) {
+      return environment(prefix, 'conda', `${basename(prefix)}/conda-meta`);
+    }
+  }
+
+  const managed = manager === 'poetry' ? findPoetryEnvironment(projectRoot) : manager === 'pipenv' ? findPipenvEnvironment(projectRoot) : null;
+  if (managed) {
+    return environment(managed, manager!, manager === 'poetry' ? 'poetry.lock' : 'Pipfile');
+  }
+
+  const virtualEnv = process.env.VIRTUAL_ENV;
+  if (virtualEnv && existsSync(join(virtualEnv, 'pyvenv.cfg'))) {
+    return environment(virtualEnv, 'virtualenv', 'VIRTUAL_ENV');
+  }
+  const condaPrefix = process.env.CONDA_PREFIX;
+  if (condaPrefix && existsSync(join(condaPrefix, 'conda-meta'))) {
+    return environment(condaPrefix, 'conda', 'CONDA_PREFIX');
+  }
+
+  return { manager: null, prefix: null, interpreters: SYSTEM_INTERPRETERS, projectRoot, source: 'PATH' };
+}
+
+/**
+ * e.g. "the project's Poetry environment (/home/me/.cache/pypoetry/virtualenvs/app-Xa3b9kQz-py3.11)"
+ */
+export function describePythonEnvironment(environment: ProjectPythonEnvironment): string {
+  const names: Record<PythonEnvironmentManager, string> = { uv: 'uv', poetry: 'Poetry', pipenv: 'pipenv', conda: 'conda', virtualenv: 'virtual' };
+  return environment.manager
+    ? `the project's ${names[environment.manager]} environment (${environment.prefix})`
+    : 'the Python interpreter on PATH';
+}
+
+/**
+ * Nearest directory, walking up, that looks like the root of a Python project
+ */
+export function findPythonProjectRoot(startDir: string): string {
+  let currentDir = resolve(startDir);
+
+  while (true) {
+    if (PROJECT_MARKERS.some(marker => existsSync(join(currentDir, marker)))) {
+      return currentDir;
+    }
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) {
+      return resolve(startDir);
+    }
+    currentDir = parentDir;
+  }
+}
+
+function detectEnvironmentManager(projectRoot: string): PythonEnvironmentManager | null {
+  if (existsSync(join(projectRoot, 'uv.lock'))) {
+    return 'uv';
+  }
+  if (existsSync(join(projectRoot, 'poetry.lock')) || PythonManifestParser.readToml(join(projectRoot, 'pyproject.toml'))?.tool?.poetry) {
+    return 'poetry';
+  }
+  if (existsSync(join(projectRoot, 'Pipfile.lock')) || existsSync(join(projectRoot, 'Pipfile'))) {
+    return 'pipenv';
+  }
+  return null;
+}
+
+function getInterpreterPaths(prefix: string): string[] {
+  const candidates = process.platform === 'win32'
+    ? [join(prefix, 'Scripts', 'python.exe'), join(prefix, 'python.exe')]
+    : [join(prefix, 'bin', 'python3'), join(prefix, 'bin', 'python')];
+  return candidates.filter(candidate => existsSync(candidate));
+}
+
+/**
+ * Poetry keeps environments in its cache as `{name}-{hash of the project path}-py{X.Y}` and records
+ * the active Python version of each in envs.toml
+ */
+function findPoetryEnvironment(projectRoot: string): string | null {
+  const pyproject = PythonManifestParser.readToml(join(projectRoot, 'pyproject.toml'));
+  const name = pyproject?.tool?.poetry?.name ?? pyproject?.project?.name;
+  if (typeof name !== 'string') {
+    return null;
+  }
+
+  const virtualenvs = process.env.POETRY_VIRTUALENVS_PATH || join(process.env.POETRY_CACHE_DIR || getPoetryCacheDir(), 'virtualenvs');
+  const sanitized = name.toLowerCase().replace(/[-_.]+/g, '-').replace(/[ $`!*@"\\\r\n\t]/g, '_').slice(0, 42);
+  const projectPath = process.platform === 'win32' ? realPath(projectRoot).toLowerCase() : realPath(projectRoot);
+  const envName = `${sanitized}-${createHash('sha256').update(projectPath).digest('base64url').slice(0, 8)}`;
+
+  const activeVersion = PythonManifestParser.readToml(join(virtualenvs, 'envs.toml'))?.[envName]?.minor;
+  if (activeVersion && existsSync(join(virtualenvs, `${envName}-py${activeVersion}`))) {
+    return join(virtualenvs, `${envName}-py${activeVersion}`);
+  }
+
+  const candidates = listDirectory(virtualenvs)
+    .filter(entry => entry.startsWith(`${envName}-py`))
+    .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+  return candidates.length > 0 ? join(virtualenvs, candidates[0]!) : null;
+}
+
+/**
+ * pipenv names environments `{project directory name}-{hash of the Pipfile path}`
+ */
+function findPipenvEnvironment(projectRoot: string): string | null {
+  const workonHome = process.env.WORKON_HOME || (process.platform === 'win32'
+    ? join(homedir(), '.virtualenvs')
+    : join(process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share'), 'virtualenvs'));
+  const sanitized = basename(projectRoot).replace(/[ &$`!*@"()[\]\\\r\n\t]/g, '_').slice(0, 42);
+  const hash = createHash('sha256').update(join(projectRoot, 'Pipfile')).digest().subarray(0, 6).toString('base64url');
+
+  const prefix = join(workonHome, `${sanitized}-${hash}`);
+  return existsSync(join(prefix, 'pyvenv.cfg')) ? prefix : null;
+}
+
+function getPoetryCacheDir(): string {
+  if (process.platform === 'win32') {
+    return join(process.env.LOCALAPPDATA || join(homedir(), 'AppData', 'Local'), 'pypoetry', 'Cache');
+  }
+  if (process.platform === 'darwin') {
+    return join(homedir(), 'Library', 'Caches', 'pypoetry');
+  }
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'pypoetry');
+}
+
+function realPath(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    return path;
+  }
+}
+
+function listDirectory(path: string): string[] {
+  try {
+    return readdirSync(path);
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,294 @@
+import { execFileSync } from 'child_process';
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { basename, dirname, isAbsolute, join, resolve } from 'path';
+
+/**
+ * Static view of what a Python interpreter can import. The interpreter is asked for sys.path
+ * once; every directory on it is then listed (never imported) for packages, namespace packages,
+ * single-file modules and compiled extensions, following `.pth` files the way `site` does.
+ */
+
+export type PythonModuleKind = 'package' | 'namespace' | 'module' | 'extension' | 'builtin';
+
+export interface PythonModuleLocation {
+  name: string;
+  kind: PythonModuleKind;
+  path: string | null; // Package directory or module file; null for modules compiled into the interpreter
+  searchPath: string | null; // The sys.path entry it was found in
+  stdlib: boolean;
+}
+
+export interface PythonEnvironment {
+  executable: string;
+  version: string; // e.g. 3.11.7
+  sysPath: string[]; // Absolute, in import order
+  stdlibPaths: string[];
+  builtinModules: string[];
+}
+
+export interface PythonModuleIndex {
+  modules: Map<string, PythonModuleLocation>; // top-level import name -> where it is imported from
+  sitePackages: string[];
+}
+
+const INTERPRETERS = ['python3', 'python'];
+const IMPORT_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const EXTENSION_MODULE = /^([A-Za-z_][A-Za-z0-9_]*)\.(?:[\w-]+\.)?(?:so|pyd)$/; // name.cpython-311-x86_64-linux-gnu.so, name.abi3.so, name.pyd
+
+// Typeshed as bundled in site-packages by mypy and jedi. Current typeshed keeps the standard library
+// in one stdlib/ directory with a VERSIONS file; copies from before 2021 split it by Python version.
+const TYPESHED_ROOTS = ['mypy/typeshed', 'jedi/third_party/typeshed'];
+const LEGACY_TYPESHED_STDLIB = ['stdlib/3.9', 'stdlib/3.7', 'stdlib/3', 'stdlib/2and3'];
+const LEGACY_TYPESHED_THIRD_PARTY = ['third_party/3', 'third_party/2and3'];
+
+// Standard library modules that are another module under a second name: `os` imports posixpath as os.path
+const STDLIB_ALIASES: Record<string, string> = { 'os.path': process.platform === 'win32' ? 'ntpath' : 'posixpath' };
+
+const ENVIRONMENT_SCRIPT = [
+  'import json, sys, sysconfig',
+  'paths = sysconfig.get_paths()',
+  'print(json.dumps({"executable": sys.executable, "version": ".".join(map(str, sys.version_info[:3])),',
+  '  "sysPath": sys.path, "stdlibPaths": [paths["stdlib"], paths["platstdlib"]], "builtinModules": list(sys.builtin_module_names)}))',
+].join('\n');
+
+const environmentCache = new Map<string, PythonEnvironment | null>();
+
+/**
+ * sys.path and friends of the first interpreter that runs, read in a single subprocess call and
+ * remembered for the life of the process
+ */
+export function getPythonEnvironment(interpreters: string[] = INTERPRETERS, cwd: string = process.cwd()): PythonEnvironment | null {
+  const cacheKey = `${interpreters.join('\0')}\0${cwd}`;
+  if (environmentCache.has(cacheKey)) {
+    return environmentCache.get(cacheKey)!;
+  }
+
+  let environment: PythonEnvironment | null = null;
+  for (const interpreter of interpreters) {
+    try {
+      const output = execFileSync(interpreter, ['-c', ENVIRONMENT_SCRIPT], { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'], timeout: 10000 });
+      const parsed = JSON.parse(output);
+      environment = {
+        ...parsed,
+        sysPath: (parsed.sysPath as string[]).map(entry => resolve(cwd, entry)), // '' is the working directory
+      };
+      break;
+    } catch {
+      // Not installed, or not a working interpreter: try the next one
+    }
+  }
+
+  environmentCache.set(cacheKey, environment);
+  return environment;
+}
+
+/**
+ * Index the top-level modules importable from the given search paths. As in Python, the first
+ * regular package or module wins, and namespace packages only count when nothing else matches.
+ */
+export function indexPythonModules(searchPaths: string[], options: { stdlibPaths?: string[]; builtinModules?: string[] } = {}): PythonModuleIndex {
+  const modules = new Map<string, PythonModuleLocation>();
+  const stdlibPaths = (options.stdlibPaths || []).map(path => resolve(path));
+  const isStdlib = (searchPath: string) => stdlibPaths.some(stdlib => searchPath === stdlib || searchPath.startsWith(join(stdlib, 'lib-dynload')));
+
+  for (const name of options.builtinModules || []) {
+    modules.set(name, { name, kind: 'builtin', path: null, searchPath: null, stdlib: true });
+  }
+
+  const visited = new Set<string>();
+  const sitePackages: string[] = [];
+  const pending = searchPaths.map(path => resolve(path));
+  while (pending.length > 0) {
+    const searchPath = pending.shift()!;
+    if (visited.has(searchPath)) {
+      continue;
+    }
+    visited.add(searchPath);
+
+    let entries: string[];
+    try {
+      entries = readdirSync(searchPath).sort();
+    } catch {
+      continue; // Missing directories and zip archives (python311.zip)
+    }
+    if (/[/\\](site|dist)-packages$/.test(searchPath)) {
+      sitePackages.push(searchPath);
+    }
+
+    const stdlib = isStdlib(searchPath);
+    const pthPaths: string[] = [];
+    for (const entry of entries) {
+      const location = describeEntry(searchPath, entry, stdlib);
+      const existing = location && modules.get(location.name);
+      if (location && (!existing || (existing.kind === 'namespace' && location.kind !== 'namespace'))) {
+        modules.set(location.name, location);
+      }
+      if (entry.endsWith('.pth')) {
+        pthPaths.push(...readPthFile(join(searchPath, entry), searchPath));
+      }
+    }
+
+    // `site` adds the directories listed in .pth files right after their site directory
+    pending.unshift(...pthPaths.filter(path => !visited.has(path)));
+  }
+
+  return { modules, sitePackages };
+}
+
+/**
+ * The file or package directory a dotted module name resolves to, e.g. `requests.adapters` ->
+ * .../site-packages/requests/adapters.py
+ */
+export function locatePythonModule(index: PythonModuleIndex, moduleName: string): string | null {
+  const alias = STDLIB_ALIASES[moduleName];
+  if (alias && index.modules.get(alias)?.stdlib) {
+    return locatePythonModule(index, alias);
+  }
+
+  const [topLevel, ...parts] = moduleName.split('.');
+  let path = index.modules.get(topLevel!)?.path ?? null;
+
+  for (const part of parts) {
+    if (!path || !isDirectory(path)) {
+      return null;
+    }
+    const entries = listDirectory(path);
+    const file = entries.find(entry => entry === `${part}.py` || entry.match(EXTENSION_MODULE)?.[1] === part);
+    path = entries.includes(part) && isDirectory(join(path, part))
+      ? join(path, part)
+      : file ? join(path, file) : null;
+  }
+  return path;
+}
+
+/**
+ * The file to read a module's interface from, in the order type checkers use (PEP 561): a
+ * `<package>-stubs` distribution, a `.pyi` next to the module, the inline annotations of a
+ * `py.typed` package, typeshed's stubs (as bundled with mypy or jedi), then the plain source.
+ * The standard library is read from the interpreter's own source, which matches its version where
+ * a bundled typeshed may not; typeshed only fills in for builtin and compiled modules.
+ */
+export function findPythonSourceFile(index: PythonModuleIndex, moduleName: string): string | null {
+  const [topLevel, ...parts] = moduleName.split('.');
+  const location = index.modules.get(topLevel!);
+
+  for (const siteDir of index.sitePackages) {
+    const stubs = findSourceFile(join(siteDir, `${topLevel}-stubs`, ...parts));
+    if (stubs) {
+      return stubs;
+    }
+  }
+
+  const path = locatePythonModule(index, moduleName);
+  const source = path && findSourceFile(isDirectory(path) ? path : join(dirname(path), basename(path).replace(/\..*$/, '')));
+  if (source?.endsWith('.pyi') || (source && location?.stdlib) || (source && location?.path && existsSync(join(location.path, 'py.typed')))) {
+    return source;
+  }
+  return findTypeshedFile(index, moduleName, location?.stdlib ?? false) ?? source ?? null;
+}
+
+/**
+ * Directories a .pth file adds to sys.path. Lines starting with `import` are code run at startup,
+ * which a static scan skips.
+ */
+export function readPthFile(pthFile: string, siteDir: string): string[] {
+  let content: string;
+  try {
+    content = readFileSync(pthFile, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const paths: string[] = [];
+  for (const line of content.split('\n').map(line => line.trim())) {
+    if (!line || line.startsWith('#') || /^import[ \t]/.test(line)) {
+      continue;
+    }
+    const path = isAbsolute(line) ? line : resolve(siteDir, line);
+    if (isDirectory(path)) {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
+
+function describeEntry(searchPath: string, entry: string, stdlib: boolean): PythonModuleLocation | null {
+  const path = join(searchPath, entry);
+
+  if (IMPORT_NAME.test(entry)) {
+    if (entry === '__pycache__' || !isDirectory(path)) {
+      return null;
+    }
+    const children = listDirectory(path);
+    if (children.some(child => /^__init__\.(py|pyc|pyi)$/.test(child) || /^__init__\.[\w-.]+\.(so|pyd)$/.test(child))) {
+      return { name: entry, kind: 'package', path, searchPath, stdlib };
+    }
+    // PEP 420: any directory is a namespace package, but only ones holding Python code are worth listing
+    if (children.some(child => /\.(py|pyi|so|pyd)$/.test(child) || IMPORT_NAME.test(child) && isDirectory(join(path, child)))) {
+      return { name: entry, kind: 'namespace', path, searchPath, stdlib };
+    }
+    return null;
+  }
+
+  const module = entry.match(/^([A-Za-z_][A-Za-z0-9_]*)\.pyc?$/);
+  if (module) {
+    return { name: module[1]!, kind: 'module', path, searchPath, stdlib };
+  }
+
+  const extension = entry.match(EXTENSION_MODULE);
+  if (extension) {
+    return { name: extension[1]!, kind: 'extension', path, searchPath, stdlib };
+  }
+  return null;
+}
+
+/**
+ * The newest typeshed layout wins over whichever copy comes first on sys.path
+ */
+function findTypeshedFile(index: PythonModuleIndex, moduleName: string, stdlib: boolean): string | null {
+  const typesheds = index.sitePackages.flatMap(siteDir => TYPESHED_ROOTS.map(root => join(siteDir, root)));
+  const directories = stdlib
+    ? [
+        ...typesheds.filter(typeshed => existsSync(join(typeshed, 'stdlib/VERSIONS'))).map(typeshed => join(typeshed, 'stdlib')),
+        ...typesheds.flatMap(typeshed => LEGACY_TYPESHED_STDLIB.map(dir => join(typeshed, dir))),
+      ]
+    : typesheds.flatMap(typeshed => LEGACY_TYPESHED_THIRD_PARTY.map(dir => join(typeshed, dir)));
+
+  for (const directory of directories) {
+    const stub = findSourceFile(join(directory, ...moduleName.split('.')));
+    if (stub?.endsWith('.pyi')) {
+      return stub;
+    }
+  }
+  return null;
+}
+
+/**
+ * Stubs before sources, as for a module `x`: x.pyi, x.py, x/__init__.pyi, x/__init__.py
+ */
+function findSourceFile(base: string): string | null {
+  const candidates = [`${base}.pyi`, `${base}.py`, join(base, '__init__.pyi'), join(base, '__init__.py')];
+  return candidates.find(candidate => {
+    try {
+      return statSync(candidate).isFile();
+    } catch {
+      return false;
+    }
+  }) ?? null;
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function listDirectory(path: string): string[] {
+  try {
+    return readdirSync(path);
+  } catch {
+    return [];
+  }
+}
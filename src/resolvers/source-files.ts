@@ -0,0 +1,76 @@
+import { join } from 'path';
+import { isFile, isDirectory, readTextFile } from '../utils/package-fs.js';
+
+/**
+ * Extensions tried, in order, when an import omits the file extension
+ */
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+/**
+ * TypeScript lets `./x.js` refer to `./x.ts` (and likewise for .mjs/.cjs/.jsx)
+ */
+const TS_SOURCE_FOR_JS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx', '.d.ts'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts', '.d.mts'],
+  '.cjs': ['.cts', '.d.cts'],
+};
+
+/**
+ * Resolve a path without (or with a JavaScript) extension to a real source file,
+ * applying extension and directory index rules: `x` -> `x.ts`, `x.js` -> `x.ts`, `x/` -> `x/index.ts`
+ */
+export function resolveSourceFile(basePath: string): string | null {
+  if (isFile(basePath)) {
+    return basePath;
+  }
+
+  for (const [jsExtension, tsExtensions] of Object.entries(TS_SOURCE_FOR_JS)) {
+    if (basePath.endsWith(jsExtension)) {
+      const stem = basePath.slice(0, -jsExtension.length);
+      for (const tsExtension of tsExtensions) {
+        if (isFile(stem + tsExtension)) {
+          return stem + tsExtension;
+        }
+      }
+    }
+  }
+
+  for (const extension of SOURCE_EXTENSIONS) {
+    if (isFile(basePath + extension)) {
+      return basePath + extension;
+    }
+  }
+
+  if (isDirectory(basePath)) {
+    const packageEntry = readDirectoryPackageEntry(basePath);
+    if (packageEntry) {
+      const entryFile = resolveSourceFile(join(basePath, packageEntry));
+      if (entryFile) {
+        return entryFile;
+      }
+    }
+
+    for (const extension of SOURCE_EXTENSIONS) {
+      const indexFile = join(basePath, `index${extension}`);
+      if (isFile(indexFile)) {
+        return indexFile;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A directory may carry its own package.json pointing at its entry file
+ */
+function readDirectoryPackageEntry(directory: string): string | null {
+  try {
+    const packageJson = JSON.parse(readTextFile(join(directory, 'package.json')));
+    const entry = packageJson.types || packageJson.typings || packageJson.main;
+    return typeof entry === 'string' ? entry : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,205 @@
+import * as ts from 'typescript';
+import { join } from 'path';
+import { isFile, readTextFile } from '../utils/package-fs.js';
+import { resolvePackageEntry } from './package-exports.js';
+import { locatePackageDirectory } from './module-resolver.js';
+
+/**
+ * Where the type declarations for an import come from
+ */
+export interface TypeDeclarationResolution {
+  file: string | null;
+  via: 'exports' | 'typesVersions' | 'types' | 'sibling' | '@types' | null;
+  typesPackage: string | undefined; // DefinitelyTyped package, when the package ships no types of its own
+  chain: string[];
+}
+
+export const DECLARATION_EXTENSION = /\.d\.[cm]?ts$/;
+
+/**
+ * The DefinitelyTyped package for a package name: "express" -> "@types/express", "@babel/core" -> "@types/babel__core"
+ */
+export function getTypesPackageName(packageName: string): string {
+  return `@types/${packageName.startsWith('@') ? packageName.slice(1).replace('/', '__') : packageName}`;
+}
+
+/**
+ * Resolve the declaration file TypeScript would use for `packageName` + `subpath`: the package's own
+ * types (exports "types" condition, typesVersions, types/typings, a .d.ts next to the runtime entry),
+ * then the matching @types package
+ */
+export function resolveTypeDeclarations(
+  packageName: string,
+  subpath: string,
+  fromDir: string,
+  conditions: string[]
+): TypeDeclarationResolution {
+  const chain: string[] = [];
+
+  const own = locatePackageDirectory(packageName, fromDir);
+  if (own.packageDir) {
+    const found = resolveFromPackage(own.packageDir, subpath, conditions);
+    if (found) {
+      chain.push(`${packageName} ships its own types (${found.via}) -> ${found.file}`);
+      return { file: found.file, via: found.via, typesPackage: undefined, chain };
+    }
+    chain.push(`${packageName} ships no type declarations for '${subpath}'`);
+  }
+
+  const typesPackage = getTypesPackageName(packageName);
+  const typesDir = locatePackageDirectory(typesPackage, fromDir).packageDir;
+  if (typesDir) {
+    const found = resolveFromPackage(typesDir, subpath, conditions);
+    if (found) {
+      chain.push(`${typesPackage} -> ${found.file}`);
+      return { file: found.file, via: '@types', typesPackage, chain };
+    }
+    chain.push(`${typesPackage} is installed but has no declarations for '${subpath}'`);
+  } else {
+    chain.push(`${typesPackage} is not installed`);
+  }
+
+  return { file: null, via: null, typesPackage, chain };
+}
+
+function resolveFromPackage(
+  packageDir: string,
+  subpath: string,
+  conditions: string[]
+): { file: string; via: NonNullable<TypeDeclarationResolution['via']> } | null {
+  let packageJson: any;
+  try {
+    packageJson = JSON.parse(readTextFile(join(packageDir, 'package.json')));
+  } catch {
+    return null;
+  }
+
+  if (packageJson.exports !== undefined) {
+    const entry = resolvePackageEntry(packageDir, packageJson, subpath, ['types', ...conditions]);
+    if (entry.exists && entry.file && DECLARATION_EXTENSION.test(entry.file)) {
+      return { file: entry.file, via: 'exports' };
+    }
+  }
+
+  const requested = subpath === '.'
+    ? stripDotSlash(packageJson.types || packageJson.typings || 'index.d.ts')
+    : stripDotSlash(subpath);
+
+  const typesVersionsTarget = matchTypesVersions(packageJson.typesVersions, requested);
+  if (typesVersionsTarget) {
+    const file = resolveDeclarationFile(join(packageDir, typesVersionsTarget));
+    if (file) {
+      return { file, via: 'typesVersions' };
+    }
+  }
+
+  const declared = resolveDeclarationFile(join(packageDir, requested));
+  if (declared) {
+    return { file: declared, via: 'types' };
+  }
+
+  // Declarations emitted next to the runtime entry point
+  const runtime = resolvePackageEntry(packageDir, packageJson, subpath, conditions);
+  if (runtime.exists && runtime.file) {
+    const sibling = resolveDeclarationFile(runtime.file);
+    if (sibling) {
+      return { file: sibling, via: 'sibling' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply the first "typesVersions" entry whose version range accepts the running TypeScript version
+ */
+function matchTypesVersions(typesVersions: unknown, requested: string): string | null {
+  if (!typesVersions || typeof typesVersions !== 'object') {
+    return null;
+  }
+
+  for (const [range, mappings] of Object.entries(typesVersions as Record<string, Record<string, string[]>>)) {
+    if (!satisfiesVersionRange(ts.version, range) || !mappings || typeof mappings !== 'object') {
+      continue;
+    }
+
+    for (const [pattern, targets] of Object.entries(mappings)) {
+      const starIndex = pattern.indexOf('*');
+      const target = Array.isArray(targets) ? targets[0] : undefined;
+      if (!target) {
+        continue;
+      }
+
+      if (starIndex === -1 && pattern === requested) {
+        return target;
+      }
+      const prefix = pattern.slice(0, starIndex);
+      const suffix = pattern.slice(starIndex + 1);
+      if (starIndex !== -1 && requested.startsWith(prefix) && requested.endsWith(suffix)) {
+        return target.replace('*', requested.slice(prefix.length, requested.length - suffix.length));
+      }
+    }
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Just the range syntax typesVersions uses in practice: "*" or space-separated comparators like ">=4.2 <5"
+ */
+function satisfiesVersionRange(version: string, range: string): boolean {
+  if (range.trim() === '*') {
+    return true;
+  }
+
+  return range.trim().split(/\s+/).every(comparator => {
+    const match = comparator.match(/^(>=|<=|>|<|=)?v?(\d+(?:\.\d+){0,2})$/);
+    if (!match || !match[2]) {
+      return false;
+    }
+    const comparison = compareVersions(version, match[2]);
+    switch (match[1]) {
+      case '>=': return comparison >= 0;
+      case '<=': return comparison <= 0;
+      case '>': return comparison > 0;
+      case '<': return comparison < 0;
+      default: return comparison === 0;
+    }
+  });
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split(/[.-]/).map(Number);
+  const right = b.split('.').map(Number);
+  for (let index = 0; index < right.length; index++) {
+    const difference = (left[index] || 0) - (right[index] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * `x` -> `x.d.ts` / `x/index.d.ts`; `x.js` -> `x.d.ts` (and .mjs/.cjs to .d.mts/.d.cts)
+ */
+export function resolveDeclarationFile(basePath: string): string | null {
+  const stem = basePath.replace(/\.(d\.)?[cm]?[jt]sx?$/, '');
+  const declarationExtension = basePath.endsWith('.mjs') || basePath.endsWith('.mts') ? '.d.mts'
+    : basePath.endsWith('.cjs') || basePath.endsWith('.cts') ? '.d.cts'
+    : '.d.ts';
+
+  const candidates = [
+    DECLARATION_EXTENSION.test(basePath) ? basePath : null,
+    stem + declarationExtension,
+    `${basePath}.d.ts`,
+    join(basePath, 'index.d.ts'),
+  ];
+
+  return candidates.find((candidate): candidate is string => candidate !== null && isFile(candidate)) || null;
+}
+
+function stripDotSlash(path: string): string {
+  return path.replace(/^\.\//, '');
+}
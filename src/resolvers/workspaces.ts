@@ -0,0 +1,278 @@
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { join, dirname, resolve, relative, sep } from 'path';
+import { splitModuleSpecifier, resolvePackageEntry } from './package-exports.js';
+import { detectModuleFormat, ModuleResolutionResult } from './module-resolver.js';
+
+export type WorkspaceManager = 'npm' | 'yarn' | 'pnpm';
+
+/**
+ * A package.json-bearing directory, either a workspace member or the package owning a file
+ */
+export interface WorkspacePackage {
+  name: string;
+  version: string | undefined;
+  dir: string;
+  packageJson: any;
+}
+
+/**
+ * A monorepo root and the member packages its workspace globs expand to
+ */
+export interface WorkspaceInfo {
+  root: string;
+  manager: WorkspaceManager;
+  configPath: string; // package.json with "workspaces" or pnpm-workspace.yaml
+  patterns: string[];
+  packages: WorkspacePackage[];
+}
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Walk up from a directory to the nearest workspace root (pnpm-workspace.yaml, or a package.json
+ * with a "workspaces" field) and enumerate its member packages
+ */
+export function findWorkspaceRoot(startDir: string): WorkspaceInfo | null {
+  let currentDir = resolve(startDir);
+
+  while (true) {
+    const pnpmConfig = join(currentDir, 'pnpm-workspace.yaml');
+    if (existsSync(pnpmConfig)) {
+      const patterns = parsePnpmWorkspacePatterns(readFileSync(pnpmConfig, 'utf-8'));
+      return createWorkspace(currentDir, 'pnpm', pnpmConfig, patterns);
+    }
+
+    const packageJsonPath = join(currentDir, 'package.json');
+    const packageJson = readPackageJson(packageJsonPath);
+    const patterns = packageJson ? readWorkspacesField(packageJson) : null;
+    if (patterns) {
+      return createWorkspace(currentDir, detectPackageManager(currentDir, packageJson), packageJsonPath, patterns);
+    }
+
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) {
+      return null;
+    }
+    currentDir = parentDir;
+  }
+}
+
+/**
+ * The package a file or directory belongs to: the nearest package.json above it
+ */
+export function findOwningPackage(startDir: string): WorkspacePackage | null {
+  let currentDir = resolve(startDir);
+
+  while (true) {
+    const packageJson = readPackageJson(join(currentDir, 'package.json'));
+    if (packageJson) {
+      return toWorkspacePackage(currentDir, packageJson);
+    }
+
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) {
+      return null;
+    }
+    currentDir = parentDir;
+  }
+}
+
+/**
+ * Expand workspace globs (`packages/*`, `apps/**`, `!packages/internal`) to package directories
+ */
+export function expandWorkspacePatterns(root: string, patterns: string[]): string[] {
+  const included = new Set<string>();
+  const excluded = patterns
+    .filter(pattern => pattern.startsWith('!'))
+    .map(pattern => globToRegExp(normalizePattern(pattern.slice(1))));
+
+  for (const pattern of patterns) {
+    if (!pattern.startsWith('!')) {
+      collectMatches(root, normalizePattern(pattern).split('/'), included);
+    }
+  }
+
+  return [...included]
+    .filter(dir => {
+      const relativeDir = relative(root, dir).split(sep).join('/');
+      return !excluded.some(regexp => regexp.test(relativeDir));
+    })
+    .sort();
+}
+
+/**
+ * Resolve a bare specifier against the workspace's own member packages, for members
+ * that are not (yet) linked into any node_modules directory
+ */
+export function resolveWorkspacePackage(specifier: string, workspace: WorkspaceInfo, conditions: string[]): ModuleResolutionResult | null {
+  const { packageName, subpath } = splitModuleSpecifier(specifier);
+  const member = workspace.packages.find(pkg => pkg.name === packageName);
+  if (!member) {
+    return null;
+  }
+
+  const entry = resolvePackageEntry(member.dir, member.packageJson, subpath, conditions);
+  const file = entry.exists && entry.file ? entry.file : null;
+
+  return {
+    specifier,
+    packageName,
+    packageDir: member.dir,
+    packageJson: member.packageJson,
+    file,
+    format: file ? detectModuleFormat(file) : 'unknown',
+    entry,
+    linker: null,
+    chain: [
+      `'${packageName}' is a ${workspace.manager} workspace package at ${member.dir}`,
+      entry.exists ? `${entry.via} -> ${entry.file}` : `${entry.via}: ${entry.reason}`,
+    ],
+  };
+}
+
+function createWorkspace(root: string, manager: WorkspaceManager, configPath: string, patterns: string[]): WorkspaceInfo {
+  const packages: WorkspacePackage[] = [];
+
+  for (const dir of expandWorkspacePatterns(root, patterns)) {
+    const packageJson = readPackageJson(join(dir, 'package.json'));
+    if (packageJson) {
+      packages.push(toWorkspacePackage(dir, packageJson));
+    }
+  }
+
+  return { root, manager, configPath, patterns, packages };
+}
+
+/**
+ * "workspaces" is either an array of globs or (yarn classic) an object with a "packages" array
+ */
+function readWorkspacesField(packageJson: any): string[] | null {
+  const workspaces = Array.isArray(packageJson.workspaces) ? packageJson.workspaces : packageJson.workspaces?.packages;
+  return Array.isArray(workspaces) ? workspaces.filter((pattern: unknown): pattern is string => typeof pattern === 'string') : null;
+}
+
+/**
+ * Extract the "packages" list from pnpm-workspace.yaml (block or flow sequence)
+ */
+function parsePnpmWorkspacePatterns(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '').trimEnd();
+    if (!line.trim() || line.trim().startsWith('#')) {
+      continue;
+    }
+
+    const keyMatch = line.match(/^(\S[^:]*):\s*(.*)$/);
+    if (keyMatch) {
+      inPackages = keyMatch[1] === 'packages';
+      const inlineValue = keyMatch[2] || '';
+      if (inPackages && inlineValue.startsWith('[')) {
+        patterns.push(...inlineValue.replace(/^\[|\]$/g, '').split(',').map(unquote).filter(Boolean));
+        inPackages = false;
+      }
+      continue;
+    }
+
+    const itemMatch = line.match(/^\s+-\s+(.+)$/);
+    if (inPackages && itemMatch) {
+      patterns.push(unquote(itemMatch[1] || ''));
+    }
+  }
+
+  return patterns;
+}
+
+function detectPackageManager(root: string, packageJson: any): WorkspaceManager {
+  const declared = typeof packageJson.packageManager === 'string' ? packageJson.packageManager.split('@')[0] : undefined;
+  if (declared === 'yarn' || declared === 'pnpm' || declared === 'npm') {
+    return declared;
+  }
+  return existsSync(join(root, 'yarn.lock')) ? 'yarn' : 'npm';
+}
+
+function collectMatches(dir: string, segments: string[], matches: Set<string>): void {
+  if (segments.length === 0) {
+    if (existsSync(join(dir, 'package.json'))) {
+      matches.add(dir);
+    }
+    return;
+  }
+
+  const [segment, ...rest] = segments as [string, ...string[]];
+
+  if (segment === '**') {
+    collectMatches(dir, rest, matches);
+    for (const child of listSubdirectories(dir)) {
+      collectMatches(join(dir, child), segments, matches);
+    }
+    return;
+  }
+
+  if (segment.includes('*')) {
+    const regexp = globToRegExp(segment);
+    for (const child of listSubdirectories(dir)) {
+      if (regexp.test(child)) {
+        collectMatches(join(dir, child), rest, matches);
+      }
+    }
+    return;
+  }
+
+  const next = join(dir, segment);
+  if (isDirectory(next)) {
+    collectMatches(next, rest, matches);
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+function listSubdirectories(dir: string): string[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRECTORIES.has(entry.name))
+      .map(entry => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function readPackageJson(packageJsonPath: string): any | null {
+  try {
+    return JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function toWorkspacePackage(dir: string, packageJson: any): WorkspacePackage {
+  return {
+    name: typeof packageJson.name === 'string' ? packageJson.name : relative(dirname(dir), dir),
+    version: typeof packageJson.version === 'string' ? packageJson.version : undefined,
+    dir,
+    packageJson,
+  };
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^['"]|['"]$/g, '');
+}
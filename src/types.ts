@@ -12,25 +12,56 @@ export const PackageInfoSchema = z.object({
   devDependencies: z.record(z.string()).optional(),
   installed: z.boolean(),
   path: z.string().optional(),
+  lockedVersion: z.string().optional(), // exact version pinned by the project's lockfile
+  direct: z.boolean().optional(), // declared by the project, as opposed to a transitive dependency
+  dependencyPath: z.array(z.string()).optional(), // direct dependency first, this package last
+  importNames: z.array(z.string()).optional(), // Python: top-level packages the distribution provides (Pillow -> PIL)
 });
 
-export const ModuleExportSchema = z.object({
+export const ParameterSchema = z.object({
   name: z.string(),
-  type: z.enum(['function', 'class', 'constant', 'type', 'interface', 'namespace']),
+  type: z.string(),
+  optional: z.boolean().default(false),
+  description: z.string().optional(),
+});
+
+export const SignatureSchema = z.object({
+  signature: z.string(),
+  description: z.string().optional(),
+  typeParameters: z.array(z.string()).optional(), // e.g. "T extends object = {}"
+  parameters: z.array(ParameterSchema),
+  returnType: z.string(),
+});
+
+const BaseModuleExportSchema = z.object({
+  name: z.string(),
+  type: z.enum(['function', 'class', 'constant', 'type', 'interface', 'namespace', 'constructor', 'method', 'property', 'accessor']),
   signature: z.string().optional(),
   description: z.string().optional(),
-  parameters: z.array(z.object({
-    name: z.string(),
-    type: z.string(),
-    optional: z.boolean().default(false),
-    description: z.string().optional(),
-  })).optional(),
+  typeParameters: z.array(z.string()).optional(),
+  parameters: z.array(ParameterSchema).optional(),
   returnType: z.string().optional(),
+  overloads: z.array(SignatureSchema).optional(), // every call (or construct) signature when there is more than one
+  definedIn: z.string().optional(), // file that declares the export, after following re-exports
+  static: z.boolean().optional(), // class members only
+  access: z.enum(['public', 'protected', 'private']).optional(), // class members; `#name` members are private
+  readonly: z.boolean().optional(),
 });
 
+// Class, namespace and object members nest as further exports, up to IntrospectModuleInput.maxDepth levels
+export type ModuleExport = z.infer<typeof BaseModuleExportSchema> & { members?: ModuleExport[] | undefined };
+type ModuleExportInput = z.input<typeof BaseModuleExportSchema> & { members?: ModuleExportInput[] | undefined };
+
+export const ModuleExportSchema: z.ZodType<ModuleExport, z.ZodTypeDef, ModuleExportInput> = BaseModuleExportSchema.extend({
+  members: z.lazy(() => z.array(ModuleExportSchema)).optional(),
+});
+
+export const ModuleFormatSchema = z.enum(['builtin', 'module', 'commonjs', 'json', 'addon', 'wasm', 'typescript', 'unknown']);
+
 export const ModuleInfoSchema = z.object({
   name: z.string(),
   path: z.string(),
+  format: ModuleFormatSchema.optional(),
   exports: z.array(ModuleExportSchema),
   submodules: z.array(z.string()).optional(),
   dependencies: z.array(z.string()).optional(),
@@ -44,12 +75,131 @@ export const DiscoveryResultSchema = z.object({
   timestamp: z.string(),
 });
 
+export const SpecifierValidationSchema = z.object({
+  kind: z.enum(['default', 'named', 'namespace']),
+  imported: z.string(),
+  local: z.string(),
+  typeOnly: z.boolean().optional(), // checked against type declarations rather than runtime exports
+  valid: z.boolean(),
+  verified: z.boolean(), // false when the module's exports could not be fully enumerated
+  reason: z.string().optional(),
+  suggestions: z.array(z.string()).optional(),
+});
+
+export const ModuleResolutionSchema = z.object({
+  subpath: z.string().optional(),
+  file: z.string().optional(),
+  via: z.enum(['exports', 'main', 'file', 'tsconfig-paths', 'baseUrl', 'package-imports', 'relative']),
+  mapping: z.object({
+    configPath: z.string(), // tsconfig/jsconfig or package.json that declared the alias
+    pattern: z.string(),
+    target: z.string(),
+  }).optional(),
+  matchedKey: z.string().optional(), // exports key or pattern that matched
+  conditions: z.array(z.string()).optional(), // exports conditions that led to the file
+  availableSubpaths: z.array(z.string()).optional(),
+  format: ModuleFormatSchema.optional(),
+  chain: z.array(z.string()).optional(), // resolution steps, in order
+  linker: z.enum(['node-modules', 'pnpm', 'pnp']).optional(), // package manager layout the package was found in
+  workspace: z.object({
+    root: z.string(),
+    manager: z.enum(['npm', 'yarn', 'pnpm']),
+    owner: z.string().optional(), // workspace package that owns the importing file
+    local: z.boolean(), // the import targets a member of the same workspace
+  }).optional(),
+});
+
+export const TypeDeclarationsSchema = z.object({
+  file: z.string().optional(),
+  via: z.enum(['exports', 'typesVersions', 'types', 'sibling', '@types']).optional(),
+  typesPackage: z.string().optional(), // DefinitelyTyped package the declarations come from (or would)
+});
+
+export const ValidationWarningSchema = z.object({
+  code: z.enum(['undeclared-dependency']),
+  message: z.string(),
+  dependencyPath: z.array(z.string()).optional(), // declared dependency first, the imported package last
+});
+
+export const SuggestionSchema = z.object({
+  name: z.string(),
+  score: z.number(), // confidence between 0 and 1
+});
+
+export const RiskSignalSchema = z.object({
+  kind: z.enum(['typo', 'padding', 'scope-impersonation', 'homoglyph']),
+  target: z.string(), // well-known or installed package the name imitates
+  detail: z.string(),
+});
+
+export const RiskAssessmentSchema = z.object({
+  level: z.enum(['low', 'medium', 'high']),
+  score: z.number(), // between 0 and 1
+  signals: z.array(RiskSignalSchema),
+  recommendation: z.string(),
+});
+
+export const RegistryPackageSchema = z.object({
+  name: z.string(),
+  version: z.string().optional(), // latest
+  description: z.string().optional(),
+  rank: z.number().optional(), // by downloads, 1 = most downloaded
+  modules: z.array(z.string()).optional(), // import names that differ from the package name (PyPI top-level modules, Java packages)
+});
+
 export const ValidationResultSchema = z.object({
   valid: z.boolean(),
   packageName: z.string(),
   modulePath: z.string().optional(),
   reason: z.string().optional(),
   suggestions: z.array(z.string()).optional(),
+  rankedSuggestions: z.array(SuggestionSchema).optional(), // package suggestions with their scores, best first
+  specifiers: z.array(SpecifierValidationSchema).optional(),
+  resolution: ModuleResolutionSchema.optional(),
+  types: TypeDeclarationsSchema.optional(), // declarations used for type-only specifiers
+  warnings: z.array(ValidationWarningSchema).optional(), // the import works today but is fragile
+  risk: RiskAssessmentSchema.optional(), // for packages that are not installed: how likely the name is a squat
+  packageStatus: z.enum(['installed', 'exists-in-registry', 'unknown']).optional(), // 'unknown' when no registry snapshot lists it
+  registry: RegistryPackageSchema.optional(), // the package's entry in the offline registry snapshot
+  installCommand: z.string().optional(),
+});
+
+export const ImportReportSchema = ValidationResultSchema.extend({
+  statement: z.string(), // as written in the code
+  line: z.number(), // 1-based
+  column: z.number(), // 1-based
+});
+
+export const CodeValidationResultSchema = z.object({
+  valid: z.boolean(), // every import in the code is valid
+  language: z.enum(['javascript', 'python', 'rust', 'go', 'java']),
+  reason: z.string().optional(),
+  summary: z.object({
+    total: z.number(),
+    valid: z.number(),
+    invalid: z.number(),
+  }),
+  imports: z.array(ImportReportSchema),
+});
+
+export const MemberUsageValidationSchema = z.object({
+  expression: z.string(), // e.g. "fs.readFileAsync", without call arguments
+  source: z.string(), // module the expression's root binding was imported from
+  members: z.array(z.string()), // properties accessed on the binding, in order
+  line: z.number(), // 1-based
+  column: z.number(), // 1-based
+  valid: z.boolean(),
+  verified: z.boolean(), // false when the accessed object's members could not be enumerated
+  reason: z.string().optional(),
+  suggestions: z.array(z.string()).optional(),
+  signature: z.string().optional(), // of the called function, when known
+});
+
+export const UsageValidationResultSchema = z.object({
+  valid: z.boolean(),
+  reason: z.string().optional(),
+  imports: z.array(ValidationResultSchema),
+  usages: z.array(MemberUsageValidationSchema),
 });
 
 // Tool input schemas
@@ -58,12 +208,14 @@ export const DiscoverPackagesInputSchema = z.object({
   searchTerm: z.string().optional(),
   includeDevDependencies: z.boolean().default(false),
   maxResults: z.number().min(1).max(100).default(50),
+  projectPath: z.string().optional(),
 });
 
 export const ValidateImportInputSchema = z.object({
   importStatement: z.string(),
   language: z.enum(['javascript', 'python', 'rust', 'go', 'java']).default('javascript'),
   projectPath: z.string().optional(),
+  importingFile: z.string().optional(), // File containing the import; relative imports resolve from here
 });
 
 export const IntrospectModuleInputSchema = z.object({
@@ -71,6 +223,22 @@ export const IntrospectModuleInputSchema = z.object({
   language: z.enum(['javascript', 'python', 'rust', 'go', 'java']).default('javascript'),
   includePrivate: z.boolean().default(false),
   maxDepth: z.number().min(1).max(5).default(2),
+  projectPath: z.string().optional(), // Directory the module is resolved from
+  sandbox: z.boolean().default(false), // Load the module in an isolated process when static analysis finds no exports
+});
+
+export const ValidateCodeInputSchema = z.object({
+  code: z.string(),
+  language: z.enum(['javascript', 'python', 'rust', 'go', 'java']).default('javascript'),
+  projectPath: z.string().optional(),
+  importingFile: z.string().optional(), // File the code belongs to; relative imports resolve from here
+});
+
+export const ValidateUsageInputSchema = z.object({
+  code: z.string(),
+  language: z.enum(['javascript']).default('javascript'), // Only the JavaScript engine traces member access
+  projectPath: z.string().optional(),
+  importingFile: z.string().optional(), // File the code belongs to; relative imports resolve from here
 });
 
 export const SearchAffordancesInputSchema = z.object({
@@ -82,14 +250,29 @@ export const SearchAffordancesInputSchema = z.object({
 
 // Type exports
 export type PackageInfo = z.infer<typeof PackageInfoSchema>;
-export type ModuleExport = z.infer<typeof ModuleExportSchema>;
+export type Parameter = z.infer<typeof ParameterSchema>;
+export type Signature = z.infer<typeof SignatureSchema>;
+export type ModuleFormat = z.infer<typeof ModuleFormatSchema>;
 export type ModuleInfo = z.infer<typeof ModuleInfoSchema>;
 export type DiscoveryResult = z.infer<typeof DiscoveryResultSchema>;
+export type SpecifierValidation = z.infer<typeof SpecifierValidationSchema>;
+export type ModuleResolution = z.infer<typeof ModuleResolutionSchema>;
+export type ValidationWarning = z.infer<typeof ValidationWarningSchema>;
+export type RegistryPackage = z.infer<typeof RegistryPackageSchema>;
+export type RiskSignal = z.infer<typeof RiskSignalSchema>;
+export type RiskAssessment = z.infer<typeof RiskAssessmentSchema>;
+export type Suggestion = z.infer<typeof SuggestionSchema>;
 export type ValidationResult = z.infer<typeof ValidationResultSchema>;
+export type ImportReport = z.infer<typeof ImportReportSchema>;
+export type CodeValidationResult = z.infer<typeof CodeValidationResultSchema>;
+export type MemberUsageValidation = z.infer<typeof MemberUsageValidationSchema>;
+export type UsageValidationResult = z.infer<typeof UsageValidationResultSchema>;
 
 export type DiscoverPackagesInput = z.infer<typeof DiscoverPackagesInputSchema>;
 export type ValidateImportInput = z.infer<typeof ValidateImportInputSchema>;
 export type IntrospectModuleInput = z.infer<typeof IntrospectModuleInputSchema>;
+export type ValidateCodeInput = z.infer<typeof ValidateCodeInputSchema>;
+export type ValidateUsageInput = z.infer<typeof ValidateUsageInputSchema>;
 export type SearchAffordancesInput = z.infer<typeof SearchAffordancesInputSchema>;
 
 // Cache types
@@ -110,4 +293,5 @@ export interface DiscoveryEngine {
   validateImport(input: ValidateImportInput): Promise<ValidationResult>;
   introspectModule(input: IntrospectModuleInput): Promise<ModuleInfo>;
   searchAffordances(input: SearchAffordancesInput): Promise<DiscoveryResult>;
+  validateUsage?(input: ValidateUsageInput): Promise<UsageValidationResult>; // Engines that can trace member access
 }
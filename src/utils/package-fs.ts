@@ -0,0 +1,223 @@
+import { closeSync, openSync, readFileSync, readSync, readdirSync, statSync } from 'fs';
+import { inflateRawSync } from 'zlib';
+import { sep } from 'path';
+
+/**
+ * File access for installed packages. Paths that point inside a zip archive
+ * (`.../.yarn/cache/lodash-npm-4.17.21-....zip/node_modules/lodash/package.json`),
+ * as produced by Yarn Plug'n'Play, are read straight from the archive.
+ */
+
+interface ZipEntry {
+  compression: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+interface ZipArchive {
+  mtimeMs: number;
+  files: Map<string, ZipEntry>;
+  directories: Set<string>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_CACHED_ARCHIVES = 64;
+
+const archiveCache = new Map<string, ZipArchive>();
+
+export function readTextFile(path: string): string {
+  const location = splitArchivePath(path);
+  if (!location) {
+    return readFileSync(path, 'utf-8');
+  }
+
+  const archive = loadArchive(location.archive);
+  const entry = archive?.files.get(location.inner);
+  if (!archive || !entry) {
+    throw new Error(`ENOENT: no such file in archive: ${path}`);
+  }
+  return readArchiveEntry(location.archive, entry).toString('utf-8');
+}
+
+export function isFile(path: string): boolean {
+  const location = splitArchivePath(path);
+  if (!location) {
+    try {
+      return statSync(path).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  return loadArchive(location.archive)?.files.has(location.inner) ?? false;
+}
+
+export function isDirectory(path: string): boolean {
+  const location = splitArchivePath(path);
+  if (!location) {
+    try {
+      return statSync(path).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  return location.inner === '' || (loadArchive(location.archive)?.directories.has(location.inner) ?? false);
+}
+
+export function pathExists(path: string): boolean {
+  return isFile(path) || isDirectory(path);
+}
+
+export function listDirectory(path: string): string[] {
+  const location = splitArchivePath(path);
+  if (!location) {
+    return readdirSync(path);
+  }
+
+  const archive = loadArchive(location.archive);
+  if (!archive) {
+    return [];
+  }
+
+  const prefix = location.inner === '' ? '' : `${location.inner}/`;
+  const names = new Set<string>();
+  for (const entryPath of [...archive.files.keys(), ...archive.directories]) {
+    if (entryPath.startsWith(prefix) && entryPath.length > prefix.length) {
+      names.add(entryPath.slice(prefix.length).split('/')[0]!);
+    }
+  }
+  return [...names].sort();
+}
+
+/**
+ * Split `/a/b.zip/c/d` into the archive on disk and the path inside it
+ */
+function splitArchivePath(path: string): { archive: string; inner: string } | null {
+  const normalized = path.split(sep).join('/');
+  const match = normalized.match(/^(.*?\.zip)(?:\/(.*))?$/);
+  if (!match || !match[1]) {
+    return null;
+  }
+
+  try {
+    if (!statSync(match[1]).isFile()) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  return { archive: match[1], inner: (match[2] || '').replace(/\/+$/, '') };
+}
+
+function loadArchive(archivePath: string): ZipArchive | null {
+  try {
+    const { mtimeMs } = statSync(archivePath);
+    const cached = archiveCache.get(archivePath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached;
+    }
+
+    const archive = readCentralDirectory(archivePath, mtimeMs);
+    archiveCache.delete(archivePath);
+    archiveCache.set(archivePath, archive);
+    if (archiveCache.size > MAX_CACHED_ARCHIVES) {
+      archiveCache.delete(archiveCache.keys().next().value!);
+    }
+    return archive;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Index a zip archive by reading its central directory (zip64 is not needed for package tarballs)
+ */
+function readCentralDirectory(archivePath: string, mtimeMs: number): ZipArchive {
+  const fd = openSync(archivePath, 'r');
+  try {
+    const size = statSync(archivePath).size;
+    const tailLength = Math.min(size, 0xffff + 22);
+    const tail = Buffer.alloc(tailLength);
+    readSync(fd, tail, 0, tailLength, size - tailLength);
+
+    let endOffset = -1;
+    for (let offset = tailLength - 22; offset >= 0; offset--) {
+      if (tail.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        endOffset = offset;
+        break;
+      }
+    }
+    if (endOffset === -1) {
+      throw new Error(`Not a zip archive: ${archivePath}`);
+    }
+
+    const entryCount = tail.readUInt16LE(endOffset + 10);
+    const directorySize = tail.readUInt32LE(endOffset + 12);
+    const directoryOffset = tail.readUInt32LE(endOffset + 16);
+    const directory = Buffer.alloc(directorySize);
+    readSync(fd, directory, 0, directorySize, directoryOffset);
+
+    const files = new Map<string, ZipEntry>();
+    const directories = new Set<string>();
+    let offset = 0;
+
+    for (let index = 0; index < entryCount && directory.readUInt32LE(offset) === CENTRAL_DIRECTORY_ENTRY; index++) {
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      if (name.endsWith('/')) {
+        directories.add(name.slice(0, -1));
+      } else {
+        files.set(name, {
+          compression: directory.readUInt16LE(offset + 10),
+          compressedSize: directory.readUInt32LE(offset + 20),
+          localHeaderOffset: directory.readUInt32LE(offset + 42),
+        });
+      }
+
+      // Archives do not always carry explicit directory entries
+      const segments = name.split('/');
+      for (let depth = 1; depth < segments.length; depth++) {
+        directories.add(segments.slice(0, depth).join('/'));
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return { mtimeMs, files, directories };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function readArchiveEntry(archivePath: string, entry: ZipEntry): Buffer {
+  const fd = openSync(archivePath, 'r');
+  try {
+    const header = Buffer.alloc(30);
+    readSync(fd, header, 0, 30, entry.localHeaderOffset);
+    if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry in ${archivePath}`);
+    }
+
+    const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = Buffer.alloc(entry.compressedSize);
+    readSync(fd, data, 0, entry.compressedSize, dataOffset);
+
+    switch (entry.compression) {
+      case 0:
+        return data;
+      case 8:
+        return inflateRawSync(data);
+      default:
+        throw new Error(`Unsupported zip compression method ${entry.compression} in ${archivePath}`);
+    }
+  } finally {
+    closeSync(fd);
+  }
+}
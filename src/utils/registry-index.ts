@@ -0,0 +1,164 @@
+import { readFileSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { gunzipSync } from 'zlib';
+import { RegistryPackage } from '../types.js';
+
+/**
+ * Offline package registry snapshots, so a package that is not installed can be told apart from
+ * one that does not exist at all. Each ecosystem has an optional file in the registry directory
+ * (IMPORT_GUARD_REGISTRY_DIR, or ~/.cache/ai-import-guard/registry):
+ *
+ *   npm.jsonl, pypi.jsonl, crates.jsonl, go.jsonl or maven.jsonl (optionally gzipped, `.jsonl.gz`)
+ *
+ * with one package per line: {"name": "date-fns", "version": "3.6.0", "description": "...", "rank": 41}.
+ * PyPI entries may list their top-level `modules` (`{"name": "PyYAML", "modules": ["yaml"]}`) and
+ * Maven entries their Java packages (`{"name": "org.apache.commons:commons-lang3", "modules": ["org.apache.commons.lang3"]}`).
+ */
+
+export type RegistryEcosystem = 'npm' | 'pypi' | 'crates' | 'go' | 'maven';
+
+interface RegistrySnapshot {
+  file: string;
+  mtimeMs: number;
+  packages: Map<string, RegistryPackage>; // by normalized name and module
+}
+
+const snapshotCache = new Map<RegistryEcosystem, RegistrySnapshot>();
+
+export function getRegistryDirectory(): string {
+  return process.env.IMPORT_GUARD_REGISTRY_DIR || join(homedir(), '.cache', 'ai-import-guard', 'registry');
+}
+
+/**
+ * The snapshot entry for a package, or for the module path it was imported by. Returns undefined
+ * when the ecosystem has no snapshot, so "not in the registry" and "no registry" stay distinct.
+ */
+export function lookupRegistryPackage(ecosystem: RegistryEcosystem, name: string): RegistryPackage | null | undefined {
+  const snapshot = loadSnapshot(ecosystem);
+  if (!snapshot) {
+    return undefined;
+  }
+
+  // Go import paths and Java packages can go deeper than the module or artifact that provides them
+  const separator = ecosystem === 'go' ? '/' : ecosystem === 'maven' ? '.' : null;
+  const parts = separator ? name.split(separator) : [name];
+  for (let length = parts.length; length > 0; length--) {
+    const found = snapshot.packages.get(normalizeName(ecosystem, parts.slice(0, length).join(separator ?? '')));
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+export const REGISTRY_NAMES: Record<RegistryEcosystem, string> = {
+  npm: 'npm',
+  pypi: 'PyPI',
+  crates: 'crates.io',
+  go: 'the Go module proxy',
+  maven: 'Maven Central',
+};
+
+/**
+ * Registry status of a package that is not installed, with the command that installs it when it exists
+ */
+export function checkRegistry(
+  ecosystem: RegistryEcosystem,
+  name: string,
+  tool?: string
+): { packageStatus: 'exists-in-registry' | 'unknown'; registry?: RegistryPackage; installCommand?: string } {
+  const entry = lookupRegistryPackage(ecosystem, name);
+  return entry
+    ? { packageStatus: 'exists-in-registry', registry: entry, installCommand: getInstallCommand(ecosystem, entry, tool) }
+    : { packageStatus: 'unknown' };
+}
+
+/**
+ * For Maven, whose build files have no add command, this is the dependency declaration to add
+ */
+export function getInstallCommand(ecosystem: RegistryEcosystem, entry: RegistryPackage, tool?: string): string {
+  switch (ecosystem) {
+    case 'npm':
+      return tool === 'pnpm' || tool === 'yarn' ? `${tool} add ${entry.name}` : `npm install ${entry.name}`;
+    case 'pypi':
+      return `pip install ${entry.name}`;
+    case 'crates':
+      return `cargo add ${entry.name}`;
+    case 'go':
+      return `go get ${entry.name}${entry.version ? `@${entry.version}` : ''}`;
+    case 'maven': {
+      const [groupId, artifactId] = entry.name.split(':');
+      return tool === 'gradle'
+        ? `implementation '${entry.name}${entry.version ? `:${entry.version}` : ''}'`
+        : `<dependency><groupId>${groupId}</groupId><artifactId>${artifactId}</artifactId>${entry.version ? `<version>${entry.version}</version>` : ''}</dependency>`;
+    }
+  }
+}
+
+function loadSnapshot(ecosystem: RegistryEcosystem): RegistrySnapshot | null {
+  const directory = getRegistryDirectory();
+  for (const file of [join(directory, `${ecosystem}.jsonl`), join(directory, `${ecosystem}.jsonl.gz`)]) {
+    let mtimeMs: number;
+    try {
+      mtimeMs = statSync(file).mtimeMs;
+    } catch {
+      continue;
+    }
+
+    const cached = snapshotCache.get(ecosystem);
+    if (cached && cached.file === file && cached.mtimeMs === mtimeMs) {
+      return cached;
+    }
+
+    try {
+      const snapshot: RegistrySnapshot = { file, mtimeMs, packages: parseSnapshot(ecosystem, file) };
+      snapshotCache.set(ecosystem, snapshot);
+      return snapshot;
+    } catch (error) {
+      console.error(`Could not read registry snapshot ${file}:`, error);
+      return null;
+    }
+  }
+  return null;
+}
+
+function parseSnapshot(ecosystem: RegistryEcosystem, file: string): Map<string, RegistryPackage> {
+  const raw = readFileSync(file);
+  const content = (file.endsWith('.gz') ? gunzipSync(raw) : raw).toString('utf-8');
+  const packages = new Map<string, RegistryPackage>();
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    let entry: RegistryPackage;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue; // A truncated download still leaves the rest of the snapshot usable
+    }
+    if (typeof entry?.name !== 'string') {
+      continue;
+    }
+
+    packages.set(normalizeName(ecosystem, entry.name), entry);
+    for (const module of entry.modules || []) {
+      const key = normalizeName(ecosystem, module);
+      if (!packages.has(key)) {
+        packages.set(key, entry);
+      }
+    }
+  }
+  return packages;
+}
+
+function normalizeName(ecosystem: RegistryEcosystem, name: string): string {
+  if (ecosystem === 'pypi') {
+    return name.toLowerCase().replace(/[-_.]+/g, '-'); // PEP 503
+  }
+  if (ecosystem === 'crates') {
+    return name.toLowerCase().replace(/_/g, '-'); // crates.io treats `-` and `_` as the same name
+  }
+  return ecosystem === 'npm' ? name : name.toLowerCase();
+}
@@ -0,0 +1,196 @@
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { z } from 'zod';
+import { ModuleExport, ModuleExportSchema, ModuleFormat } from '../types.js';
+
+/**
+ * Dynamic module inspection, isolated from the server process. The module is loaded in a
+ * separate Node.js process that runs under the permission model (read-only access to the
+ * package and the node_modules directories above it, no child processes, workers or native
+ * addons), with every networking API (net, tls, http, dns, dgram, fetch and the raw bindings
+ * behind them) disabled, an empty environment, a memory cap and a timeout.
+ */
+
+export interface SandboxOptions {
+  packageDir: string | null;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const MAX_OUTPUT_BYTES = 4 * 1024 * 1024;
+
+// Runs inside the sandbox: disable networking, load the module, describe its exports on fd 3
+const SANDBOX_SCRIPT = `
+import { writeSync } from 'node:fs';
+import { createRequire, syncBuiltinESMExports } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import net from 'node:net';
+import tls from 'node:tls';
+import dns from 'node:dns';
+import dgram from 'node:dgram';
+import http from 'node:http';
+import https from 'node:https';
+
+const deny = () => { throw new Error('Network access is disabled in the introspection sandbox'); };
+const denyMethods = (target, names) => {
+  for (const name of names) {
+    Object.defineProperty(target, name, { value: deny, writable: false, configurable: false });
+  }
+};
+// Every function of a module or prototype chain, so that newer APIs are covered too
+const functionsOf = target => {
+  const names = new Set();
+  for (let current = target; current && current !== Object.prototype && current !== Function.prototype; current = Object.getPrototypeOf(current)) {
+    for (const name of Object.getOwnPropertyNames(current)) {
+      if (name !== 'constructor' && typeof Object.getOwnPropertyDescriptor(current, name).value === 'function') {
+        names.add(name);
+      }
+    }
+  }
+  return [...names];
+};
+
+// Node's permission model does not cover the network, so every route to a socket is closed here
+denyMethods(net, ['connect', 'createConnection', 'createServer']);
+denyMethods(net.Socket.prototype, ['connect']);
+denyMethods(net.Server.prototype, ['listen']);
+denyMethods(tls, ['connect', 'createServer']);
+denyMethods(dgram, ['createSocket']);
+denyMethods(dgram.Socket.prototype, functionsOf(dgram.Socket.prototype));
+denyMethods(http, ['request', 'get', 'createServer']);
+denyMethods(https, ['request', 'get', 'createServer']);
+for (const target of [dns, dns.promises, dns.Resolver.prototype, dns.promises.Resolver.prototype]) {
+  denyMethods(target, functionsOf(target).filter(name => /^(lookup|resolve|reverse)/.test(name)));
+}
+// Raw bindings (tcp_wrap, udp_wrap, cares_wrap) would get around all of the above
+denyMethods(process, ['binding', '_linkedBinding']);
+globalThis.fetch = deny;
+globalThis.WebSocket = undefined;
+syncBuiltinESMExports();
+
+const describe = (name, value) => {
+  if (typeof value === 'function') {
+    const source = Function.prototype.toString.call(value);
+    if (/^class\\b/.test(source)) {
+      return { name, type: 'class', signature: name };
+    }
+    const params = source.match(/^[^(=]*\\(([^)]*)\\)/)?.[1] ?? source.match(/^(?:async\\s+)?([\\w$]+)\\s*=>/)?.[1] ?? '';
+    return { name, type: 'function', signature: name + '(' + params.replace(/\\s+/g, ' ').trim() + ')' };
+  }
+  if (value !== null && typeof value === 'object') {
+    return { name, type: 'namespace', signature: name };
+  }
+  return { name, type: 'constant', signature: name + ': ' + (value === null ? 'null' : typeof value) };
+};
+
+const [modulePath, format] = process.argv.slice(-2);
+const exports = [];
+if (format === 'commonjs') {
+  const value = createRequire(modulePath)(modulePath);
+  if (typeof value === 'function') {
+    exports.push(describe('default', value));
+  }
+  if (value !== null && (typeof value === 'object' || typeof value === 'function')) {
+    for (const key of Object.keys(value)) {
+      exports.push(describe(key, value[key]));
+    }
+  }
+} else {
+  const namespace = await import(pathToFileURL(modulePath).href);
+  for (const key of Object.keys(namespace)) {
+    exports.push(describe(key, namespace[key]));
+  }
+}
+
+writeSync(3, JSON.stringify(exports));
+process.exit(0);
+`;
+
+/**
+ * Load a module in the sandbox and return the shapes of its exports
+ */
+export function inspectModuleInSandbox(modulePath: string, format: ModuleFormat, options: SandboxOptions): Promise<ModuleExport[]> {
+  const permissionFlag = ['--permission', '--experimental-permission'].find(flag => process.allowedNodeEnvironmentFlags.has(flag));
+  if (!permissionFlag) {
+    // Node 18 has no permission model: the child would exit on the unknown flag every time
+    return Promise.reject(new Error(`The introspection sandbox requires Node.js >= 20 for its permission model, but this is Node.js ${process.version}`));
+  }
+  const readablePaths = getReadablePaths(modulePath, options.packageDir);
+
+  const args = [
+    permissionFlag,
+    ...readablePaths.map(path => `--allow-fs-read=${path}`),
+    '--no-addons',
+    '--max-old-space-size=256',
+    '--input-type=module',
+    '-e', SANDBOX_SCRIPT,
+    '--', modulePath, format,
+  ];
+
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(process.execPath, args, {
+      cwd: dirname(modulePath),
+      env: {},
+      stdio: ['ignore', 'ignore', 'pipe', 'pipe'],
+      timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      killSignal: 'SIGKILL',
+    });
+
+    const output: Buffer[] = [];
+    let outputBytes = 0;
+    let stderr = '';
+
+    child.stdio[3]?.on('data', (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_OUTPUT_BYTES) {
+        child.kill('SIGKILL');
+        return;
+      }
+      output.push(chunk);
+    });
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString('utf-8')).slice(-2000);
+    });
+
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      if (code !== 0) {
+        const cause = signal ? `was killed (${signal}), likely after the ${options.timeoutMs ?? DEFAULT_TIMEOUT_MS}ms timeout` : `exited with code ${code}`;
+        reject(new Error(`Sandboxed inspection of ${modulePath} ${cause}: ${lastErrorLine(stderr)}`));
+        return;
+      }
+
+      try {
+        // The output comes from untrusted code; accept nothing but well-formed export descriptions
+        resolvePromise(z.array(ModuleExportSchema).parse(JSON.parse(Buffer.concat(output).toString('utf-8'))));
+      } catch (error) {
+        reject(new Error(`Sandboxed inspection of ${modulePath} returned malformed output: ${error}`));
+      }
+    });
+  });
+}
+
+/**
+ * The package itself plus every node_modules directory its dependencies could be loaded from
+ */
+function getReadablePaths(modulePath: string, packageDir: string | null): string[] {
+  const root = resolve(packageDir || dirname(modulePath));
+  const paths = new Set([root]);
+
+  for (let currentDir = root; ; currentDir = dirname(currentDir)) {
+    if (basename(currentDir) === 'node_modules') {
+      paths.add(currentDir);
+    } else if (existsSync(join(currentDir, 'node_modules'))) {
+      paths.add(join(currentDir, 'node_modules'));
+    }
+    if (dirname(currentDir) === currentDir) {
+      return [...paths];
+    }
+  }
+}
+
+function lastErrorLine(stderr: string): string {
+  const lines = stderr.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('at ') && !line.includes('ExperimentalWarning'));
+  return lines.find(line => /Error|denied/i.test(line)) || lines.at(-1) || 'no error output';
+}
@@ -0,0 +1,152 @@
+import { Suggestion } from '../types.js';
+
+/**
+ * "Did you mean" ranking shared by every engine. A candidate's confidence (0-1) is the best of:
+ * - edit similarity (Damerau-Levenshtein, so `axois` is one transposition away from `axios`)
+ * - token overlap on `-`, `_`, `.`, `/` and `::` boundaries (`react-super-components` -> `react`)
+ * - containment of one name in the other (`readFileAsync` -> `readFile`)
+ * Scoped names are also compared without their scope against unscoped names, so `@types/lodahs`
+ * still finds `lodash`.
+ */
+
+export interface SuggestionOptions {
+  limit?: number; // Defaults to 5
+  minScore?: number; // Defaults to 0.6
+}
+
+const TOKEN_SEPARATORS = /[-_./:\s]+/;
+
+export function rankSuggestions(name: string, candidates: Iterable<string>, options: SuggestionOptions = {}): Suggestion[] {
+  const { limit = 5, minScore = 0.6 } = options;
+  const ranked: Suggestion[] = [];
+
+  for (const candidate of new Set(candidates)) {
+    if (candidate === name || candidate === '') {
+      continue;
+    }
+    const score = Math.round(scoreSimilarity(name, candidate) * 100) / 100;
+    if (score >= minScore) {
+      ranked.push({ name: candidate, score });
+    }
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score || a.name.length - b.name.length || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * Rank each group of candidates on its own and list the groups in order, so a weaker match from
+ * the project still comes before a widely used package. Names already suggested (ignoring case)
+ * are not repeated.
+ */
+export function rankSuggestionGroups(name: string, groups: Iterable<string>[], options: SuggestionOptions = {}): Suggestion[] {
+  const seen = new Set<string>();
+  const ranked: Suggestion[] = [];
+
+  for (const group of groups) {
+    const candidates = [...group].filter(candidate => !seen.has(candidate.toLowerCase()));
+    candidates.forEach(candidate => seen.add(candidate.toLowerCase()));
+    ranked.push(...rankSuggestions(name, candidates, options));
+  }
+
+  return ranked.slice(0, options.limit ?? 5);
+}
+
+/**
+ * Names of the ranked suggestions, best first
+ */
+export function suggestNames(name: string, candidates: Iterable<string>, options: SuggestionOptions = {}): string[] {
+  return rankSuggestions(name, candidates, options).map(suggestion => suggestion.name);
+}
+
+export function scoreSimilarity(name: string, candidate: string): number {
+  const a = name.toLowerCase();
+  const b = candidate.toLowerCase();
+  if (a === b || a.split(TOKEN_SEPARATORS).join('-') === b.split(TOKEN_SEPARATORS).join('-')) {
+    return 0.95; // Differs only in case or separators
+  }
+
+  let score = compareNames(a, b);
+
+  const scopeA = splitScope(a);
+  const scopeB = splitScope(b);
+  if (scopeA.scope === scopeB.scope && scopeA.scope) {
+    score = Math.max(score, compareNames(scopeA.name, scopeB.name));
+  } else if (!scopeA.scope !== !scopeB.scope) {
+    // The same name under another scope is a different package, so only unscoped names are compared this way
+    score = Math.max(score, compareNames(scopeA.name, scopeB.name) * 0.9);
+  }
+  return score;
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and adjacent transpositions
+ */
+export function damerauLevenshtein(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j]!, beforePrevious[j - 2]! + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+function compareNames(a: string, b: string): number {
+  return Math.max(editSimilarity(a, b), tokenSimilarity(a, b), containment(a, b));
+}
+
+function editSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 0 : 1 - damerauLevenshtein(a, b) / length;
+}
+
+/**
+ * Average of the Dice coefficient and how much of the candidate the name covers, with tokens
+ * matching when they are equal or close (`reqeust` matches `request`)
+ */
+function tokenSimilarity(name: string, candidate: string): number {
+  const nameTokens = name.split(TOKEN_SEPARATORS).filter(Boolean);
+  const candidateTokens = candidate.split(TOKEN_SEPARATORS).filter(Boolean);
+  if (nameTokens.length + candidateTokens.length <= 2) {
+    return 0; // Single words are covered by edit similarity
+  }
+
+  const unmatched = [...candidateTokens];
+  let matched = 0;
+  for (const token of nameTokens) {
+    const index = unmatched.findIndex(other => other === token || (Math.min(token.length, other.length) >= 4 && editSimilarity(token, other) >= 0.75));
+    if (index !== -1) {
+      unmatched.splice(index, 1);
+      matched++;
+    }
+  }
+
+  const dice = (2 * matched) / (nameTokens.length + candidateTokens.length);
+  const coverage = matched / candidateTokens.length;
+  return ((dice + coverage) / 2) * 0.9;
+}
+
+function containment(a: string, b: string): number {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length < 3 || !longer.includes(shorter)) {
+    return 0;
+  }
+  return 0.5 + 0.4 * (shorter.length / longer.length);
+}
+
+function splitScope(name: string): { scope?: string | undefined; name: string } {
+  const match = name.match(/^(@[^/]+)\/(.+)$/);
+  return match ? { scope: match[1], name: match[2]! } : { name };
+}
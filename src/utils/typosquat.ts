@@ -0,0 +1,180 @@
+import { createRequire } from 'module';
+import type PopularPackages from '../data/popular-packages.json';
+import { RiskAssessment, RiskSignal } from '../types.js';
+import { damerauLevenshtein } from './suggestions.js';
+
+/**
+ * Typosquatting and "slopsquatting" risk of a package name that is not installed. A name an
+ * agent made up can be registered by anyone, so it is compared with widely used packages (an
+ * offline corpus in data/popular-packages.json) and with the project's own packages for:
+ * - typos: one or two edits away from a known name
+ * - padding: a known name with words like `-pro`, `-utils` or `js-` added
+ * - scope impersonation: a look-alike npm scope, or a known package re-published under another scope
+ * - homoglyphs: digits or non-Latin letters standing in for look-alike letters
+ */
+
+// Loaded with require, as JSON import attributes are a syntax error before Node 18.20 and 20.10
+const popularPackages: typeof PopularPackages = createRequire(import.meta.url)('../data/popular-packages.json');
+
+export type RiskLanguage = keyof typeof popularPackages;
+
+/**
+ * The offline corpus of widely used package names for a language
+ */
+export function getPopularPackages(language: RiskLanguage): string[] {
+  return popularPackages[language];
+}
+
+const PADDING_WORDS = new Set([
+  'api', 'cli', 'client', 'core', 'dev', 'easy', 'extra', 'fast', 'fixed', 'get', 'go', 'helper', 'helpers', 'js', 'lib', 'new',
+  'next', 'node', 'official', 'plus', 'pro', 'py', 'python', 'real', 'rs', 'rust', 'sdk', 'secure', 'simple', 'super', 'the',
+  'tool', 'tools', 'ts', 'util', 'utils', 'v2',
+]);
+
+const HOMOGLYPHS: [RegExp, string][] = [
+  [/0/g, 'o'], [/1/g, 'l'], [/3/g, 'e'], [/5/g, 's'], [/rn/g, 'm'], [/vv/g, 'w'],
+  // Cyrillic and Greek letters that render like Latin ones
+  [/[аα]/g, 'a'], [/[еε]/g, 'e'], [/[оο]/g, 'o'], [/[рρ]/g, 'p'], [/с/g, 'c'], [/[хχ]/g, 'x'], [/у/g, 'y'], [/[іι]/g, 'i'],
+  [/ј/g, 'j'], [/ѕ/g, 's'], [/[кκ]/g, 'k'], [/[нη]/g, 'n'], [/[тτ]/g, 't'], [/[мμ]/g, 'm'], [/[вβ]/g, 'b'],
+];
+
+const SIGNAL_WEIGHTS: Record<RiskSignal['kind'], number> = {
+  homoglyph: 0.9,
+  'scope-impersonation': 0.8,
+  typo: 0.8,
+  padding: 0.7,
+};
+
+export function assessPackageRisk(packageName: string, language: RiskLanguage, knownPackages: Iterable<string> = []): RiskAssessment {
+  const normalize = language === 'python'
+    ? (name: string) => name.toLowerCase().replace(/[-_.]+/g, '-') // PEP 503
+    : (name: string) => name.toLowerCase();
+
+  const name = normalize(packageName);
+  const popular = new Set(popularPackages[language].map(normalize));
+  const known = new Set([...popular, ...[...knownPackages].map(normalize)]);
+  known.delete(name);
+
+  if (popular.has(name)) {
+    return {
+      level: 'low',
+      score: 0,
+      signals: [],
+      recommendation: `'${packageName}' is a widely used package; make sure it is the one you meant before adding it to the project`,
+    };
+  }
+
+  // One signal per imitated package, the most specific first (`angular-core` drops a scope rather than making typos)
+  const signals = [
+    ...findHomoglyphs(packageName, name, known),
+    ...findScopeImpersonation(name, known),
+    ...findTypos(name, known),
+    ...findPadding(name, known),
+  ].filter((signal, index, all) => all.findIndex(other => other.target === signal.target) === index);
+  if (signals.length === 0) {
+    return {
+      level: 'low',
+      score: 0.2,
+      signals,
+      recommendation: `Do not install '${packageName}' without review: it is not a widely used package, and a name that was only suggested may have been registered by anyone`,
+    };
+  }
+
+  const weights = signals.map(signal => SIGNAL_WEIGHTS[signal.kind]).sort((a, b) => b - a);
+  const score = Math.min(1, Math.round((weights[0]! + 0.05 * (weights.length - 1)) * 100) / 100);
+  const targets = [...new Set(signals.map(signal => `'${signal.target}'`))];
+  return {
+    level: score >= 0.75 ? 'high' : score >= 0.5 ? 'medium' : 'low',
+    score,
+    signals,
+    recommendation: `Do not install '${packageName}' without review: it imitates ${targets.join(', ')}, a name squatters register to catch mistaken installs. Did you mean ${targets[0]}?`,
+  };
+}
+
+function findHomoglyphs(original: string, name: string, known: Set<string>): RiskSignal[] {
+  const skeleton = toSkeleton(name);
+  const signals: RiskSignal[] = [];
+  for (const target of known) {
+    if (toSkeleton(target) === skeleton) {
+      signals.push({ kind: 'homoglyph', target, detail: `'${original}' spells '${target}' with look-alike characters` });
+    }
+  }
+  if (signals.length === 0 && /[^\x00-\x7f]/.test(original)) {
+    return [{ kind: 'homoglyph', target: skeleton, detail: `'${original}' contains non-ASCII characters` }];
+  }
+  return signals;
+}
+
+function findScopeImpersonation(name: string, known: Set<string>): RiskSignal[] {
+  const signals: RiskSignal[] = [];
+  const scoped = name.match(/^(@[^/]+)\/(.+)$/);
+
+  for (const target of known) {
+    const targetScoped = target.match(/^(@[^/]+)\/(.+)$/);
+    if (scoped && targetScoped) {
+      // `@angu1ar/core`, `@angulr/core`
+      const [, scope, bare] = scoped;
+      const [, targetScope, targetBare] = targetScoped;
+      if (scope !== targetScope && bare === targetBare && damerauLevenshtein(scope!, targetScope!) <= 2 && targetScope!.length >= 4) {
+        signals.push({ kind: 'scope-impersonation', target, detail: `'${scope}' imitates the '${targetScope}' scope` });
+      }
+    } else if (scoped && !targetScoped && scoped[2] === target && scoped[1] !== '@types') {
+      // `@official/axios`
+      signals.push({ kind: 'scope-impersonation', target, detail: `'${name}' re-publishes the name '${target}' under the '${scoped[1]}' scope` });
+    } else if (!scoped && targetScoped && name === `${targetScoped[1]!.slice(1)}-${targetScoped[2]}`) {
+      // `angular-core`
+      signals.push({ kind: 'scope-impersonation', target, detail: `'${name}' drops the scope of '${target}'` });
+    }
+  }
+  return signals;
+}
+
+function findTypos(name: string, known: Set<string>): RiskSignal[] {
+  if (name.length < 4) {
+    return [];
+  }
+
+  const signals: RiskSignal[] = [];
+  for (const target of known) {
+    const maxDistance = Math.min(name.length, target.length) >= 8 ? 2 : 1;
+    const distance = Math.abs(name.length - target.length) <= maxDistance ? damerauLevenshtein(name, target) : Infinity;
+    if (distance <= maxDistance && toSkeleton(name) !== toSkeleton(target)) {
+      signals.push({ kind: 'typo', target, detail: `'${name}' is ${distance} edit${distance === 1 ? '' : 's'} away from '${target}'` });
+    }
+  }
+  return signals;
+}
+
+/**
+ * Strip padding words from either end, one at a time, until a known name is left
+ */
+function findPadding(name: string, known: Set<string>): RiskSignal[] {
+  const scope = name.match(/^@[^/]+\//)?.[0] ?? '';
+  const words = name.slice(scope.length).split(/([-_.])/);
+  const added: string[] = [];
+
+  // words alternates name parts and separators: ['axios', '-', 'pro', '-', 'client']
+  while (words.length > 1) {
+    const last = words[words.length - 1]!;
+    const first = words[0]!;
+    if (PADDING_WORDS.has(last)) {
+      added.unshift(`${words[words.length - 2]}${last}`);
+      words.splice(-2);
+    } else if (PADDING_WORDS.has(first) && !scope) {
+      added.unshift(`${first}${words[1]}`);
+      words.splice(0, 2);
+    } else {
+      break;
+    }
+
+    const target = `${scope}${words.join('')}`;
+    if (known.has(target)) {
+      return [{ kind: 'padding', target, detail: `'${name}' is '${target}' with ${added.map(word => `'${word}'`).join(' and ')} added` }];
+    }
+  }
+  return [];
+}
+
+function toSkeleton(name: string): string {
+  return HOMOGLYPHS.reduce((skeleton, [pattern, replacement]) => skeleton.replace(pattern, replacement), name);
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { CacheManager } from '../src/cache.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { ASTParser } from '../src/parsers/ast-parser.js';
+import { DeclarationParser } from '../src/parsers/declaration-parser.js';
+import { ModuleExport } from '../src/types.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+function member(exp: ModuleExport | undefined, name: string, isStatic = false): ModuleExport | undefined {
+  return exp?.members?.find(candidate => candidate.name === name && !!candidate.static === isStatic);
+}
+
+describe('class, namespace and object members', () => {
+  let root: string;
+  let engine: JavaScriptDiscoveryEngine;
+
+  beforeAll(() => {
+    root = createFixtureDir('class-members');
+    engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    writeFiles(root, {
+      'package.json': JSON.stringify({ name: 'app', dependencies: { widgets: '1.0.0', plain: '1.0.0' } }),
+      'node_modules/widgets/package.json': JSON.stringify({ name: 'widgets', version: '1.0.0', main: 'index.js', types: 'index.d.ts' }),
+      'node_modules/widgets/index.js': '',
+      'node_modules/widgets/index.d.ts': [
+        'declare class Base { dispose(): void; }',
+        'export declare class Widget<T> extends Base {',
+        '  constructor(name: string);',
+        '  constructor(name: string, size: number);',
+        '  /** Render into a target */',
+        '  render(target: T): string;',
+        '  static create(): Widget<string>;',
+        '  protected layout(): void;',
+        '  private secret;',
+        '  readonly id: number;',
+        '  get size(): number;',
+        '  set size(value: number);',
+        '  get label(): string;',
+        '  _internal(): void;',
+        '}',
+        'export declare namespace util {',
+        '  function pick(value: object): object;',
+        '}',
+        'export declare const config: { retries: number; nested: { depth: number } };',
+      ].join('\n'),
+      'node_modules/plain/package.json': JSON.stringify({ name: 'plain', version: '1.0.0', main: 'index.js' }),
+      'node_modules/plain/index.js': [
+        'export class Store {',
+        '  #cache = new Map();',
+        '  static open(path) {}',
+        '  constructor(path, options) {}',
+        '  get(key) {}',
+        '  get size() { return 0; }',
+        '  #evict() {}',
+        '  _flush() {}',
+        '}',
+        'export const helpers = { format(value, pattern) {}, retry: (fn) => fn, limits: { max: 10 } };',
+      ].join('\n'),
+      'src/service.ts': [
+        'export class Service {',
+        '  constructor(private readonly url: string, public retries?: number) {}',
+        '  static instance?: Service;',
+        '  protected request(path: string): Promise<string> { return Promise.resolve(path); }',
+        '  #token = "";',
+        '}',
+        'export namespace Api {',
+        '  export function get(path: string): string { return path; }',
+        '  export namespace Admin { export const role = "admin"; }',
+        '  function hidden(): void {}',
+        '}',
+      ].join('\n'),
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('describes constructors, static and inherited members, accessors and access modifiers from declarations', () => {
+    const exports = DeclarationParser.parseModule(join(root, 'node_modules/widgets/index.d.ts'), { memberDepth: 2 });
+    const widget = exports.find(exp => exp.name === 'Widget');
+
+    expect(member(widget, 'constructor')).toMatchObject({ type: 'constructor', signature: 'new Widget<T>(name: string): Widget<T>' });
+    expect(member(widget, 'constructor')?.overloads).toHaveLength(2);
+    expect(member(widget, 'render')).toMatchObject({
+      type: 'method',
+      signature: 'render(target: T): string',
+      description: 'Render into a target',
+      static: false,
+      access: 'public',
+    });
+    expect(member(widget, 'create', true)).toMatchObject({ type: 'method', signature: 'create(): Widget<string>' });
+    expect(member(widget, 'layout')?.access).toBe('protected');
+    expect(member(widget, 'secret')?.access).toBe('private');
+    expect(member(widget, 'id')).toMatchObject({ type: 'property', signature: 'id: number', readonly: true });
+    expect(member(widget, 'size')).toMatchObject({ type: 'accessor', signature: 'get size(): number; set size(value: number)' });
+    expect(member(widget, 'label')).toMatchObject({ type: 'accessor', readonly: true });
+    expect(member(widget, 'dispose')).toMatchObject({ type: 'method', signature: 'dispose(): void' });
+
+    const config = exports.find(exp => exp.name === 'config');
+    expect(member(config, 'retries')?.signature).toBe('retries: number');
+    expect(member(member(config, 'nested'), 'depth')?.signature).toBe('depth: number');
+    expect(member(exports.find(exp => exp.name === 'util'), 'pick')?.signature).toBe('pick(value: object): object');
+  });
+
+  it('stops at the requested member depth', () => {
+    const exports = DeclarationParser.parseModule(join(root, 'node_modules/widgets/index.d.ts'), { memberDepth: 1 });
+    const config = exports.find(exp => exp.name === 'config');
+
+    expect(member(config, 'nested')).toBeDefined();
+    expect(member(config, 'nested')?.members).toBeUndefined();
+    expect(DeclarationParser.parseModule(join(root, 'node_modules/widgets/index.d.ts')).every(exp => !exp.members)).toBe(true);
+  });
+
+  it('describes class and object members of JavaScript sources', async () => {
+    const { exports } = await ASTParser.parseFile(join(root, 'node_modules/plain/index.js'), { memberDepth: 2 });
+    const store = exports.find(exp => exp.name === 'Store');
+    const helpers = exports.find(exp => exp.name === 'helpers');
+
+    expect(member(store, 'constructor')?.signature).toBe('new Store(path, options)');
+    expect(member(store, 'open', true)?.signature).toBe('open(path)');
+    expect(member(store, 'get')).toMatchObject({ type: 'method', signature: 'get(key)' });
+    expect(member(store, 'size')).toMatchObject({ type: 'accessor', signature: 'get size()', readonly: true });
+    expect(member(store, '#cache')?.access).toBe('private');
+    expect(member(store, '#evict')?.access).toBe('private');
+    expect(member(helpers, 'format')?.signature).toBe('format(value, pattern)');
+    expect(member(helpers, 'retry')?.signature).toBe('retry(fn)');
+    expect(member(member(helpers, 'limits'), 'max')?.type).toBe('property');
+  });
+
+  it('nests TypeScript namespace members instead of listing them as module exports', async () => {
+    const { exports } = await ASTParser.parseFile(join(root, 'src/service.ts'), { memberDepth: 2 });
+    const service = exports.find(exp => exp.name === 'Service');
+    const api = exports.find(exp => exp.name === 'Api');
+
+    expect(exports.map(exp => exp.name).sort()).toEqual(['Api', 'Service']);
+    expect(member(service, 'url')).toMatchObject({ type: 'property', signature: 'url: string', access: 'private', readonly: true });
+    expect(member(service, 'retries')?.signature).toBe('retries?: number');
+    expect(member(service, 'instance', true)?.signature).toBe('instance?: Service');
+    expect(member(service, 'request')).toMatchObject({ access: 'protected', returnType: 'Promise<string>' });
+    expect(member(api, 'get')?.signature).toBe('get(path: string): string');
+    expect(member(member(api, 'Admin'), 'role')).toBeDefined();
+    expect(member(api, 'hidden')).toBeUndefined();
+  });
+
+  it('hides private members unless includePrivate is set and honors maxDepth', async () => {
+    const introspect = (moduleName: string, includePrivate: boolean, maxDepth: number) =>
+      engine.introspectModule({ moduleName, language: 'javascript', includePrivate, maxDepth, projectPath: root, sandbox: false });
+
+    const widget = (await introspect('widgets', false, 2)).exports.find(exp => exp.name === 'Widget');
+    expect(widget?.members?.map(exp => exp.name)).not.toContain('secret');
+    expect(widget?.members?.map(exp => exp.name)).not.toContain('_internal');
+    expect(member(widget, 'layout')).toBeDefined();
+
+    const store = (await introspect('plain', false, 2)).exports.find(exp => exp.name === 'Store');
+    expect(store?.members?.map(exp => exp.name)).toEqual(['open', 'constructor', 'get', 'size']);
+
+    const privateStore = (await introspect('plain', true, 2)).exports.find(exp => exp.name === 'Store');
+    expect(privateStore?.members?.map(exp => exp.name)).toContain('#evict');
+    expect(privateStore?.members?.map(exp => exp.name)).toContain('_flush');
+
+    const shallow = await introspect('widgets', false, 1);
+    expect(shallow.exports.every(exp => !exp.members)).toBe(true);
+  });
+});
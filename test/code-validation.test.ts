@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { CacheManager } from '../src/cache.js';
+import { validateCode } from '../src/engines/code-validation.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { ImportScanner } from '../src/parsers/import-scanner.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('import scanner', () => {
+  const scan = (code: string, language: Parameters<typeof ImportScanner.scan>[1]) =>
+    ImportScanner.scan(code, language).map(({ statement, module, local, line, column }) => ({ statement, module, local, line, column }));
+
+  it('finds multi-line, continued and relative Python imports, ignoring comments and strings', () => {
+    expect(scan([
+      'import os, sys as system',
+      'from typing import (',
+      '    Any,',
+      '    Optional,  # trailing comment',
+      ')',
+      '# import commented',
+      'text = "import quoted"',
+      'from a.b \\',
+      '    import c',
+      'if True: import json; from . import sibling',
+    ].join('\n'), 'python')).toEqual([
+      { statement: 'import os', module: 'os', local: false, line: 1, column: 1 },
+      { statement: 'import sys', module: 'sys', local: false, line: 1, column: 1 },
+      { statement: 'from typing import Any, Optional', module: 'typing', local: false, line: 2, column: 1 },
+      { statement: 'from a.b import c', module: 'a.b', local: false, line: 8, column: 1 },
+      { statement: 'import json', module: 'json', local: false, line: 10, column: 10 },
+      { statement: 'from . import sibling', module: '.', local: true, line: 10, column: 23 },
+    ]);
+  });
+
+  it('splits Go import blocks into one import per path', () => {
+    expect(scan('package main\n\nimport "fmt"\nimport (\n\t"os"\n\tlog "github.com/sirupsen/logrus" // logging\n)\n', 'go')).toEqual([
+      { statement: 'import "fmt"', module: 'fmt', local: false, line: 3, column: 1 },
+      { statement: 'import "os"', module: 'os', local: false, line: 5, column: 2 },
+      { statement: 'import log "github.com/sirupsen/logrus"', module: 'github.com/sirupsen/logrus', local: false, line: 6, column: 2 },
+    ]);
+  });
+
+  it('finds Rust use declarations with visibility and Java imports across lines', () => {
+    expect(scan('pub(crate) use serde::{\n    Deserialize,\n    Serialize,\n};\nuse crate::config;\nfn run<\'a>() { use ::tokio::time; }', 'rust')).toEqual([
+      { statement: 'use serde::{ Deserialize, Serialize, };', module: 'serde', local: false, line: 1, column: 1 },
+      { statement: 'use crate::config;', module: 'crate', local: true, line: 5, column: 1 },
+      { statement: 'use tokio::time;', module: 'tokio', local: false, line: 6, column: 16 },
+    ]);
+    expect(scan('package app;\n/* import hidden.Thing; */\nimport static org.junit\n    .Assert.assertEquals;\nimport java.util.*;', 'java')).toEqual([
+      { statement: 'import static org.junit.Assert.assertEquals;', module: 'org.junit.Assert.assertEquals', local: false, line: 3, column: 1 },
+      { statement: 'import java.util.*;', module: 'java.util.*', local: false, line: 5, column: 1 },
+    ]);
+  });
+});
+
+describe('code validation', () => {
+  let root: string;
+  let engine: JavaScriptDiscoveryEngine;
+
+  beforeAll(() => {
+    root = createFixtureDir('code-validation');
+    engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    writeFiles(root, {
+      'package.json': JSON.stringify({ name: 'app', dependencies: { toolkit: '1.0.0' } }),
+      'node_modules/toolkit/package.json': JSON.stringify({ name: 'toolkit', version: '1.0.0', main: 'index.js' }),
+      'node_modules/toolkit/index.js': 'export function flatten(values) {}\nexport function range(end) {}\n',
+      'src/helpers.ts': 'export const helper = 1;\n',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('validates every import of a file and reports locations and a summary', async () => {
+    const result = await validateCode(engine, {
+      language: 'javascript',
+      projectPath: root,
+      importingFile: join(root, 'src/index.ts'),
+      code: [
+        'import {',
+        '  flatten,',
+        '  chunk,',
+        "} from 'toolkit';",
+        "export { range } from 'toolkit';",
+        "import fs = require('fs');",
+        "import { helper } from './helpers';",
+        "const missing = await import('not-installed');",
+      ].join('\n'),
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.summary).toEqual({ total: 5, valid: 3, invalid: 2 });
+    expect(result.imports.map(({ valid, line, column }) => ({ valid, line, column }))).toEqual([
+      { valid: false, line: 1, column: 1 },
+      { valid: true, line: 5, column: 1 },
+      { valid: true, line: 6, column: 1 },
+      { valid: true, line: 7, column: 1 },
+      { valid: false, line: 8, column: 23 },
+    ]);
+    expect(result.imports[0]?.reason).toContain('chunk');
+  });
+
+  it('returns a failed verdict instead of throwing when the code does not parse', async () => {
+    const result = await validateCode(engine, { language: 'javascript', code: 'import { from' });
+
+    expect(result).toMatchObject({ valid: false, summary: { total: 0, valid: 0, invalid: 0 }, imports: [] });
+    expect(result.reason).toMatch(/^Could not parse code/);
+  });
+});
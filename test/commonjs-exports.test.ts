@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { CacheManager } from '../src/cache.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { ASTParser } from '../src/parsers/ast-parser.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('ASTParser CommonJS exports', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('commonjs-exports');
+    writeFiles(root, {
+      'assignments.js': [
+        "'use strict';",
+        'function helper(a, b) {}',
+        'exports.helper = helper;',
+        'exports.version = "1.0.0";',
+        "exports['kebab-name'] = true;",
+        'module.exports.Widget = class Widget {};',
+        'exports.arrow = (x) => x;',
+        'function scoped(exports) { exports.hidden = 1; }',
+      ].join('\n'),
+      'object-literal.js': [
+        'const parse = require("./parse");',
+        'function format(value, options) {}',
+        'module.exports = { parse, format, method(x) {}, "quoted": 1, ...require("./extra") };',
+      ].join('\n'),
+      'parse.js': 'module.exports = function parse(input) {};\n',
+      'extra.js': 'exports.extra = 1;\n',
+      'typescript-output.js': [
+        '"use strict";',
+        'Object.defineProperty(exports, "__esModule", { value: true });',
+        'exports.run = exports.Runner = void 0;',
+        'const tslib_1 = require("tslib");',
+        'tslib_1.__exportStar(require("./extra"), exports);',
+        'class Runner {}',
+        'exports.Runner = Runner;',
+        'function run() {}',
+        'exports.run = run;',
+        'exports.default = run;',
+      ].join('\n'),
+      'babel-output.js': [
+        '"use strict";',
+        'Object.defineProperty(exports, "__esModule", { value: true });',
+        'Object.defineProperty(exports, "parse", { enumerable: true, get: function () { return _parse.default; } });',
+        'var _parse = _interopRequireDefault(require("./parse"));',
+        'var _extra = require("./extra");',
+        'Object.keys(_extra).forEach(function (key) {',
+        '  if (key === "default" || key === "__esModule") return;',
+        '  Object.defineProperty(exports, key, { enumerable: true, get: function () { return _extra[key]; } });',
+        '});',
+        'function _interopRequireDefault(e) { return e && e.__esModule ? e : { default: e }; }',
+      ].join('\n'),
+      'single-value.js': 'module.exports = require("./factory")(exports);\n',
+      'app/package.json': JSON.stringify({ name: 'app', dependencies: { 'ts-lib': '1.0.0', 'babel-lib': '1.0.0' } }),
+      'app/node_modules/ts-lib/package.json': JSON.stringify({ name: 'ts-lib', main: 'index.js' }),
+      'app/node_modules/ts-lib/index.js': [
+        '"use strict";',
+        'Object.defineProperty(exports, "__esModule", { value: true });',
+        'function run() {}',
+        'exports.run = run;',
+        'exports.default = run;',
+      ].join('\n'),
+      'app/node_modules/babel-lib/package.json': JSON.stringify({ name: 'babel-lib', main: 'index.js' }),
+      'app/node_modules/babel-lib/index.js': [
+        '"use strict";',
+        'Object.defineProperty(exports, "__esModule", { value: true });',
+        'exports.parse = parse;',
+        'function parse(input) {}',
+      ].join('\n'),
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('detects exports.x and module.exports.x assignments with inferred kinds', async () => {
+    const result = await ASTParser.parseFile(join(root, 'assignments.js'));
+
+    expect(result.commonJs).toBe(true);
+    expect(result.hasDefaultExport).toBe(true);
+    expect(result.exports.map(exp => [exp.name, exp.type])).toEqual([
+      ['helper', 'function'],
+      ['version', 'constant'],
+      ['kebab-name', 'constant'],
+      ['Widget', 'class'],
+      ['arrow', 'function'],
+    ]);
+    expect(result.exports.find(exp => exp.name === 'helper')?.signature).toBe('helper(a, b)');
+  });
+
+  it('enumerates module.exports object literals and follows required modules', async () => {
+    const result = await ASTParser.parseFile(join(root, 'object-literal.js'), { maxDepth: 1 });
+
+    expect(result.hasExportAssignment).toBe(false);
+    expect(result.reExports).toEqual([]);
+    expect(result.exports.map(exp => exp.name).sort()).toEqual(['extra', 'format', 'method', 'parse', 'quoted']);
+    expect(result.exports.find(exp => exp.name === 'parse')).toMatchObject({
+      type: 'function',
+      signature: 'parse(input)',
+      definedIn: join(root, 'parse.js'),
+    });
+  });
+
+  it('understands TypeScript and Babel CommonJS output', async () => {
+    const typescript = await ASTParser.parseFile(join(root, 'typescript-output.js'), { maxDepth: 1 });
+    expect(typescript.esModuleFlag).toBe(true);
+    expect(typescript.hasDefaultExport).toBe(true);
+    expect(typescript.exports.map(exp => [exp.name, exp.type]).sort()).toEqual([
+      ['Runner', 'class'],
+      ['default', 'function'],
+      ['extra', 'constant'],
+      ['run', 'function'],
+    ]);
+
+    const babel = await ASTParser.parseFile(join(root, 'babel-output.js'), { maxDepth: 1 });
+    expect(babel.esModuleFlag).toBe(true);
+    expect(babel.hasDefaultExport).toBe(false); // Interop reads `exports.default`, which is not set
+    expect(babel.exports.map(exp => exp.name).sort()).toEqual(['extra', 'parse']);
+    expect(babel.exports.find(exp => exp.name === 'parse')).toMatchObject({ type: 'function', definedIn: join(root, 'parse.js') });
+  });
+
+  it('validates default imports of transpiled ESM against exports.default', async () => {
+    const engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    const validate = (importStatement: string) => engine.validateImport({ importStatement, language: 'javascript', projectPath: join(root, 'app') });
+
+    expect((await validate("import run from 'ts-lib'")).valid).toBe(true);
+    expect((await validate("import { parse } from 'babel-lib'")).valid).toBe(true);
+
+    const missing = await validate("import parse from 'babel-lib'");
+    expect(missing.valid).toBe(false);
+    expect(missing.reason).toBe("Module 'babel-lib' does not export 'default'");
+  });
+
+  it('marks exports it cannot enumerate', async () => {
+    const result = await ASTParser.parseFile(join(root, 'single-value.js'));
+
+    expect(result.hasExportAssignment).toBe(true);
+    expect(result.exports.map(exp => exp.name)).toEqual(['default']);
+  });
+});
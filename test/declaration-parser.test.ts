@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { DeclarationParser } from '../src/parsers/declaration-parser.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('DeclarationParser', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('declaration-parser');
+    writeFiles(root, {
+      'esm/index.d.ts': [
+        "export * from './parse';",
+        "export { Widget as Component } from './widget';",
+        'export type Handler<T = string> = (event: T) => void;',
+        '/** Library version */',
+        'export declare const version: string;',
+        'export declare const noop: () => void;',
+      ].join('\n'),
+      'esm/parse.d.ts': [
+        '/**',
+        ' * Parse a value',
+        ' * @param input Text to parse',
+        ' */',
+        'export declare function parse(input: string): number;',
+        'export declare function parse(input: Buffer, encoding?: string): number;',
+        'export declare function pick<T extends object, K extends keyof T>(value: T, ...keys: K[]): Pick<T, K>;',
+        'interface Buffer { length: number }',
+        'export {};',
+      ].join('\n'),
+      'esm/widget.d.ts': [
+        'export declare class Widget<P = {}> {',
+        '  constructor(props: P);',
+        '}',
+        'export interface WidgetProps { label?: string }',
+      ].join('\n'),
+      'cjs/index.d.ts': [
+        'declare function create(name: string): create.Instance;',
+        'declare namespace create {',
+        '  interface Instance { name: string }',
+        '  const defaults: { timeout: number };',
+        '}',
+        'export = create;',
+      ].join('\n'),
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('follows export * and renamed re-exports across declaration files', () => {
+    const exports = DeclarationParser.parseModule(join(root, 'esm/index.d.ts'));
+
+    expect(exports.map(exp => exp.name).sort()).toEqual(['Component', 'Handler', 'noop', 'parse', 'pick', 'version']);
+    expect(exports.find(exp => exp.name === 'Component')).toMatchObject({
+      type: 'class',
+      signature: 'class Component<P = {}>',
+      typeParameters: ['P = {}'],
+      parameters: [{ name: 'props', type: 'P', optional: false }],
+    });
+  });
+
+  it('renders overloads, generics and JSDoc', () => {
+    const exports = DeclarationParser.parseModule(join(root, 'esm/index.d.ts'));
+
+    const parse = exports.find(exp => exp.name === 'parse');
+    expect(parse).toMatchObject({
+      type: 'function',
+      signature: 'parse(input: string): number',
+      description: 'Parse a value',
+      parameters: [{ name: 'input', type: 'string', optional: false, description: 'Text to parse' }],
+      returnType: 'number',
+    });
+    expect(parse?.overloads?.map(overload => overload.signature)).toEqual([
+      'parse(input: string): number',
+      'parse(input: Buffer, encoding?: string): number',
+    ]);
+
+    expect(exports.find(exp => exp.name === 'pick')).toMatchObject({
+      typeParameters: ['T extends object', 'K extends keyof T'],
+      parameters: [
+        { name: 'value', type: 'T', optional: false },
+        { name: '...keys', type: 'K[]', optional: false },
+      ],
+      returnType: 'Pick<T, K>',
+    });
+    expect(exports.find(exp => exp.name === 'Handler')?.signature).toBe('type Handler<T = string> = (event: T) => void');
+    expect(exports.find(exp => exp.name === 'version')).toMatchObject({ type: 'constant', signature: 'version: string', description: 'Library version' });
+    expect(exports.find(exp => exp.name === 'noop')).toMatchObject({ type: 'function', signature: 'noop(): void' });
+  });
+
+  it('describes export = modules as a default export plus namespace members', () => {
+    const exports = DeclarationParser.parseModule(join(root, 'cjs/index.d.ts'));
+
+    expect(exports.find(exp => exp.name === 'default')).toMatchObject({
+      type: 'function',
+      signature: 'create(name: string): create.Instance',
+    });
+    expect(exports.find(exp => exp.name === 'Instance')?.type).toBe('interface');
+    expect(exports.find(exp => exp.name === 'defaults')).toMatchObject({ type: 'constant', signature: 'defaults: { timeout: number; }' });
+  });
+});
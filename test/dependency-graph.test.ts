@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { getDeclaredDependencies, findDependencyPath } from '../src/resolvers/dependency-graph.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { CacheManager } from '../src/cache.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+function writePackage(root: string, dir: string, packageJson: Record<string, unknown>): void {
+  writeFiles(root, {
+    [`${dir}/package.json`]: JSON.stringify({ main: 'index.js', ...packageJson }),
+    [`${dir}/index.js`]: 'module.exports = {};\n',
+  });
+}
+
+describe('phantom dependency detection', () => {
+  let root: string;
+  const owner = { name: 'app', dependencies: { express: '^4.0.0' }, peerDependencies: { react: '*' } };
+
+  beforeAll(() => {
+    root = createFixtureDir('dependency-graph');
+    writeFiles(root, {
+      'package.json': JSON.stringify(owner),
+      'src/index.js': '',
+    });
+    writePackage(root, 'node_modules/express', { name: 'express', dependencies: { 'body-parser': '^1.0.0' } });
+    writePackage(root, 'node_modules/body-parser', { name: 'body-parser', dependencies: { debug: '^2.0.0' } });
+    writePackage(root, 'node_modules/debug', { name: 'debug', dependencies: { ms: '^2.0.0' } });
+    writePackage(root, 'node_modules/ms', { name: 'ms' });
+    writePackage(root, 'node_modules/stray', { name: 'stray' });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('collects every declared dependency field', () => {
+    expect([...getDeclaredDependencies(owner)].sort()).toEqual(['express', 'react']);
+  });
+
+  it('finds the shortest chain from a declared dependency', () => {
+    expect(findDependencyPath('debug', root, owner)).toEqual(['express', 'body-parser', 'debug']);
+    expect(findDependencyPath('ms', root, owner)).toEqual(['express', 'body-parser', 'debug', 'ms']);
+    expect(findDependencyPath('stray', root, owner)).toBeNull();
+  });
+
+  describe('validateImport', () => {
+    let engine: JavaScriptDiscoveryEngine;
+
+    beforeEach(() => {
+      engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    });
+
+    const validate = (importStatement: string) =>
+      engine.validateImport({ importStatement, language: 'javascript', importingFile: join(root, 'src/index.js') });
+
+    it('warns about transitive dependencies that are not declared', async () => {
+      const result = await validate("const debug = require('debug')");
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings?.[0]).toMatchObject({ code: 'undeclared-dependency', dependencyPath: ['express', 'body-parser', 'debug'] });
+      expect(result.warnings?.[0]?.message).toContain('express > body-parser > debug');
+    });
+
+    it('warns about extraneous packages without a dependency path', async () => {
+      const result = await validate("import * as stray from 'stray'");
+      expect(result.valid).toBe(true);
+      expect(result.warnings?.[0]?.dependencyPath).toBeUndefined();
+    });
+
+    it('does not warn about declared dependencies or built-ins', async () => {
+      expect((await validate("import express from 'express'")).warnings).toBeUndefined();
+      expect((await validate("import { readFileSync } from 'fs'")).warnings).toBeUndefined();
+    });
+
+    it('searches the dependency tree again only when the lockfile changes', async () => {
+      expect((await validate("import * as stray from 'stray'")).warnings?.[0]?.dependencyPath).toBeUndefined();
+
+      writePackage(root, 'node_modules/express', { name: 'express', dependencies: { 'body-parser': '^1.0.0', stray: '^1.0.0' } });
+      expect((await validate("const stray = require('stray')")).warnings?.[0]?.dependencyPath).toBeUndefined();
+
+      writeFiles(root, { 'package-lock.json': JSON.stringify({ name: 'app', lockfileVersion: 3, packages: {} }) });
+      expect((await validate("import stray from 'stray'")).warnings?.[0]?.dependencyPath).toEqual(['express', 'stray']);
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { mkdtempSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+/**
+ * A new empty directory under the system temp directory, e.g. `/tmp/workspaces-Xa3b9k`
+ */
+export function createFixtureDir(prefix: string): string {
+  return mkdtempSync(join(tmpdir(), `${prefix}-`));
+}
+
+/**
+ * Write fixture files given by their path relative to root, creating directories as needed
+ */
+export function writeFiles(root: string, files: Record<string, string | Buffer>): void {
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, file)), { recursive: true });
+    writeFileSync(join(root, file), content);
+  }
+}
@@ -63,6 +63,79 @@ describe('JavaScriptDiscoveryEngine', () => {
       expect(result.reason).toBeDefined();
     });
 
+    it('should flag named imports the module does not export', async () => {
+      const result = await engine.validateImport({
+        importStatement: "import { descibe, it as test } from 'vitest'",
+        language: 'javascript',
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.specifiers).toHaveLength(2);
+      expect(result.specifiers?.[0]).toMatchObject({ imported: 'descibe', valid: false, verified: true });
+      expect(result.specifiers?.[0]?.suggestions).toContain('describe');
+      expect(result.specifiers?.[1]).toMatchObject({ imported: 'it', local: 'test', valid: true });
+    });
+
+    it('should validate specifiers of built-in modules', async () => {
+      const result = await engine.validateImport({
+        importStatement: "import fs, { readFileSync, readFileAsync } from 'fs'",
+        language: 'javascript',
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.specifiers?.map(spec => spec.valid)).toEqual([true, true, false]);
+      expect(result.suggestions).toContain('readFileSync');
+    });
+
+    it('should reject subpaths that are not exported', async () => {
+      const valid = await engine.validateImport({
+        importStatement: "import { defineConfig } from 'vitest/config'",
+        language: 'javascript',
+      });
+      expect(valid.valid).toBe(true);
+      expect(valid.resolution).toMatchObject({ subpath: './config', via: 'exports', matchedKey: './config' });
+
+      const invalid = await engine.validateImport({
+        importStatement: "import { defineConfig } from 'vitest/configs'",
+        language: 'javascript',
+      });
+      expect(invalid.valid).toBe(false);
+      expect(invalid.reason).toContain('does not exist');
+      expect(invalid.suggestions).toContain('vitest/config');
+    });
+
+    it('should validate type-only imports against type declarations', async () => {
+      const own = await engine.validateImport({
+        importStatement: "import { describe, type Suite, type Sweet } from 'vitest'",
+        language: 'javascript',
+      });
+      expect(own.valid).toBe(false);
+      expect(own.types).toMatchObject({ via: 'exports' });
+      expect(own.specifiers?.map(spec => [spec.imported, spec.typeOnly, spec.valid])).toEqual([
+        ['describe', false, true],
+        ['Suite', true, true],
+        ['Sweet', true, false],
+      ]);
+
+      const definitelyTyped = await engine.validateImport({
+        importStatement: "import type { NodePath } from '@babel/traverse'",
+        language: 'javascript',
+      });
+      expect(definitelyTyped.valid).toBe(true);
+      expect(definitelyTyped.types).toMatchObject({ via: '@types', typesPackage: '@types/babel__traverse' });
+    });
+
+    it('should report packages without type declarations', async () => {
+      const result = await engine.validateImport({
+        importStatement: "import type { Request } from 'express'",
+        language: 'javascript',
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('No type declarations found');
+      expect(result.suggestions).toContain('@types/express');
+    });
+
     it('should parse different import patterns', async () => {
       const testCases = [
         "import React from 'react'",
@@ -96,7 +169,26 @@ describe('JavaScriptDiscoveryEngine', () => {
       expect(result).toBeDefined();
       expect(result.name).toBe('vitest');
       expect(result.exports).toBeInstanceOf(Array);
-      expect(result.path).toBeDefined();
+      expect(result.path).toMatch(/node_modules\/vitest\/dist\/index\.js$/);
+      expect(result.format).toBe('module');
+    });
+
+    it('should describe exports from type declarations', async () => {
+      const result = await engine.introspectModule({
+        moduleName: 'semver',
+        language: 'javascript',
+        includePrivate: false,
+        maxDepth: 2,
+      });
+
+      const clean = result.exports.find(exp => exp.name === 'clean');
+      expect(clean).toMatchObject({
+        type: 'function',
+        signature: 'clean(version: string, optionsOrLoose?: boolean | semver.Options): string | null',
+        returnType: 'string | null',
+      });
+      expect(clean?.description).toContain('Returns cleaned');
+      expect(result.exports.find(exp => exp.name === 'SemVer')?.type).toBe('class');
     });
 
     it('should handle non-existent modules gracefully', async () => {
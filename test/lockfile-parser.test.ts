@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { LockfileParser } from '../src/parsers/lockfile-parser.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { CacheManager } from '../src/cache.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+const manifest = { name: 'app', dependencies: { express: '^4.18.0' }, devDependencies: { '@types/node': '^20.0.0' } };
+
+const expected = [
+  { name: 'express', version: '4.18.2', direct: true, dependencyPath: ['express'] },
+  { name: '@types/node', version: '20.10.0', direct: true, dependencyPath: ['@types/node'] },
+  { name: 'debug', version: '2.6.9', direct: false, dependencyPath: ['express', 'debug'] },
+  { name: 'ms', version: '2.0.0', direct: false, dependencyPath: ['express', 'debug', 'ms'] },
+];
+
+describe('LockfileParser', () => {
+  let root: string;
+
+  const parse = (file: string, content: string) => {
+    writeFiles(root, { [file]: content });
+    const lockfile = LockfileParser.parseFile(join(root, file));
+    return { lockfile, dependencies: LockfileParser.listDependencies(lockfile, '.', manifest) };
+  };
+
+  beforeAll(() => {
+    root = createFixtureDir('lockfiles');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('parses package-lock.json v3 with nested node_modules', () => {
+    const { lockfile, dependencies } = parse('npm-v3/package-lock.json', JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': manifest,
+        'node_modules/express': { version: '4.18.2', dependencies: { debug: '2.6.9' } },
+        'node_modules/@types/node': { version: '20.10.0', dev: true },
+        'node_modules/debug': { version: '4.3.4', dependencies: { ms: '2.1.2' } },
+        'node_modules/express/node_modules/debug': { version: '2.6.9', dependencies: { ms: '2.0.0' } },
+        'node_modules/express/node_modules/ms': { version: '2.0.0' },
+        'node_modules/ms': { version: '2.1.2' },
+      },
+    }));
+
+    expect(lockfile.format).toBe('npm');
+    expect(dependencies).toEqual(expected);
+  });
+
+  it('parses package-lock.json v1 dependency trees', () => {
+    const { dependencies } = parse('npm-v1/package-lock.json', JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: {
+        express: { version: '4.18.2', requires: { debug: '2.6.9' }, dependencies: { debug: { version: '2.6.9', requires: { ms: '2.0.0' } } } },
+        '@types/node': { version: '20.10.0', dev: true },
+        ms: { version: '2.0.0' },
+      },
+    }));
+
+    expect(dependencies).toEqual(expected);
+  });
+
+  it('parses yarn.lock v1', () => {
+    const { lockfile, dependencies } = parse('yarn-classic/yarn.lock', `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+"@types/node@^20.0.0":
+  version "20.10.0"
+  resolved "https://registry.yarnpkg.com/@types/node/-/node-20.10.0.tgz"
+
+debug@2.6.9:
+  version "2.6.9"
+  dependencies:
+    ms "2.0.0"
+
+express@^4.18.0:
+  version "4.18.2"
+  dependencies:
+    debug "2.6.9"
+
+ms@2.0.0:
+  version "2.0.0"
+`);
+
+    expect(lockfile.format).toBe('yarn-classic');
+    expect(dependencies).toEqual(expected);
+  });
+
+  it('parses yarn berry lockfiles with workspace importers', () => {
+    const { lockfile, dependencies } = parse('yarn-berry/yarn.lock', `# This file is generated by running "yarn install" inside your project.
+
+__metadata:
+  version: 6
+  cacheKey: 8
+
+"@types/node@npm:^20.0.0":
+  version: 20.10.0
+  resolution: "@types/node@npm:20.10.0"
+  languageName: node
+  linkType: hard
+
+"app@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "app@workspace:."
+  dependencies:
+    "@types/node": ^20.0.0
+    express: ^4.18.0
+  languageName: unknown
+  linkType: soft
+
+"debug@npm:2.6.9":
+  version: 2.6.9
+  resolution: "debug@npm:2.6.9"
+  dependencies:
+    ms: 2.0.0
+  checksum: d2f51589ca
+  languageName: node
+  linkType: hard
+
+"express@npm:^4.18.0":
+  version: 4.18.2
+  resolution: "express@npm:4.18.2"
+  dependencies:
+    debug: 2.6.9
+  languageName: node
+  linkType: hard
+
+"ms@npm:2.0.0":
+  version: 2.0.0
+  resolution: "ms@npm:2.0.0"
+  languageName: node
+  linkType: hard
+`);
+
+    expect(lockfile.format).toBe('yarn-berry');
+    expect(lockfile.importers.has('.')).toBe(true);
+    expect(dependencies).toEqual(expect.arrayContaining(expected));
+    expect(dependencies).toHaveLength(4);
+  });
+
+  it('parses pnpm-lock.yaml v6 with importers and peer suffixes', () => {
+    const { lockfile, dependencies } = parse('pnpm-v6/pnpm-lock.yaml', `lockfileVersion: '6.0'
+
+importers:
+
+  .:
+    dependencies:
+      express:
+        specifier: ^4.18.0
+        version: 4.18.2(supports-color@8.1.1)
+    devDependencies:
+      '@types/node':
+        specifier: ^20.0.0
+        version: 20.10.0
+
+packages:
+
+  /@types/node@20.10.0:
+    resolution: {integrity: sha512-D0WfRmU9TQ8I9PFx9Yc+EBHw+vSpIub4IDvQivcp26PtPrdMGAq5SDcpXEo/epqa/DXotVpekHiLNTg3iaKXBQ==}
+    dev: true
+
+  /debug@2.6.9(supports-color@8.1.1):
+    resolution: {integrity: sha512-bC7ElrdJaJnPbAP+1EotYvqZsb3ecl5wi6Bfi6BJTUcNowp6cvspg0jXznRTKDjm/E7AdgFBVeAPVMNcKGsHMA==}
+    dependencies:
+      ms: 2.0.0
+      supports-color: 8.1.1
+
+  /express@4.18.2(supports-color@8.1.1):
+    resolution: {integrity: sha512-5/PsL6iGPdfQ/lKM1UuielYgv3BUoJfz1aUwU9vHZ+J7gyvwdQXFEBIEIaxeGf0GIcreATNyBExtalisDbuMqQ==}
+    engines: {node: '>= 0.10.0'}
+    dependencies:
+      debug: 2.6.9(supports-color@8.1.1)
+
+  /ms@2.0.0:
+    resolution: {integrity: sha512-Tpp60P6IUJDTuOq/5Z8cdskzJujfwqfOTkrwIwj7IRISpnkJnT6SyJ4PCPnGMoFjC9ddhal5KVIYtAt97ix05A==}
+
+  /supports-color@8.1.1:
+    resolution: {integrity: sha512-MpUEN2OodtUzxvKQl72cUF7RQ5EiHsGvSsVG0ia9c5RbWGL2CI4C7EpPS8UTBIplnlzZiNuV56w+FuNxy3ty2Q==}
+`);
+
+    expect(lockfile.format).toBe('pnpm');
+    expect(dependencies).toEqual([
+      ...expected,
+      { name: 'supports-color', version: '8.1.1', direct: false, dependencyPath: ['express', 'debug', 'supports-color'] },
+    ]);
+  });
+
+  it('parses pnpm-lock.yaml v9 snapshots', () => {
+    const { dependencies } = parse('pnpm-v9/pnpm-lock.yaml', `lockfileVersion: '9.0'
+
+importers:
+  .:
+    dependencies:
+      express:
+        specifier: ^4.18.0
+        version: 4.18.2
+    devDependencies:
+      '@types/node':
+        specifier: ^20.0.0
+        version: 20.10.0
+
+packages:
+  '@types/node@20.10.0':
+    resolution: {integrity: sha512-x}
+  debug@2.6.9:
+    resolution: {integrity: sha512-x}
+  express@4.18.2:
+    resolution: {integrity: sha512-x}
+  ms@2.0.0:
+    resolution: {integrity: sha512-x}
+
+snapshots:
+  '@types/node@20.10.0': {}
+  debug@2.6.9:
+    dependencies:
+      ms: 2.0.0
+  express@4.18.2:
+    dependencies:
+      debug: 2.6.9
+  ms@2.0.0: {}
+`);
+
+    expect(dependencies).toEqual(expected);
+  });
+
+  it('reports locked versions during discovery before install', async () => {
+    writeFiles(root, {
+      'project/package.json': JSON.stringify(manifest),
+      'project/package-lock.json': JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': manifest,
+          'node_modules/express': { version: '4.18.2', dependencies: { debug: '2.6.9' } },
+          'node_modules/@types/node': { version: '20.10.0' },
+          'node_modules/debug': { version: '2.6.9', dependencies: { ms: '2.0.0' } },
+          'node_modules/ms': { version: '2.0.0' },
+        },
+      }),
+    });
+
+    const engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    const result = await engine.discoverPackages({
+      language: 'javascript',
+      includeDevDependencies: true,
+      maxResults: 4,
+      projectPath: join(root, 'project'),
+    });
+
+    expect(result.packages).toHaveLength(4);
+    expect(result.packages[0]).toMatchObject({ name: 'express', version: '4.18.2', lockedVersion: '4.18.2', installed: false, direct: true });
+    expect(result.packages[3]).toMatchObject({ name: 'ms', direct: false, dependencyPath: ['express', 'debug', 'ms'] });
+  });
+});
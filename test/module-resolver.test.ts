@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { resolveModule, detectModuleFormat } from '../src/resolvers/module-resolver.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('module resolver', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('module-resolver');
+    writeFiles(root, {
+      'package.json': JSON.stringify({ name: 'app', type: 'module' }),
+      'node_modules/dual/package.json': JSON.stringify({
+        name: 'dual',
+        exports: { import: './index.mjs', require: './index.cjs' },
+      }),
+      'node_modules/dual/index.mjs': 'export const a = 1;',
+      'node_modules/dual/index.cjs': 'exports.a = 1;',
+      'node_modules/legacy/package.json': JSON.stringify({ name: 'legacy', main: 'main.js' }),
+      'node_modules/legacy/main.js': 'module.exports = {};',
+      'node_modules/esm-only/package.json': JSON.stringify({ name: 'esm-only', type: 'module', main: 'index.js' }),
+      'node_modules/esm-only/index.js': 'export default 1;',
+      'packages/web/src/.keep': '',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should resolve with the requested conditions and report the format', () => {
+    const imported = resolveModule('dual', root, ['node', 'import']);
+    expect(imported.file).toBe(join(root, 'node_modules/dual/index.mjs'));
+    expect(imported.format).toBe('module');
+
+    const required = resolveModule('dual', root, ['node', 'require']);
+    expect(required.file).toBe(join(root, 'node_modules/dual/index.cjs'));
+    expect(required.format).toBe('commonjs');
+  });
+
+  it('should use the nearest package.json type for .js files', () => {
+    expect(resolveModule('legacy', root).format).toBe('commonjs');
+    expect(resolveModule('esm-only', root).format).toBe('module');
+    expect(detectModuleFormat(join(root, 'node_modules/legacy/data.json'))).toBe('json');
+  });
+
+  it('should walk up node_modules directories and record the chain', () => {
+    const result = resolveModule('legacy', join(root, 'packages/web/src'));
+
+    expect(result.packageDir).toBe(join(root, 'node_modules/legacy'));
+    expect(result.chain[0]).toContain(join(root, 'node_modules'));
+    expect(result.chain.at(-1)).toBe('format: commonjs');
+  });
+
+  it('should report built-ins and missing packages', () => {
+    expect(resolveModule('node:fs', root).format).toBe('builtin');
+
+    const missing = resolveModule('does-not-exist', root);
+    expect(missing.file).toBeNull();
+    expect(missing.packageDir).toBeNull();
+    expect(missing.chain.at(-1)).toContain('was not found');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { resolvePackageEntry, splitModuleSpecifier, listExportedSubpaths } from '../src/resolvers/package-exports.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('package exports resolution', () => {
+  let root: string;
+
+  const exportsPackage = {
+    name: 'fixture',
+    exports: {
+      '.': { types: './index.d.ts', import: './index.mjs', require: './index.cjs' },
+      './features/*': './src/features/*.js',
+      './features/internal/*': null,
+      './browser': { browser: './browser.js', default: './node.js' },
+      './package.json': './package.json',
+    },
+  };
+
+  beforeAll(() => {
+    root = createFixtureDir('package-exports');
+    writeFiles(root, {
+      'exports/index.d.ts': '',
+      'exports/index.mjs': '',
+      'exports/index.cjs': '',
+      'exports/src/features/a.js': '',
+      'exports/src/features/internal/b.js': '',
+      'exports/browser.js': '',
+      'exports/node.js': '',
+      'exports/hidden.js': '',
+      'exports/package.json': JSON.stringify(exportsPackage),
+      'legacy/lib/main.js': '',
+      'legacy/fp/map.js': '',
+      'legacy/package.json': JSON.stringify({ name: 'legacy', main: 'lib/main' }),
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should split scoped and unscoped specifiers', () => {
+    expect(splitModuleSpecifier('lodash/fp/map')).toEqual({ packageName: 'lodash', subpath: './fp/map' });
+    expect(splitModuleSpecifier('@scope/pkg/sub')).toEqual({ packageName: '@scope/pkg', subpath: './sub' });
+    expect(splitModuleSpecifier('@scope/pkg')).toEqual({ packageName: '@scope/pkg', subpath: '.' });
+  });
+
+  it('should report the condition that matched', () => {
+    const dir = join(root, 'exports');
+
+    const imported = resolvePackageEntry(dir, exportsPackage, '.', ['node', 'import']);
+    expect(imported).toMatchObject({ exists: true, via: 'exports', matchedKey: '.', conditions: ['import'] });
+    expect(imported.file).toBe(join(dir, 'index.mjs'));
+
+    const required = resolvePackageEntry(dir, exportsPackage, '.', ['node', 'require']);
+    expect(required.file).toBe(join(dir, 'index.cjs'));
+
+    const types = resolvePackageEntry(dir, exportsPackage, '.', ['types', 'import']);
+    expect(types.conditions).toEqual(['types']);
+
+    const browser = resolvePackageEntry(dir, exportsPackage, './browser', ['browser', 'import']);
+    expect(browser.file).toBe(join(dir, 'browser.js'));
+    expect(resolvePackageEntry(dir, exportsPackage, './browser', ['node', 'import']).conditions).toEqual(['default']);
+  });
+
+  it('should expand wildcard patterns and honor null blocks', () => {
+    const dir = join(root, 'exports');
+
+    const feature = resolvePackageEntry(dir, exportsPackage, './features/a', ['import']);
+    expect(feature).toMatchObject({ exists: true, matchedKey: './features/*' });
+
+    const blocked = resolvePackageEntry(dir, exportsPackage, './features/internal/b', ['import']);
+    expect(blocked).toMatchObject({ exists: false, matchedKey: './features/internal/*' });
+    expect(blocked.reason).toContain('blocked');
+
+    const missing = resolvePackageEntry(dir, exportsPackage, './features/missing', ['import']);
+    expect(missing.exists).toBe(false);
+
+    const hidden = resolvePackageEntry(dir, exportsPackage, './hidden.js', ['import']);
+    expect(hidden.exists).toBe(false);
+    expect(hidden.reason).toContain('not exported');
+  });
+
+  it('should fall back to main and the file layout without an exports map', () => {
+    const dir = join(root, 'legacy');
+    const packageJson = { name: 'legacy', main: 'lib/main' };
+
+    expect(resolvePackageEntry(dir, packageJson, '.', ['import'])).toMatchObject({
+      via: 'main',
+      exists: true,
+      file: join(dir, 'lib/main.js'),
+    });
+    expect(resolvePackageEntry(dir, packageJson, './fp/map', ['import'])).toMatchObject({ via: 'file', exists: true });
+    expect(resolvePackageEntry(dir, packageJson, './fp/nope', ['import']).exists).toBe(false);
+  });
+
+  it('should list exported subpaths without blocked entries', () => {
+    expect(listExportedSubpaths(exportsPackage)).toEqual(['.', './features/*', './browser', './package.json']);
+    expect(listExportedSubpaths({ exports: './index.js' })).toEqual(['.']);
+    expect(listExportedSubpaths({ main: 'index.js' })).toEqual([]);
+  });
+});
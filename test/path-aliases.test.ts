@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { CacheManager } from '../src/cache.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('path alias validation', () => {
+  let root: string;
+  let engine: JavaScriptDiscoveryEngine;
+
+  beforeAll(() => {
+    root = createFixtureDir('path-aliases');
+    writeFiles(root, {
+      'tsconfig.base.json': `{
+        // Comments are allowed in tsconfig files
+        "compilerOptions": {
+          "baseUrl": ".",
+          "paths": { "@app/*": ["src/app/*", "src/legacy/*"], "@config": ["src/config/index.ts"] }
+        }
+      }`,
+      'tsconfig.json': JSON.stringify({ extends: './tsconfig.base.json', compilerOptions: { strict: true } }),
+      'package.json': JSON.stringify({
+        name: 'monorepo-app',
+        type: 'module',
+        imports: {
+          '#internal/*': './src/internal/*.ts',
+          '#db': { node: './src/db/node.ts', default: './src/db/browser.ts' },
+          '#private/*': null,
+        },
+      }),
+      'src/app/utils.ts': 'export function formatDate(date: Date): string { return date.toISOString(); }',
+      'src/legacy/old.js': 'export const legacy = true;',
+      'src/config/index.ts': 'export const config = {};',
+      'src/internal/db.ts': 'export const connect = () => {};',
+      'src/db/node.ts': 'export const pool = {};',
+      'src/db/browser.ts': 'export const pool = {};',
+      'src/helpers/strings.ts': 'export const slugify = (s: string) => s;',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+  });
+
+  it('should resolve tsconfig paths inherited through extends', async () => {
+    const result = await engine.validateImport({
+      importStatement: "import { formatDate } from '@app/utils'",
+      language: 'javascript',
+      projectPath: root,
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.modulePath).toBe(join(root, 'src/app/utils.ts'));
+    expect(result.resolution).toMatchObject({
+      via: 'tsconfig-paths',
+      mapping: { configPath: join(root, 'tsconfig.json'), pattern: '@app/*', target: 'src/app/utils' },
+    });
+  });
+
+  it('should try each paths target in order', async () => {
+    const result = await engine.validateImport({
+      importStatement: "import { legacy } from '@app/old'",
+      language: 'javascript',
+      projectPath: root,
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.resolution?.mapping?.target).toBe('src/legacy/old');
+  });
+
+  it('should check named imports of aliased files', async () => {
+    const result = await engine.validateImport({
+      importStatement: "import { formatDates } from '@app/utils'",
+      language: 'javascript',
+      projectPath: root,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.suggestions).toContain('formatDate');
+  });
+
+  it('should report a matched alias whose target is missing', async () => {
+    const result = await engine.validateImport({
+      importStatement: "import { nope } from '@app/missing'",
+      language: 'javascript',
+      projectPath: root,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain("'@app/*'");
+  });
+
+  it('should resolve bare specifiers relative to baseUrl', async () => {
+    const result = await engine.validateImport({
+      importStatement: "import { slugify } from 'src/helpers/strings'",
+      language: 'javascript',
+      projectPath: root,
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.resolution?.via).toBe('baseUrl');
+  });
+
+  it('should resolve package.json imports with conditions and blocks', async () => {
+    const internal = await engine.validateImport({
+      importStatement: "import { connect } from '#internal/db'",
+      language: 'javascript',
+      projectPath: root,
+    });
+    expect(internal.valid).toBe(true);
+    expect(internal.resolution).toMatchObject({ via: 'package-imports', mapping: { pattern: '#internal/*' } });
+
+    const db = await engine.validateImport({
+      importStatement: "import { pool } from '#db'",
+      language: 'javascript',
+      projectPath: root,
+    });
+    expect(db.modulePath).toBe(join(root, 'src/db/node.ts'));
+
+    const blocked = await engine.validateImport({
+      importStatement: "import x from '#private/secret'",
+      language: 'javascript',
+      projectPath: root,
+    });
+    expect(blocked.valid).toBe(false);
+
+    const unknown = await engine.validateImport({
+      importStatement: "import x from '#nothing'",
+      language: 'javascript',
+      projectPath: root,
+    });
+    expect(unknown.valid).toBe(false);
+    expect(unknown.reason).toContain('"imports"');
+  });
+});
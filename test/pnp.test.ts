@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync, symlinkSync } from 'fs';
+import { join, dirname } from 'path';
+import { deflateRawSync } from 'zlib';
+import { findPnpManifest, resolvePnpPackage } from '../src/resolvers/pnp.js';
+import { resolveModule } from '../src/resolvers/module-resolver.js';
+import { readTextFile, isDirectory, listDirectory } from '../src/utils/package-fs.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { CacheManager } from '../src/cache.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+/**
+ * Minimal zip writer (deflated entries, no CRC) - enough for the reader under test
+ */
+function createZip(files: Record<string, string>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    localParts.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+const LODASH_ZIP = '.yarn/cache/lodash-npm-4.17.21-abc.zip';
+
+const runtimeState = {
+  __info: [],
+  dependencyTreeRoots: [{ name: 'app', reference: 'workspace:.' }],
+  enableTopLevelFallback: true,
+  fallbackPool: [],
+  fallbackExclusionList: [['app', ['workspace:.']]],
+  packageRegistryData: [
+    [null, [[null, { packageLocation: './', packageDependencies: [['app', 'workspace:.'], ['lodash', 'npm:4.17.21']], linkType: 'SOFT' }]]],
+    ['app', [['workspace:.', {
+      packageLocation: './',
+      packageDependencies: [['lodash', 'npm:4.17.21'], ['utils', ['@acme/utils', 'workspace:packages/utils']], ['react', null]],
+      linkType: 'SOFT',
+    }]]],
+    ['@acme/utils', [['workspace:packages/utils', { packageLocation: './packages/utils/', packageDependencies: [], linkType: 'SOFT' }]]],
+    ['lodash', [['npm:4.17.21', { packageLocation: `./${LODASH_ZIP}/node_modules/lodash/`, packageDependencies: [], linkType: 'HARD' }]]],
+  ],
+};
+
+describe("Yarn Plug'n'Play and pnpm layouts", () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('pnp');
+    writeFiles(root, {
+      'pnp/package.json': JSON.stringify({ name: 'app', dependencies: { lodash: '^4.17.21', utils: 'workspace:@acme/utils' } }),
+      'pnp/src/index.ts': '',
+      'pnp/packages/utils/package.json': JSON.stringify({ name: '@acme/utils', main: 'index.js', type: 'module' }),
+      'pnp/packages/utils/index.js': 'export const slugify = () => {};\n',
+      // The same state inlined into .pnp.cjs, with the line continuations Yarn emits
+      'inline/.pnp.cjs': `#!/usr/bin/env node\n/* eslint-disable */\n"use strict";\n\nconst RAW_RUNTIME_STATE =\n'${JSON.stringify(runtimeState, null, 2).replace(/\n/g, '\\\n')}';\n\nfunction $$SETUP_STATE() {}\n`,
+      // pnpm virtual store: node_modules/<name> links into node_modules/.pnpm/<name>@<version>/node_modules/<name>
+      'pnpm/package.json': JSON.stringify({ name: 'pnpm-app', dependencies: { chalk: '^5.0.0' } }),
+      'pnpm/node_modules/.pnpm/chalk@5.3.0/node_modules/chalk/package.json': JSON.stringify({ name: 'chalk', version: '5.3.0', type: 'module', exports: './source/index.js' }),
+      'pnpm/node_modules/.pnpm/chalk@5.3.0/node_modules/chalk/source/index.js': 'export default {};\nexport const supportsColor = false;\n',
+    });
+    writeFiles(root, { 'pnp/.pnp.data.json': JSON.stringify(runtimeState) });
+    mkdirSync(dirname(join(root, 'pnp', LODASH_ZIP)), { recursive: true });
+    writeFileSync(join(root, 'pnp', LODASH_ZIP), createZip({
+      'node_modules/lodash/package.json': JSON.stringify({ name: 'lodash', version: '4.17.21', main: 'lodash.js' }),
+      'node_modules/lodash/lodash.js': 'exports.debounce = function debounce() {};\n',
+      'node_modules/lodash/lodash.d.ts': 'export declare function debounce(fn: Function): Function;\nexport declare function throttle(fn: Function): Function;\n',
+    }));
+    symlinkSync(join(root, 'pnpm/node_modules/.pnpm/chalk@5.3.0/node_modules/chalk'), join(root, 'pnpm/node_modules/chalk'), 'dir');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads files inside zip archives', () => {
+    const packageDir = join(root, 'pnp', LODASH_ZIP, 'node_modules/lodash');
+    expect(JSON.parse(readTextFile(join(packageDir, 'package.json'))).version).toBe('4.17.21');
+    expect(isDirectory(packageDir)).toBe(true);
+    expect(listDirectory(packageDir)).toEqual(['lodash.d.ts', 'lodash.js', 'package.json']);
+  });
+
+  it('resolves dependencies, aliases and unmet peers through the manifest', () => {
+    const manifest = findPnpManifest(join(root, 'pnp/src'))!;
+    expect(manifest.manifestPath).toBe(join(root, 'pnp/.pnp.data.json'));
+
+    expect(resolvePnpPackage(manifest, 'lodash', join(root, 'pnp/src')).packageDir).toBe(join(root, 'pnp', LODASH_ZIP, 'node_modules/lodash'));
+    expect(resolvePnpPackage(manifest, 'utils', join(root, 'pnp/src')).packageDir).toBe(join(root, 'pnp/packages/utils'));
+    expect(resolvePnpPackage(manifest, 'react', join(root, 'pnp/src')).reason).toContain('unmet peer dependency');
+    expect(resolvePnpPackage(manifest, 'express', join(root, 'pnp/src')).packageDir).toBeNull();
+  });
+
+  it('reads the state inlined in .pnp.cjs', () => {
+    const manifest = findPnpManifest(join(root, 'inline'))!;
+    expect(manifest.manifestPath).toBe(join(root, 'inline/.pnp.cjs'));
+    expect(manifest.packages.size).toBe(4);
+  });
+
+  it('follows pnpm virtual store links to the real package directory', () => {
+    const resolution = resolveModule('chalk', join(root, 'pnpm'));
+    expect(resolution.linker).toBe('pnpm');
+    expect(resolution.file).toBe(join(root, 'pnpm/node_modules/.pnpm/chalk@5.3.0/node_modules/chalk/source/index.js'));
+    expect(resolution.format).toBe('module');
+  });
+
+  describe('JavaScriptDiscoveryEngine', () => {
+    let engine: JavaScriptDiscoveryEngine;
+
+    beforeEach(() => {
+      engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    });
+
+    it('validates imports of zipped PnP packages', async () => {
+      const result = await engine.validateImport({
+        importStatement: "import { debounce, throtle } from 'lodash'",
+        language: 'javascript',
+        importingFile: join(root, 'pnp/src/index.ts'),
+      });
+
+      expect(result.resolution).toMatchObject({ linker: 'pnp', format: 'commonjs' });
+      expect(result.specifiers?.map(spec => spec.valid)).toEqual([true, false]);
+      expect(result.suggestions).toContain('throttle');
+    });
+
+    it('validates aliased workspace dependencies under PnP', async () => {
+      const result = await engine.validateImport({
+        importStatement: "import { slugify } from 'utils'",
+        language: 'javascript',
+        importingFile: join(root, 'pnp/src/index.ts'),
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.modulePath).toBe(join(root, 'pnp/packages/utils/index.js'));
+    });
+
+    it('validates pnpm-linked packages', async () => {
+      const result = await engine.validateImport({
+        importStatement: "import chalk, { supportsColor } from 'chalk'",
+        language: 'javascript',
+        projectPath: join(root, 'pnpm'),
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.resolution?.linker).toBe('pnpm');
+    });
+  });
+});
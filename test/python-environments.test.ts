@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { rmSync, realpathSync } from 'fs';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { detectPythonEnvironment, findPythonProjectRoot } from '../src/resolvers/python-environments.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+const ENVIRONMENT_VARIABLES = ['VIRTUAL_ENV', 'CONDA_PREFIX', 'POETRY_VIRTUALENVS_PATH', 'WORKON_HOME', 'UV_PROJECT_ENVIRONMENT'];
+
+describe('python environment detection', () => {
+  let root: string;
+  let previousEnvironment: Record<string, string | undefined>;
+
+  beforeAll(() => {
+    root = realpathSync(createFixtureDir('python-environments'));
+    previousEnvironment = Object.fromEntries(ENVIRONMENT_VARIABLES.map(name => [name, process.env[name]]));
+
+    const poetryHash = createHash('sha256').update(join(root, 'poetry-app')).digest('base64url').slice(0, 8);
+    const pipenvHash = createHash('sha256').update(join(root, 'pipenv-app', 'Pipfile')).digest().subarray(0, 6).toString('base64url');
+    writeFiles(root, {
+      'uv-app/uv.lock': '',
+      'uv-app/pyproject.toml': '[project]\nname = "uv-app"\n',
+      'uv-app/.venv/pyvenv.cfg': 'home = /usr/bin\n',
+      'uv-app/.venv/bin/python3': '',
+      'uv-app/src/uv_app/__init__.py': '',
+      'conda-app/requirements.txt': '',
+      'conda-app/env/conda-meta/history': '',
+      'poetry-app/poetry.lock': '',
+      'poetry-app/pyproject.toml': '[tool.poetry]\nname = "Poetry_App"\n\n[tool.poetry.dependencies]\nname = "not this"\n',
+      [`poetry-envs/poetry-app-${poetryHash}-py3.9/pyvenv.cfg`]: '',
+      [`poetry-envs/poetry-app-${poetryHash}-py3.12/pyvenv.cfg`]: '',
+      [`poetry-envs/poetry-app-${poetryHash}-py3.11/pyvenv.cfg`]: '',
+      'poetry-envs/envs.toml': `[poetry-app-${poetryHash}]\nminor = "3.11"\npatch = "3.11.7"\n`,
+      'pipenv-app/Pipfile': '[packages]\n',
+      [`workon/pipenv-app-${pipenvHash}/pyvenv.cfg`]: '',
+      'plain-app/setup.py': '',
+      'activated/pyvenv.cfg': '',
+    });
+  });
+
+  beforeEach(() => {
+    for (const name of ENVIRONMENT_VARIABLES) {
+      delete process.env[name];
+    }
+    process.env.POETRY_VIRTUALENVS_PATH = join(root, 'poetry-envs');
+    process.env.WORKON_HOME = join(root, 'workon');
+  });
+
+  afterAll(() => {
+    for (const [name, value] of Object.entries(previousEnvironment)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('finds the in-project environment from a nested directory, with the manager that owns it', () => {
+    expect(findPythonProjectRoot(join(root, 'uv-app/src/uv_app'))).toBe(join(root, 'uv-app'));
+    expect(detectPythonEnvironment(join(root, 'uv-app/src/uv_app'))).toEqual({
+      manager: 'uv',
+      prefix: join(root, 'uv-app/.venv'),
+      interpreters: [join(root, 'uv-app/.venv/bin/python3')],
+      projectRoot: join(root, 'uv-app'),
+      source: '.venv/pyvenv.cfg',
+    });
+    expect(detectPythonEnvironment(join(root, 'conda-app'))).toMatchObject({ manager: 'conda', prefix: join(root, 'conda-app/env') });
+  });
+
+  it('finds Poetry and pipenv environments kept outside the project', () => {
+    const poetry = detectPythonEnvironment(join(root, 'poetry-app'));
+    expect(poetry.manager).toBe('poetry');
+    expect(poetry.prefix).toMatch(/poetry-envs\/poetry-app-[\w-]{8}-py3\.11$/); // The version envs.toml marks active
+
+    const pipenv = detectPythonEnvironment(join(root, 'pipenv-app'));
+    expect(pipenv.manager).toBe('pipenv');
+    expect(pipenv.prefix).toMatch(/workon\/pipenv-app-[\w-]{8}$/);
+  });
+
+  it('falls back to the activated environment, then to the interpreter on PATH', () => {
+    expect(detectPythonEnvironment(join(root, 'plain-app')).source).toBe('PATH');
+    expect(detectPythonEnvironment(join(root, 'plain-app')).interpreters).toEqual(['python3', 'python']);
+
+    process.env.VIRTUAL_ENV = join(root, 'activated');
+    expect(detectPythonEnvironment(join(root, 'plain-app'))).toMatchObject({ manager: 'virtualenv', prefix: join(root, 'activated'), source: 'VIRTUAL_ENV' });
+  });
+});
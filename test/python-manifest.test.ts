@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { PythonManifestParser } from '../src/parsers/python-manifest.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+const summarize = (dependencies: Array<{ name: string; specifier: string; group: string | null }>) =>
+  dependencies.map(({ name, specifier, group }) => `${group ?? 'runtime'}: ${name}${specifier}`);
+
+describe('python manifests', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('python-manifest');
+    writeFiles(root, {
+      'pep621/pyproject.toml': [
+        '[project]',
+        'name = "app"',
+        'dependencies = [',
+        '  "requests[socks]>=2.31; python_version >= \'3.8\'",  # trailing comment',
+        "  'PyYAML',",
+        ']',
+        '',
+        '[project.optional-dependencies]',
+        'plot = ["matplotlib>=3"]',
+        '',
+        '[dependency-groups]',
+        'test = ["pytest>=8", { include-group = "lint" }]',
+        'lint = ["ruff"]',
+        '',
+        '[tool.pdm.dev-dependencies]',
+        'docs = ["mkdocs"]',
+        '',
+        '[tool.other]',
+        'description = """',
+        'Multi-line "text" with [brackets]',
+        '"""',
+      ].join('\n'),
+      'pep621/uv.lock': [
+        'version = 1',
+        '',
+        '[[package]]',
+        'name = "requests"',
+        'version = "2.32.3"',
+        'source = { registry = "https://pypi.org/simple" }',
+        'dependencies = [',
+        '    { name = "idna" },',
+        ']',
+        '',
+        '[package.optional-dependencies]',
+        'socks = [{ name = "pysocks" }]',
+        '',
+        '[[package]]',
+        'name = "PyYAML"',
+        'version = "6.0.2"',
+      ].join('\n'),
+      'poetry/pyproject.toml': [
+        '[tool.poetry]',
+        'name = "svc"',
+        '',
+        '[tool.poetry.dependencies]',
+        'python = "^3.11"',
+        'fastapi = "^0.110"',
+        'uvicorn = { version = "*", extras = ["standard"] }',
+        'mylib = { git = "https://github.com/org/mylib.git" }',
+        '',
+        '[tool.poetry.group.dev.dependencies]',
+        'black = "*"',
+      ].join('\n'),
+      'requirements/requirements.txt': 'flask==3.0.0 \\\n    --hash=sha256:abc\n# comment\n-c constraints.txt\n--index-url https://example.com/simple\n-e git+https://github.com/org/tool.git#egg=internal-tool\n./local/path\nNumPy>=1.26 ; platform_system != "Windows"\n',
+      'requirements/requirements-dev.txt': '-r requirements.txt\n--requirement requirements.txt\npytest  # test runner\n',
+      'requirements/constraints.txt': 'never-declared==1.0\n',
+      'setupcfg/setup.cfg': '[metadata]\nname = legacy\n\n[options]\ninstall_requires =\n    click>=8\n    attrs\n\n[options.extras_require]\nyaml = PyYAML; toml\n',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('parses PEP 508 requirements', () => {
+    expect(PythonManifestParser.parseRequirement('requests[socks, security] (>=2.31) ; python_version >= "3.8"')).toEqual({
+      name: 'requests',
+      extras: ['socks', 'security'],
+      specifier: '>=2.31',
+      marker: 'python_version >= "3.8"',
+    });
+    expect(PythonManifestParser.parseRequirement('pip @ https://example.com/pip.whl;a=b ; os_name == "nt"')).toMatchObject({
+      name: 'pip',
+      specifier: '@ https://example.com/pip.whl;a=b',
+      marker: 'os_name == "nt"',
+    });
+    expect(PythonManifestParser.parseRequirement('./local/path')).toBeNull();
+  });
+
+  it('evaluates PEP 508 markers, treating unknown variables as matching', () => {
+    const linux = { sys_platform: 'linux', platform_system: 'Linux', os_name: 'posix', python_version: '3.11', extra: '' };
+    const evaluate = (marker: string, environment: Record<string, string> = linux) => PythonManifestParser.evaluateMarker(marker, environment);
+
+    expect(evaluate('sys_platform == "darwin"')).toBe(false);
+    expect(evaluate("platform_system != 'Windows'")).toBe(true);
+    expect(evaluate('python_version < "3.8" or (sys_platform == "linux" and python_version >= "3.10")')).toBe(true);
+    expect(evaluate('python_version ~= "3.9"')).toBe(true);
+    expect(evaluate('python_version ~= "3.9.0"')).toBe(false);
+    expect(evaluate('sys_platform not in "win32 cygwin"')).toBe(true);
+    expect(evaluate('extra == "socks"')).toBe(false);
+    expect(evaluate('platform_machine == "arm64"')).toBe(true);
+    expect(evaluate('python_version < "3.11"', { sys_platform: 'linux' })).toBe(true);
+    expect(evaluate('sys_platform === = "linux"')).toBe(true);
+  });
+
+  it('reads PEP 621 dependencies, extras, dependency groups and PDM groups, with uv.lock versions', () => {
+    const manifest = PythonManifestParser.readProject(join(root, 'pep621'));
+
+    expect(manifest.projectName).toBe('app');
+    expect(summarize(manifest.dependencies)).toEqual([
+      'runtime: requests>=2.31',
+      'runtime: PyYAML',
+      'plot: matplotlib>=3',
+      'test: pytest>=8',
+      'lint: ruff',
+      'docs: mkdocs',
+    ]);
+    expect(manifest.dependencies[0]).toMatchObject({ extras: ['socks'], marker: "python_version >= '3.8'" });
+    expect(manifest.locked).toEqual(new Map([['requests', '2.32.3'], ['pyyaml', '6.0.2']]));
+    expect(PythonManifestParser.findDependency(manifest, 'pyyaml')?.name).toBe('PyYAML');
+  });
+
+  it('reads Poetry dependencies and groups, skipping the Python constraint', () => {
+    const manifest = PythonManifestParser.readProject(join(root, 'poetry'));
+
+    expect(summarize(manifest.dependencies)).toEqual([
+      'runtime: fastapi^0.110',
+      'runtime: uvicorn',
+      'runtime: mylib@ https://github.com/org/mylib.git',
+      'dev: black',
+    ]);
+    expect(manifest.dependencies[1]?.extras).toEqual(['standard']);
+  });
+
+  it('follows -r includes in requirements files once each, ignoring options, constraints and paths', () => {
+    const seen = new Set<string>();
+    const dependencies = PythonManifestParser.parseRequirementsFile(join(root, 'requirements/requirements-dev.txt'), seen);
+
+    expect(summarize(dependencies)).toEqual(['runtime: flask==3.0.0', 'runtime: internal-tool', 'runtime: NumPy>=1.26', 'dev: pytest']);
+    expect(dependencies[2]?.marker).toBe('platform_system != "Windows"');
+    expect([...seen]).toHaveLength(2);
+  });
+
+  it('reads setup.cfg install_requires and extras', () => {
+    const manifest = PythonManifestParser.readProject(join(root, 'setupcfg'));
+
+    expect(manifest.projectName).toBe('legacy');
+    expect(summarize(manifest.dependencies)).toEqual(['runtime: click>=8', 'runtime: attrs', 'yaml: PyYAML', 'yaml: toml']);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { PythonMetadataParser } from '../src/parsers/python-metadata.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('python distribution metadata', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('python-metadata');
+    writeFiles(root, {
+      'site-packages/Pillow-10.3.0.dist-info/METADATA': 'Metadata-Version: 2.1\nName: Pillow\nVersion: 10.3.0\nSummary: Python Imaging Library (Fork)\n\nName: not a header\n',
+      'site-packages/Pillow-10.3.0.dist-info/top_level.txt': 'PIL\n',
+      'site-packages/scikit_learn-1.5.0.dist-info/METADATA': 'Metadata-Version: 2.1\nName: scikit-learn\nVersion: 1.5.0\n',
+      'site-packages/scikit_learn-1.5.0.dist-info/RECORD': [
+        'sklearn/__init__.py,sha256=abc,100',
+        'sklearn/svm/_libsvm.cpython-311-x86_64-linux-gnu.so,sha256=def,200',
+        '"sklearn/data,with,commas.csv",sha256=ghi,10',
+        'scikit_learn-1.5.0.dist-info/RECORD,,',
+        '../../../bin/sklearn-cli,sha256=jkl,5',
+        'six.py,sha256=mno,50',
+        'distutils-precedence.pth,sha256=pqr,1',
+      ].join('\n'),
+      'site-packages/beautifulsoup4-4.12.3.egg-info/PKG-INFO': 'Metadata-Version: 1.2\nName: beautifulsoup4\nVersion: 4.12.3\n',
+      'site-packages/beautifulsoup4-4.12.3.egg-info/installed-files.txt': '../bs4/__init__.py\n../bs4/element.py\nPKG-INFO\n',
+      'site-packages/broken.dist-info/RECORD': 'broken/__init__.py,,\n',
+      'user-site/pillow-9.0.0.dist-info/METADATA': 'Name: pillow\nVersion: 9.0.0\n',
+      'user-site/pillow-9.0.0.dist-info/top_level.txt': 'PIL\n',
+      'user-site/PyYAML-6.0.1.dist-info/METADATA': 'Name: PyYAML\nVersion: 6.0.1\n',
+      'user-site/PyYAML-6.0.1.dist-info/top_level.txt': '_yaml\nyaml\n',
+      'requires/requests-2.32.0.dist-info/METADATA': [
+        'Name: requests',
+        'Version: 2.32.0',
+        'Requires-Dist: charset-normalizer<4,>=2',
+        'Requires-Dist: idna (<4,>=2.5)',
+        'Requires-Dist: PySocks!=1.5.7,>=1.5.6 ; extra == "socks"',
+        'Requires-Dist: appnope ; sys_platform == "no-such-platform"',
+        'Requires-Dist: urllib3 ; os_name == "nt" or os_name == "posix"',
+        '',
+        'Requires-Dist: not-a-header',
+      ].join('\n'),
+      'crlf/pip-24.0.dist-info/METADATA': 'Metadata-Version: 2.1\r\nName: pip\r\nVersion: 24.0\r\nRequires-Dist: sniffio\r\n\r\nRequires-Dist: not-a-header\r\n',
+      'crlf/pip-24.0.dist-info/top_level.txt': 'pip\r\n',
+      'requires/six-1.16.0.egg-info/PKG-INFO': 'Name: six\nVersion: 1.16.0\n',
+      'requires/six-1.16.0.egg-info/requires.txt': 'typing-extensions\n\n[test]\npytest\n\n[:sys_platform == "no-such-platform"]\ncolorama\n\n[:os_name != "no-such-os"]\nfuture\n',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads names, versions and import names from top_level.txt, RECORD and installed-files.txt', () => {
+    const distributions = PythonMetadataParser.readSitePackages(join(root, 'site-packages'));
+
+    expect(distributions.map(({ name, version, importNames }) => ({ name, version, importNames }))).toEqual([
+      { name: 'Pillow', version: '10.3.0', importNames: ['PIL'] },
+      { name: 'beautifulsoup4', version: '4.12.3', importNames: ['bs4'] },
+      { name: 'scikit-learn', version: '1.5.0', importNames: ['six', 'sklearn'] },
+    ]);
+    expect(distributions[0]?.summary).toBe('Python Imaging Library (Fork)');
+  });
+
+  it('indexes distributions and import names both ways, earlier directories first', () => {
+    const index = PythonMetadataParser.indexSitePackages([join(root, 'site-packages'), join(root, 'user-site')]);
+
+    expect(index.byDistribution.get(PythonMetadataParser.normalizeName('Scikit_Learn'))?.importNames).toContain('sklearn');
+    expect(index.byImport.get('PIL')?.map(dist => dist.version)).toEqual(['10.3.0']);
+    expect(index.byImport.get('yaml')?.map(dist => dist.name)).toEqual(['PyYAML']);
+    expect(index.distributions).toHaveLength(4);
+  });
+
+  it('reads required distributions, leaving out those only needed by extras or on other platforms', () => {
+    const distributions = PythonMetadataParser.readSitePackages(join(root, 'requires'));
+
+    expect(distributions.map(({ name, requires }) => ({ name, requires }))).toEqual([
+      { name: 'requests', requires: ['charset-normalizer', 'idna', 'urllib3'] },
+      { name: 'six', requires: ['typing-extensions', 'future'] },
+    ]);
+  });
+
+  it('reads metadata written with CRLF line endings', () => {
+    expect(PythonMetadataParser.readSitePackages(join(root, 'crlf'))).toMatchObject([
+      { name: 'pip', version: '24.0', importNames: ['pip'], requires: ['sniffio'] },
+    ]);
+  });
+
+  it('returns nothing for directories that do not exist', () => {
+    expect(PythonMetadataParser.readSitePackages(join(root, 'missing'))).toEqual([]);
+  });
+});
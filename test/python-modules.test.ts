@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { findPythonSourceFile, indexPythonModules, locatePythonModule, readPthFile } from '../src/resolvers/python-modules.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('python module index', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('python-modules');
+    writeFiles(root, {
+      'lib/python3.11/json/__init__.py': '',
+      'lib/python3.11/os.py': '',
+      'lib/python3.11/lib-dynload/_ssl.cpython-311-x86_64-linux-gnu.so': '',
+      'lib/python3.11/__pycache__/os.cpython-311.pyc': '',
+      'lib/python3.11/site-packages/requests/__init__.py': '',
+      'lib/python3.11/site-packages/requests/adapters.py': '',
+      'lib/python3.11/site-packages/six.py': '',
+      'lib/python3.11/site-packages/_cffi_backend.cpython-311-x86_64-linux-gnu.so': '',
+      'lib/python3.11/site-packages/google/protobuf/__init__.py': '',
+      'lib/python3.11/site-packages/json.py': '', // Shadowed by the standard library
+      'lib/python3.11/site-packages/not-a-module/data.txt': '',
+      'lib/python3.11/site-packages/empty/README': '',
+      'lib/python3.11/site-packages/requests-2.32.0.dist-info/METADATA': 'Name: requests\n',
+      'lib/python3.11/site-packages/editable.pth': '../../../src\n# comment\nimport _virtualenv\nmissing\n',
+      'src/myproject/__init__.py': '',
+      'src/google/cloud/__init__.py': '',
+      'user-site/google/__init__.py': '', // A regular package takes over the earlier namespace package
+      'stubs/lib/json/__init__.py': '',
+      'stubs/lib/os.py': '',
+      'stubs/lib/posixpath.py': '',
+      'stubs/site-packages/requests/__init__.py': '',
+      'stubs/site-packages/requests/adapters.py': '',
+      'stubs/site-packages/requests-stubs/adapters.pyi': '',
+      'stubs/site-packages/six.py': '',
+      'stubs/site-packages/typed_pkg/__init__.py': '',
+      'stubs/site-packages/typed_pkg/py.typed': '',
+      'stubs/site-packages/_cffi_backend.cpython-311-x86_64-linux-gnu.so': '',
+      'stubs/site-packages/_cffi_backend.pyi': '',
+      'stubs/site-packages/mypy/typeshed/stdlib/os/__init__.pyi': '',
+      'stubs/site-packages/mypy/typeshed/stdlib/os/path.pyi': '',
+      'stubs/venv/site-packages/mypy/typeshed/stdlib/sys/__init__.pyi': '',
+      'stubs/venv/site-packages/mypy/typeshed/stdlib/VERSIONS': 'sys: 3.0-\n',
+      'stubs/site-packages/jedi/third_party/typeshed/stdlib/3/_thread.pyi': '',
+      'stubs/site-packages/jedi/third_party/typeshed/stdlib/2and3/sys.pyi': '',
+      'stubs/site-packages/jedi/third_party/typeshed/third_party/2and3/six/__init__.pyi': '',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('indexes packages, namespace packages, modules and extensions in sys.path order', () => {
+    const stdlib = join(root, 'lib/python3.11');
+    const index = indexPythonModules(
+      [stdlib, join(stdlib, 'lib-dynload'), join(stdlib, 'site-packages'), join(root, 'user-site'), join(root, 'missing')],
+      { stdlibPaths: [stdlib], builtinModules: ['sys', 'builtins'] }
+    );
+    const summary = Object.fromEntries([...index.modules.values()].map(location => [location.name, `${location.kind}${location.stdlib ? ' (stdlib)' : ''}`]));
+
+    expect(summary).toEqual({
+      sys: 'builtin (stdlib)',
+      builtins: 'builtin (stdlib)',
+      json: 'package (stdlib)',
+      os: 'module (stdlib)',
+      _ssl: 'extension (stdlib)',
+      requests: 'package',
+      six: 'module',
+      _cffi_backend: 'extension',
+      google: 'package',
+      myproject: 'package',
+    });
+    expect(index.modules.get('google')?.searchPath).toBe(join(root, 'user-site'));
+    expect(index.modules.get('myproject')?.searchPath).toBe(join(root, 'src'));
+    expect(index.sitePackages).toEqual([join(stdlib, 'site-packages')]);
+  });
+
+  it('reads directories from .pth files, skipping comments, import lines and missing paths', () => {
+    const siteDir = join(root, 'lib/python3.11/site-packages');
+
+    expect(readPthFile(join(siteDir, 'editable.pth'), siteDir)).toEqual([join(root, 'src')]);
+    expect(readPthFile(join(siteDir, 'missing.pth'), siteDir)).toEqual([]);
+  });
+
+  it('locates dotted module names inside indexed packages', () => {
+    const siteDir = join(root, 'lib/python3.11/site-packages');
+    const index = indexPythonModules([siteDir]);
+
+    expect(locatePythonModule(index, 'requests')).toBe(join(siteDir, 'requests'));
+    expect(locatePythonModule(index, 'requests.adapters')).toBe(join(siteDir, 'requests/adapters.py'));
+    expect(locatePythonModule(index, 'google.protobuf')).toBe(join(siteDir, 'google/protobuf'));
+    expect(locatePythonModule(index, 'requests.missing')).toBeNull();
+    expect(locatePythonModule(index, 'six.moves')).toBeNull();
+  });
+
+  it('finds the stub or source file to read a module from, stubs first outside the standard library', () => {
+    const stdlib = join(root, 'stubs/lib');
+    const siteDir = join(root, 'stubs/site-packages');
+    const venvSiteDir = join(root, 'stubs/venv/site-packages');
+    const index = indexPythonModules([stdlib, siteDir, venvSiteDir], { stdlibPaths: [stdlib], builtinModules: ['sys', '_thread'] });
+
+    expect(findPythonSourceFile(index, 'requests.adapters')).toBe(join(siteDir, 'requests-stubs/adapters.pyi'));
+    expect(findPythonSourceFile(index, 'requests')).toBe(join(siteDir, 'requests/__init__.py'));
+    expect(findPythonSourceFile(index, 'typed_pkg')).toBe(join(siteDir, 'typed_pkg/__init__.py'));
+    expect(findPythonSourceFile(index, '_cffi_backend')).toBe(join(siteDir, '_cffi_backend.pyi'));
+    expect(findPythonSourceFile(index, 'os')).toBe(join(stdlib, 'os.py'));
+    expect(locatePythonModule(index, 'os.path')).toBe(join(stdlib, 'posixpath.py')); // What os imports as path
+    expect(findPythonSourceFile(index, 'os.path')).toBe(join(stdlib, 'posixpath.py'));
+    // Builtins have no source: the current typeshed layout wins over the older copy found first
+    expect(findPythonSourceFile(index, 'sys')).toBe(join(venvSiteDir, 'mypy/typeshed/stdlib/sys/__init__.pyi'));
+    expect(findPythonSourceFile(index, '_thread')).toBe(join(siteDir, 'jedi/third_party/typeshed/stdlib/3/_thread.pyi'));
+    expect(findPythonSourceFile(index, 'six')).toBe(join(siteDir, 'jedi/third_party/typeshed/third_party/2and3/six/__init__.pyi'));
+    expect(findPythonSourceFile(index, 'json')).toBe(join(stdlib, 'json/__init__.py'));
+  });
+});
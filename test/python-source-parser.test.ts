@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { PythonSourceParser } from '../src/parsers/python-source-parser.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('python source parser', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('python-source');
+    writeFiles(root, {
+      'shapes.py': [
+        '"""Shapes."""',
+        'import sys',
+        'from dataclasses import dataclass, field',
+        'from typing import ClassVar, Final, TypeAlias, TypeVar',
+        '',
+        'T = TypeVar("T", bound="Shape")',
+        'Number: TypeAlias = int | float',
+        'MAX_SIDES: Final = 12',
+        'DEFAULT_NAME = "shape"',
+        '_registry = {}',
+        '',
+        'def area(shape: "Shape", *, precision: int = 2,',
+        '         **options: str) -> float:',
+        '    """Area of a shape.',
+        '',
+        '    Rounded to `precision` digits.',
+        '    """',
+        '    def helper(): pass',
+        '    return 0.0',
+        '',
+        'if sys.version_info >= (3, 12):',
+        '    def scale(shape: T, factor: float) -> T: ...',
+        'else:',
+        '    def scale(shape, factor): ...',
+        '',
+        'class Shape:',
+        '    sides: ClassVar[int] = 0',
+        '    kind = "abstract"',
+        '',
+        '    def __init__(self, name: str, color: str = "red") -> None:',
+        '        self.name = name',
+        '        self._color = color',
+        '',
+        '    @property',
+        '    def color(self) -> str:',
+        '        return self._color',
+        '',
+        '    @color.setter',
+        '    def color(self, value: str) -> None: ...',
+        '',
+        '    @property',
+        '    def label(self) -> str: return self.name',
+        '',
+        '    @classmethod',
+        '    def unit(cls) -> "Shape": ...',
+        '',
+        '    @staticmethod',
+        '    def validate(value: object) -> bool: ...',
+        '',
+        '    def _redraw(self): ...',
+        '',
+        '    def __repr__(self) -> str: ...',
+        '',
+        '@dataclass(frozen=True)',
+        'class Point:',
+        '    x: float',
+        '    y: float = 0.0',
+        '    tags: list[str] = field(default_factory=list)',
+        '    origin: ClassVar["Point"]',
+        '',
+        '    class Meta:',
+        '        ordering = ["x"]',
+      ].join('\n'),
+      'geometry/__init__.py': [
+        'from .core import *',
+        'from .vectors import Vector as Vec, _private_helper',
+        'from geometry.units import Meter',
+        'from . import transforms',
+        'from os import path',
+        '',
+        '__all__ = ["Vec", "Meter", "transforms", "polygons"]',
+        '__all__ += core.__all__',
+      ].join('\n'),
+      'geometry/core.py': '__all__ = ["distance"]\n\nfrom .vectors import *\n\ndef distance(a, b):\n    """Euclidean distance."""\n',
+      'geometry/vectors.py': 'class Vector:\n    def dot(self, other: "Vector") -> float: ...\n\ndef _private_helper(): ...\n',
+      'geometry/units.py': 'class Meter(float): ...\n',
+      'geometry/transforms.py': 'def rotate(angle): ...\n',
+      'geometry/polygons/__init__.py': '',
+      'typed/__init__.pyi': [
+        'from typing import overload, Union',
+        'from ._impl import Client as Client, Request',
+        'from collections import OrderedDict as OrderedDict',
+        '',
+        '@overload',
+        'def get(key: str) -> str: ...',
+        '@overload',
+        'def get(key: str, default: int) -> Union[str, int]: ...',
+        '',
+        'class Session:',
+        '    @overload',
+        '    def __init__(self) -> None: ...',
+        '    @overload',
+        '    def __init__(self, url: str, timeout: float = ...) -> None: ...',
+        '    def close(self) -> None: ...; def flush(self) -> None: ...',
+        '',
+        'type Pair[T] = tuple[T, T]',
+      ].join('\n'),
+      'typed/_impl.pyi': 'class Client:\n    base_url: str\n    def send(self, request: Request) -> None: ...\n\nclass Request: ...\n',
+      'collections/__init__.pyi': 'class OrderedDict(dict): ...\n',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads functions, constants and type aliases with their annotations and docstrings', () => {
+    const exports = PythonSourceParser.parseModule(join(root, 'shapes.py'));
+    const byName = Object.fromEntries(exports.map(exported => [exported.name, exported]));
+
+    expect(exports.map(exported => exported.name)).toEqual(['T', 'Number', 'MAX_SIDES', 'DEFAULT_NAME', 'area', 'scale', 'Shape', 'Point']);
+    expect(byName.T).toMatchObject({ type: 'type', signature: 'T = TypeVar("T", bound="Shape")' });
+    expect(byName.Number).toMatchObject({ type: 'type', signature: 'type Number = int | float' });
+    expect(byName.MAX_SIDES).toMatchObject({ type: 'constant', signature: 'MAX_SIDES: int', readonly: true });
+    expect(byName.DEFAULT_NAME).toMatchObject({ type: 'constant', signature: 'DEFAULT_NAME: str' });
+    expect(byName.area).toEqual({
+      name: 'area',
+      type: 'function',
+      signature: 'area(shape: "Shape", *, precision: int = 2, **options: str) -> float',
+      description: 'Area of a shape.',
+      parameters: [
+        { name: 'shape', type: '"Shape"', optional: false },
+        { name: 'precision', type: 'int', optional: true },
+        { name: '**options', type: 'str', optional: true },
+      ],
+      returnType: 'float',
+      definedIn: join(root, 'shapes.py'),
+    });
+    // The first branch of a version check wins
+    expect(byName.scale?.signature).toBe('scale(shape: T, factor: float) -> T');
+  });
+
+  it('describes classes with their constructor, methods, properties and attributes', () => {
+    const exports = PythonSourceParser.parseModule(join(root, 'shapes.py'), { memberDepth: 1 });
+    const shape = exports.find(exported => exported.name === 'Shape')!;
+    const members = Object.fromEntries(shape.members!.map(member => [member.name, member]));
+
+    expect(shape.signature).toBe('class Shape');
+    expect(shape.parameters).toEqual([
+      { name: 'name', type: 'str', optional: false },
+      { name: 'color', type: 'str', optional: true },
+    ]);
+    expect(Object.keys(members)).toEqual(['sides', 'kind', '__init__', 'name', 'color', 'label', 'unit', 'validate', '__repr__']);
+    expect(members.sides).toMatchObject({ type: 'property', signature: 'sides: ClassVar[int]', static: true });
+    expect(members.kind).toMatchObject({ type: 'property', signature: 'kind: str', static: true });
+    expect(members.__init__).toMatchObject({ type: 'constructor', signature: '__init__(name: str, color: str = "red") -> None' });
+    expect(members.name).toMatchObject({ type: 'property', static: false });
+    expect(members.color).toMatchObject({ type: 'property', signature: 'color: str', readonly: undefined });
+    expect(members.label).toMatchObject({ type: 'property', signature: 'label: str', readonly: true });
+    expect(members.unit).toMatchObject({ type: 'method', signature: 'unit() -> "Shape"', static: true });
+    expect(members.validate).toMatchObject({ type: 'method', signature: 'validate(value: object) -> bool', static: true });
+
+    const withPrivate = PythonSourceParser.parseModule(join(root, 'shapes.py'), { memberDepth: 1, includePrivate: true });
+    expect(withPrivate.map(exported => exported.name)).toContain('_registry');
+    expect(withPrivate.find(exported => exported.name === 'Shape')!.members!.find(member => member.name === '_redraw')).toMatchObject({ access: 'protected' });
+
+    const point = exports.find(exported => exported.name === 'Point')!;
+    expect(point.parameters).toEqual([
+      { name: 'x', type: 'float', optional: false },
+      { name: 'y', type: 'float', optional: true },
+      { name: 'tags', type: 'list[str]', optional: true },
+    ]);
+    expect(point.members!.find(member => member.name === 'Meta')).toMatchObject({ type: 'class', static: true, members: undefined });
+
+    expect(PythonSourceParser.parseModule(join(root, 'shapes.py'), { memberDepth: 0 }).find(exported => exported.name === 'Shape')!.members).toBeUndefined();
+  });
+
+  it('follows __all__ and re-exports to the files that define them', () => {
+    const exports = PythonSourceParser.parseModule(join(root, 'geometry/__init__.py'));
+    const byName = Object.fromEntries(exports.map(exported => [exported.name, exported]));
+
+    expect(exports.map(exported => exported.name)).toEqual(['Vec', 'Meter', 'transforms', 'polygons', 'distance']);
+    expect(byName.Vec).toMatchObject({ type: 'class', signature: 'class Vector', definedIn: join(root, 'geometry/vectors.py') });
+    expect(byName.Meter).toMatchObject({ type: 'class', definedIn: join(root, 'geometry/units.py') });
+    expect(byName.transforms).toMatchObject({ type: 'namespace', definedIn: join(root, 'geometry/transforms.py') });
+    expect(byName.polygons).toMatchObject({ type: 'namespace', definedIn: join(root, 'geometry/polygons/__init__.py') });
+    expect(byName.distance).toMatchObject({ type: 'function', description: 'Euclidean distance.', definedIn: join(root, 'geometry/core.py') });
+
+    // Without __all__, the module's own definitions and what it imports from its package
+    expect(PythonSourceParser.parseModule(join(root, 'geometry/core.py')).map(exported => exported.name)).toEqual(['distance']);
+  });
+
+  it('reads stubs, with overloads and only explicit re-exports', () => {
+    const exports = PythonSourceParser.parseModule(join(root, 'typed/__init__.pyi'), {
+      memberDepth: 1,
+      resolveModule: moduleName => (moduleName === 'collections' ? join(root, 'collections/__init__.pyi') : null),
+    });
+    const byName = Object.fromEntries(exports.map(exported => [exported.name, exported]));
+
+    expect(exports.map(exported => exported.name)).toEqual(['get', 'Session', 'Pair', 'Client', 'OrderedDict']);
+    expect(byName.get?.overloads?.map(overload => overload.signature)).toEqual([
+      'get(key: str) -> str',
+      'get(key: str, default: int) -> Union[str, int]',
+    ]);
+    expect(byName.Session?.overloads).toHaveLength(2);
+    expect(byName.Session?.members?.map(member => member.name)).toEqual(['__init__', 'close', 'flush']);
+    expect(byName.Pair).toMatchObject({ type: 'type', signature: 'type Pair[T] = tuple[T, T]' });
+    expect(byName.Client?.members?.[0]).toMatchObject({ name: 'base_url', signature: 'base_url: str', static: false });
+    expect(byName.OrderedDict).toMatchObject({ type: 'class', definedIn: join(root, 'collections/__init__.pyi') });
+  });
+});
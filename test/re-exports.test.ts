@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { ASTParser } from '../src/parsers/ast-parser.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('ASTParser re-exports', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('re-exports');
+    writeFiles(root, {
+      'index.js': [
+        "export * from './core/index.js';",
+        "export { helper as assist, default as Widget } from './widget';",
+        "export * as utils from './utils.js';",
+        'export const version = "1.0.0";',
+      ].join('\n'),
+      'core/index.js': "export * from './parse.js';\nexport * from './format.js';\nexport function core() {}\n",
+      'core/parse.js': "export function parse(input) {}\nexport default function ignored() {}\nexport * from '../index.js';\n",
+      'core/format.js': "export * from './deep.js';\nexport class Formatter {}\n",
+      'core/deep.js': 'export const deep = 1;\n',
+      'widget.js': 'export function helper(a, b) {}\nexport default class Widget {}\n',
+      'utils.js': 'export const util = 1;\n',
+      'types/index.ts': "export type { Options } from './options';\nexport * from './models';\n",
+      'types/options.ts': 'export interface Options { verbose?: boolean }\n',
+      'types/models.ts': 'export function model(name: string): void {}\n',
+      'dts/index.d.ts': "export * from './impl.js';\n",
+      'dts/impl.d.ts': 'export declare function typed(value: string): number;\n',
+      'dts/impl.js': 'export function typed(value) {}\nexport function runtimeOnly() {}\n',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('only reads the file itself by default', async () => {
+    const result = await ASTParser.parseFile(join(root, 'index.js'));
+
+    expect(result.exports.map(exp => exp.name)).toEqual(['assist', 'Widget', 'utils', 'version']);
+    expect(result.reExports).toEqual(['./core/index.js']);
+  });
+
+  it('follows export * chains up to maxDepth', async () => {
+    const shallow = await ASTParser.parseFile(join(root, 'index.js'), { maxDepth: 2 });
+    expect(shallow.exports.map(exp => exp.name).sort()).toEqual(['Formatter', 'Widget', 'assist', 'core', 'parse', 'utils', 'version']);
+    expect(shallow.reExports).toEqual(['../index.js', './deep.js']);
+
+    const deep = await ASTParser.parseFile(join(root, 'index.js'), { maxDepth: 3 });
+    expect(deep.exports.map(exp => exp.name)).toContain('deep');
+    expect(deep.exports.map(exp => exp.name)).not.toContain('ignored');
+    expect(deep.reExports).toEqual([]);
+  });
+
+  it('attributes exports to the file that defines them', async () => {
+    const result = await ASTParser.parseFile(join(root, 'index.js'), { maxDepth: 3 });
+    const byName = new Map(result.exports.map(exp => [exp.name, exp]));
+
+    expect(byName.get('version')?.definedIn).toBe(join(root, 'index.js'));
+    expect(byName.get('parse')).toMatchObject({ type: 'function', definedIn: join(root, 'core/parse.js') });
+    expect(byName.get('deep')?.definedIn).toBe(join(root, 'core/deep.js'));
+    expect(byName.get('assist')).toMatchObject({ type: 'function', signature: 'helper(a, b)', definedIn: join(root, 'widget.js') });
+    expect(byName.get('Widget')).toMatchObject({ type: 'class', definedIn: join(root, 'widget.js') });
+    expect(byName.get('utils')).toMatchObject({ type: 'namespace', definedIn: join(root, 'utils.js') });
+  });
+
+  it('stops at re-export cycles', async () => {
+    const result = await ASTParser.parseFile(join(root, 'core/parse.js'), { maxDepth: 5 });
+
+    expect(result.exports.filter(exp => exp.name === 'parse')).toHaveLength(1);
+    expect(result.exports.map(exp => exp.name)).toEqual(expect.arrayContaining(['version', 'core', 'Formatter', 'deep']));
+  });
+
+  it('follows re-exports in declaration files to other declarations', async () => {
+    const result = await ASTParser.parseFile(join(root, 'dts/index.d.ts'), { maxDepth: 1 });
+
+    expect(result.exports.map(exp => exp.name)).toEqual(['typed']);
+    expect(result.exports[0]?.definedIn).toBe(join(root, 'dts/impl.d.ts'));
+  });
+
+  it('follows TypeScript re-exports', async () => {
+    const result = await ASTParser.parseFile(join(root, 'types/index.ts'), { maxDepth: 1 });
+
+    expect(result.exports).toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'Options', type: 'interface', definedIn: join(root, 'types/options.ts') }),
+      expect.objectContaining({ name: 'model', type: 'function', definedIn: join(root, 'types/models.ts') }),
+    ]));
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { CacheManager } from '../src/cache.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { JavaDiscoveryEngine } from '../src/engines/java.js';
+import { checkRegistry, lookupRegistryPackage } from '../src/utils/registry-index.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+const lines = (...entries: object[]) => entries.map(entry => JSON.stringify(entry)).join('\n');
+
+describe('registry index', () => {
+  let root: string;
+  let previousDirectory: string | undefined;
+
+  beforeAll(() => {
+    root = createFixtureDir('registry-index');
+    previousDirectory = process.env.IMPORT_GUARD_REGISTRY_DIR;
+    process.env.IMPORT_GUARD_REGISTRY_DIR = join(root, 'registry');
+    writeFiles(root, {
+      'registry/npm.jsonl': lines(
+        { name: 'date-fns', version: '3.6.0', description: 'Modern JavaScript date utility library', rank: 41 },
+        { name: '@tanstack/react-query', version: '5.51.0', rank: 120 },
+      ) + '\n{"name": "trunca',
+      'registry/pypi.jsonl.gz': gzipSync(lines({ name: 'PyYAML', version: '6.0.1', modules: ['yaml'] }, { name: 'python-dateutil', version: '2.9.0', modules: ['dateutil'] })),
+      'registry/go.jsonl': lines({ name: 'github.com/gin-gonic/gin', version: 'v1.10.0' }),
+      'registry/maven.jsonl': lines({ name: 'org.apache.commons:commons-lang3', version: '3.14.0', modules: ['org.apache.commons.lang3'] }),
+      'app/package.json': JSON.stringify({ name: 'app' }),
+      'app/pnpm-lock.yaml': "lockfileVersion: '9.0'\n",
+      'java-app/build.gradle': "dependencies {\n  implementation 'com.google.guava:guava:33.0.0-jre'\n  implementation 'com.squareup.okhttp3:okhttp:4.12.0'\n}\n",
+    });
+  });
+
+  afterAll(() => {
+    if (previousDirectory === undefined) {
+      delete process.env.IMPORT_GUARD_REGISTRY_DIR;
+    } else {
+      process.env.IMPORT_GUARD_REGISTRY_DIR = previousDirectory;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('looks packages up by name, normalized per ecosystem, skipping unreadable lines', () => {
+    expect(lookupRegistryPackage('npm', 'date-fns')).toMatchObject({ version: '3.6.0', rank: 41 });
+    expect(lookupRegistryPackage('npm', 'date-fnz')).toBeNull();
+    expect(lookupRegistryPackage('pypi', 'python_dateutil')?.name).toBe('python-dateutil');
+  });
+
+  it('finds packages by the modules, import paths and Java packages they provide', () => {
+    expect(lookupRegistryPackage('pypi', 'yaml')?.name).toBe('PyYAML');
+    expect(lookupRegistryPackage('go', 'github.com/gin-gonic/gin/binding')?.name).toBe('github.com/gin-gonic/gin');
+    expect(lookupRegistryPackage('maven', 'org.apache.commons.lang3.time')?.name).toBe('org.apache.commons:commons-lang3');
+  });
+
+  it('tells a missing snapshot apart from a package the snapshot does not list', () => {
+    expect(lookupRegistryPackage('crates', 'serde')).toBeUndefined();
+    expect(checkRegistry('crates', 'serde')).toEqual({ packageStatus: 'unknown' });
+  });
+
+  it('gives the install command for each ecosystem', () => {
+    expect(checkRegistry('pypi', 'yaml').installCommand).toBe('pip install PyYAML');
+    expect(checkRegistry('go', 'github.com/gin-gonic/gin').installCommand).toBe('go get github.com/gin-gonic/gin@v1.10.0');
+    expect(checkRegistry('maven', 'org.apache.commons.lang3', 'gradle').installCommand).toBe("implementation 'org.apache.commons:commons-lang3:3.14.0'");
+  });
+
+  it('reports installed, registry-only and unknown packages from validation', async () => {
+    const engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    const validate = (importStatement: string) => engine.validateImport({ importStatement, language: 'javascript', projectPath: join(root, 'app') });
+
+    expect(await validate("import { readFile } from 'fs'")).toMatchObject({ valid: true, packageStatus: 'installed' });
+
+    const published = await validate("import { format } from 'date-fns'");
+    expect(published).toMatchObject({
+      valid: false,
+      packageStatus: 'exists-in-registry',
+      registry: { name: 'date-fns', version: '3.6.0' },
+      installCommand: 'pnpm add date-fns',
+    });
+    expect(published.reason).toBe("Package 'date-fns' is not installed or available, but it is published on npm");
+
+    expect(await validate("import { useQuery } from '@tanstack/react-query/build'")).toMatchObject({ packageStatus: 'exists-in-registry' });
+    expect(await validate("import x from 'date-fns-helpers-made-up'")).toMatchObject({ valid: false, packageStatus: 'unknown' });
+  });
+
+  it('reads the build file of the project being validated', async () => {
+    const engine = new JavaDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    const result = await engine.validateImport({ importStatement: 'import org.apache.commons.lang3.StringUtils;', language: 'java', projectPath: join(root, 'java-app') });
+
+    expect(result).toMatchObject({ valid: false, packageStatus: 'exists-in-registry', installCommand: "implementation 'org.apache.commons:commons-lang3:3.14.0'" });
+
+    const declared = await engine.validateImport({ importStatement: 'import okhttp3.OkHttpClient;', language: 'java', projectPath: join(root, 'java-app') });
+    expect(declared).toMatchObject({ valid: true, packageStatus: 'installed' });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { CacheManager } from '../src/cache.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('relative import validation', () => {
+  let root: string;
+  let engine: JavaScriptDiscoveryEngine;
+
+  beforeAll(() => {
+    root = createFixtureDir('relative-imports');
+    writeFiles(root, {
+      'package.json': JSON.stringify({ name: 'fixture', type: 'module' }),
+      'src/app.ts': '',
+      'src/utils/helpers.ts': 'export function formatDate() {}\nexport const VERSION = "1";\n',
+      'src/components/index.tsx': 'export default function Button() {}\n',
+      'src/legacy.cjs': 'module.exports = { run() {} };\n',
+      'src/esm.mjs': 'export const ready = true;\n',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+  });
+
+  const validate = (importStatement: string, importingFile = join(root, 'src/app.ts')) =>
+    engine.validateImport({ importStatement, language: 'javascript', importingFile });
+
+  it('resolves extensionless and index-file imports', async () => {
+    const helpers = await validate("import { formatDate } from './utils/helpers'");
+    expect(helpers.valid).toBe(true);
+    expect(helpers.resolution).toMatchObject({ via: 'relative', file: join(root, 'src/utils/helpers.ts') });
+
+    const components = await validate("import Button from './components'");
+    expect(components.valid).toBe(true);
+    expect(components.modulePath).toBe(join(root, 'src/components/index.tsx'));
+
+    const esm = await validate("import { ready } from './esm.mjs'");
+    expect(esm.valid).toBe(true);
+
+    const legacy = await validate("import legacy from './legacy.cjs'");
+    expect(legacy.valid).toBe(true);
+    expect(legacy.resolution?.format).toBe('commonjs');
+  });
+
+  it('maps .js specifiers onto TypeScript sources', async () => {
+    const result = await validate("import { VERSION } from './utils/helpers.js'");
+    expect(result.valid).toBe(true);
+    expect(result.modulePath).toBe(join(root, 'src/utils/helpers.ts'));
+  });
+
+  it('checks named specifiers against the target file', async () => {
+    const result = await validate("import { formatDat } from './utils/helpers'");
+    expect(result.valid).toBe(false);
+    expect(result.specifiers?.[0]).toMatchObject({ imported: 'formatDat', valid: false, verified: true });
+    expect(result.suggestions).toContain('formatDate');
+  });
+
+  it('resolves from the importing file and absolute paths', async () => {
+    const nested = await validate("import { VERSION } from '../utils/helpers'", join(root, 'src/components/index.tsx'));
+    expect(nested.valid).toBe(true);
+
+    const absolute = await validate(`import { VERSION } from '${join(root, 'src/utils/helpers')}'`);
+    expect(absolute.valid).toBe(true);
+  });
+
+  it('reports missing files with similarly named siblings', async () => {
+    const result = await validate("import { formatDate } from './utils/helper'");
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain("No file matches './utils/helper'");
+    expect(result.suggestions).toContain('./utils/helpers');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFileSync, rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { CacheManager } from '../src/cache.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { inspectModuleInSandbox } from '../src/utils/sandbox.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('sandboxed introspection', () => {
+  let root: string;
+  let engine: JavaScriptDiscoveryEngine;
+
+  beforeAll(() => {
+    root = createFixtureDir('sandbox');
+    engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    writeFiles(root, {
+      'package.json': JSON.stringify({ name: 'app', dependencies: { dynamic: '1.0.0' } }),
+      'node_modules/dynamic/package.json': JSON.stringify({ name: 'dynamic', version: '1.0.0', main: 'index.js' }),
+      'node_modules/dynamic/index.js': [
+        'globalThis.__dynamicPackageLoaded = true;',
+        'const out = {};',
+        "for (const name of ['alpha', 'beta']) out[name] = function (first, second) {};",
+        "try { require('fs').writeFileSync(require('path').join(__dirname, '../../written.txt'), 'x'); } catch { out.writeBlocked = true; }",
+        "try { require('net').connect(80, 'example.com'); } catch { out.networkBlocked = true; }",
+        'Object.assign(module.exports, out);',
+      ].join('\n'),
+      'node_modules/network/package.json': JSON.stringify({ name: 'network', main: 'index.js' }),
+      'node_modules/network/index.js': [
+        "const dns = require('dns'), dgram = require('dgram'), net = require('net'), http = require('http');",
+        'const routes = {',
+        "  'dns.lookup': () => dns.lookup('example.com', () => {}),",
+        "  'dns.resolveTxt': () => dns.resolveTxt('example.com', () => {}),",
+        "  'dns.resolveMx': () => dns.resolveMx('example.com', () => {}),",
+        "  'dns.resolveNs': () => dns.resolveNs('example.com', () => {}),",
+        "  'dns.resolveCname': () => dns.resolveCname('example.com', () => {}),",
+        "  'dns.resolveSrv': () => dns.resolveSrv('example.com', () => {}),",
+        "  'dns.reverse': () => dns.reverse('93.184.216.34', () => {}),",
+        "  'dns.promises.resolveTxt': () => dns.promises.resolveTxt('example.com'),",
+        "  'dns.Resolver': () => new dns.Resolver().resolve4('example.com', () => {}),",
+        "  'dns.promises.Resolver': () => new dns.promises.Resolver().resolveTxt('example.com'),",
+        "  'dgram.createSocket': () => dgram.createSocket('udp4'),",
+        "  'dgram.Socket': () => new dgram.Socket('udp4').send('x', 53, '1.1.1.1'),",
+        "  'net.connect': () => net.connect(80, 'example.com'),",
+        "  'net.Socket': () => new net.Socket().connect(80, 'example.com'),",
+        "  'net.Server': () => new net.Server().listen(0),",
+        "  'http.get': () => http.get('http://example.com'),",
+        "  'fetch': () => fetch('http://example.com'),",
+        "  'process.binding': () => process.binding('tcp_wrap'),",
+        '};',
+        'for (const [name, route] of Object.entries(routes)) {',
+        '  try { route(); } catch (error) { if (/Network access is disabled/.test(error.message)) module.exports[name] = true; }',
+        '}',
+      ].join('\n'),
+      'node_modules/spin/package.json': JSON.stringify({ name: 'spin', main: 'index.js' }),
+      'node_modules/spin/index.js': 'while (true) {}\n',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('never runs module code unless the sandbox is requested', async () => {
+    const result = await engine.introspectModule({
+      moduleName: 'dynamic',
+      language: 'javascript',
+      includePrivate: false,
+      maxDepth: 2,
+      projectPath: root,
+      sandbox: false,
+    });
+
+    expect(result.path).toBe(join(root, 'node_modules/dynamic/index.js'));
+    expect(result.exports).toEqual([]);
+    expect((globalThis as any).__dynamicPackageLoaded).toBeUndefined();
+  });
+
+  it('loads the module in a locked-down child process when opted in', async () => {
+    const result = await engine.introspectModule({
+      moduleName: 'dynamic',
+      language: 'javascript',
+      includePrivate: false,
+      maxDepth: 2,
+      projectPath: root,
+      sandbox: true,
+    });
+
+    expect(result.exports).toEqual([
+      { name: 'alpha', type: 'function', signature: 'alpha(first, second)' },
+      { name: 'beta', type: 'function', signature: 'beta(first, second)' },
+      { name: 'writeBlocked', type: 'constant', signature: 'writeBlocked: boolean' },
+      { name: 'networkBlocked', type: 'constant', signature: 'networkBlocked: boolean' },
+    ]);
+    expect(existsSync(join(root, 'written.txt'))).toBe(false);
+    expect((globalThis as any).__dynamicPackageLoaded).toBeUndefined();
+  });
+
+  it('denies every route to the network', async () => {
+    const exports = await inspectModuleInSandbox(join(root, 'node_modules/network/index.js'), 'commonjs', {
+      packageDir: join(root, 'node_modules/network'),
+    });
+
+    expect(exports.map(exported => exported.name)).toEqual([
+      'dns.lookup', 'dns.resolveTxt', 'dns.resolveMx', 'dns.resolveNs', 'dns.resolveCname', 'dns.resolveSrv', 'dns.reverse',
+      'dns.promises.resolveTxt', 'dns.Resolver', 'dns.promises.Resolver', 'dgram.createSocket', 'dgram.Socket',
+      'net.connect', 'net.Socket', 'net.Server', 'http.get', 'fetch', 'process.binding',
+    ]);
+  });
+
+  it('kills modules that do not finish loading in time', async () => {
+    await expect(inspectModuleInSandbox(join(root, 'node_modules/spin/index.js'), 'commonjs', {
+      packageDir: join(root, 'node_modules/spin'),
+      timeoutMs: 1000,
+    })).rejects.toThrow(/killed/);
+  });
+
+  it('refuses to run on Node.js versions without the permission model', async () => {
+    const allowedFlags = Object.getOwnPropertyDescriptor(process, 'allowedNodeEnvironmentFlags')!;
+    Object.defineProperty(process, 'allowedNodeEnvironmentFlags', { value: new Set<string>(), configurable: true });
+    try {
+      await expect(inspectModuleInSandbox(join(root, 'node_modules/dynamic/index.js'), 'commonjs', {
+        packageDir: join(root, 'node_modules/dynamic'),
+      })).rejects.toThrow(/requires Node\.js >= 20/);
+    } finally {
+      Object.defineProperty(process, 'allowedNodeEnvironmentFlags', allowedFlags);
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { CacheManager } from '../src/cache.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { damerauLevenshtein, rankSuggestionGroups, rankSuggestions, suggestNames } from '../src/utils/suggestions.js';
+import { createFixtureDir } from './helpers/fixtures.js';
+
+describe('suggestions', () => {
+  it('counts adjacent transpositions as a single edit', () => {
+    expect(damerauLevenshtein('axois', 'axios')).toBe(1);
+    expect(damerauLevenshtein('reqeusts', 'requests')).toBe(1);
+    expect(damerauLevenshtein('kitten', 'sitting')).toBe(3);
+    expect(damerauLevenshtein('', 'abc')).toBe(3);
+  });
+
+  it('ranks misspellings above loosely related names, with confidence scores', () => {
+    const ranked = rankSuggestions('axois', ['axios', 'ajax', 'async', 'fs']);
+
+    expect(ranked).toEqual([{ name: 'axios', score: 0.8 }]);
+    expect(suggestNames('expres', ['express', 'express-session', 'ws'])).toEqual(['express', 'express-session']);
+  });
+
+  it('matches on token overlap across separators', () => {
+    expect(suggestNames('react-super-components', ['react', 'react-dom', 'styled-components', 'vue'])[0]).toBe('react');
+    expect(rankSuggestions('python_dateutil', ['python-dateutil'])[0]?.score).toBe(0.95);
+    expect(suggestNames('tokio::tme', ['tokio', 'serde', 'tokio::time'])).toEqual(['tokio::time', 'tokio']);
+  });
+
+  it('compares scoped names with and without their scope', () => {
+    expect(suggestNames('@types/lodahs', ['lodash', 'lowdb'])).toEqual(['lodash']);
+    expect(suggestNames('@acme/u', ['@acme/ui', '@other/ui'])[0]).toBe('@acme/ui');
+    expect(suggestNames('@angular/core', ['@babel/core'])).toEqual([]);
+  });
+
+  it('suggests names that contain or are contained in the requested one', () => {
+    expect(suggestNames('readFileAsync', ['readFile', 'readdir', 'writeFile'])).toEqual(['readFile']);
+    expect(suggestNames('fs', ['os', 'fs-extra'])).toEqual([]);
+  });
+
+  it('honors the limit and minimum score', () => {
+    const candidates = ['parse1', 'parse2', 'parse3', 'parse4', 'parse5', 'parse6'];
+
+    expect(suggestNames('parse', candidates)).toHaveLength(5);
+    expect(suggestNames('parse', candidates, { limit: 2 })).toEqual(['parse1', 'parse2']);
+    expect(suggestNames('parse', candidates, { minScore: 0.99 })).toEqual([]);
+  });
+
+  it('lists each group of candidates after the ones before it, without repeats', () => {
+    const ranked = rankSuggestionGroups('reqeusts', [['request', 'numpy'], ['requests', 'Request', 'httpx']]);
+    expect(ranked).toEqual([{ name: 'request', score: 0.75 }, { name: 'requests', score: 0.88 }]);
+    expect(rankSuggestionGroups('parse', [['parse1', 'parse2'], ['parse3']], { limit: 2 })).toHaveLength(2);
+  });
+
+  it('ranks declared dependencies and built-in modules for packages that are not installed', async () => {
+    const root = createFixtureDir('suggestions');
+    try {
+      writeFileSync(join(root, 'package.json'), JSON.stringify({ name: 'app', dependencies: { axios: '1.0.0', 'react-dom': '18.0.0' } }));
+      const engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+
+      const typo = await engine.validateImport({ importStatement: "import axios from 'axois'", language: 'javascript', projectPath: root });
+      expect(typo.rankedSuggestions).toEqual([{ name: 'axios', score: 0.8 }]);
+      expect(typo.suggestions).toEqual(['axios']);
+
+      const builtin = await engine.validateImport({ importStatement: "import { readFile } from 'fs-promise'", language: 'javascript', projectPath: root });
+      expect(builtin.suggestions?.[0]).toBe('fs');
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('falls back to widely used packages, ranked below the project\'s own', async () => {
+    const root = createFixtureDir('suggestions-popular');
+    try {
+      writeFileSync(join(root, 'package.json'), JSON.stringify({ name: 'app', dependencies: { expresso: '1.0.0' } }));
+      const engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+
+      const typo = await engine.validateImport({ importStatement: "import axios from 'axois'", language: 'javascript', projectPath: root });
+      expect(typo.suggestions).toEqual(['axios']);
+
+      const declared = await engine.validateImport({ importStatement: "import express from 'expresss'", language: 'javascript', projectPath: root });
+      expect(declared.suggestions?.slice(0, 2)).toEqual(['expresso', 'express']);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { resolveTypeDeclarations, getTypesPackageName } from '../src/resolvers/type-declarations.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('resolveTypeDeclarations', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('type-declarations');
+    writeFiles(root, {
+      'node_modules/versioned/package.json': JSON.stringify({
+        name: 'versioned',
+        main: 'index.js',
+        types: 'index.d.ts',
+        typesVersions: { '<3.0': { '*': ['ts2/*'] }, '>=4.0': { '*': ['ts4/*'] } },
+      }),
+      'node_modules/versioned/index.js': '',
+      'node_modules/versioned/index.d.ts': 'export interface Legacy {}\n',
+      'node_modules/versioned/ts4/index.d.ts': 'export interface Modern {}\n',
+      'node_modules/versioned/ts4/helpers.d.ts': 'export type Helper = string;\n',
+      'node_modules/typings-field/package.json': JSON.stringify({ name: 'typings-field', typings: './lib/main.d.ts' }),
+      'node_modules/typings-field/lib/main.d.ts': 'export declare const value: number;\n',
+      'node_modules/emitted/package.json': JSON.stringify({ name: 'emitted', exports: { './utils': './dist/utils.mjs' } }),
+      'node_modules/emitted/dist/utils.mjs': '',
+      'node_modules/emitted/dist/utils.d.mts': 'export declare function util(): void;\n',
+      'node_modules/@scope/untyped/package.json': JSON.stringify({ name: '@scope/untyped', main: 'index.js' }),
+      'node_modules/@scope/untyped/index.js': '',
+      'node_modules/@types/scope__untyped/package.json': JSON.stringify({ name: '@types/scope__untyped', types: '' }),
+      'node_modules/@types/scope__untyped/index.d.ts': 'export interface Options {}\n',
+      'node_modules/@types/scope__untyped/extra.d.ts': 'export interface Extra {}\n',
+      'node_modules/bare/package.json': JSON.stringify({ name: 'bare', main: 'index.js' }),
+      'node_modules/bare/index.js': '',
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('maps package names to DefinitelyTyped packages', () => {
+    expect(getTypesPackageName('express')).toBe('@types/express');
+    expect(getTypesPackageName('@babel/core')).toBe('@types/babel__core');
+  });
+
+  it('applies the typesVersions entry matching the running TypeScript', () => {
+    expect(resolveTypeDeclarations('versioned', '.', root, ['node', 'import'])).toMatchObject({
+      file: join(root, 'node_modules/versioned/ts4/index.d.ts'),
+      via: 'typesVersions',
+    });
+    expect(resolveTypeDeclarations('versioned', './helpers', root, ['node', 'import']).file)
+      .toBe(join(root, 'node_modules/versioned/ts4/helpers.d.ts'));
+  });
+
+  it('uses typings and declarations emitted next to the runtime entry', () => {
+    expect(resolveTypeDeclarations('typings-field', '.', root, ['node', 'import'])).toMatchObject({
+      file: join(root, 'node_modules/typings-field/lib/main.d.ts'),
+      via: 'types',
+    });
+    expect(resolveTypeDeclarations('emitted', './utils', root, ['node', 'import'])).toMatchObject({
+      file: join(root, 'node_modules/emitted/dist/utils.d.mts'),
+      via: 'sibling',
+    });
+  });
+
+  it('falls back to @types packages', () => {
+    expect(resolveTypeDeclarations('@scope/untyped', '.', root, ['node', 'import'])).toMatchObject({
+      file: join(root, 'node_modules/@types/scope__untyped/index.d.ts'),
+      via: '@types',
+      typesPackage: '@types/scope__untyped',
+    });
+    expect(resolveTypeDeclarations('@scope/untyped', './extra', root, ['node', 'import']).file)
+      .toBe(join(root, 'node_modules/@types/scope__untyped/extra.d.ts'));
+  });
+
+  it('reports packages without any declarations', () => {
+    const result = resolveTypeDeclarations('bare', '.', root, ['node', 'import']);
+    expect(result.file).toBeNull();
+    expect(result.typesPackage).toBe('@types/bare');
+    expect(result.chain).toContain('@types/bare is not installed');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { CacheManager } from '../src/cache.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { assessPackageRisk } from '../src/utils/typosquat.js';
+import { createFixtureDir } from './helpers/fixtures.js';
+
+describe('typosquat risk', () => {
+  const kinds = (packageName: string, language: Parameters<typeof assessPackageRisk>[1] = 'javascript', known: string[] = []) =>
+    assessPackageRisk(packageName, language, known).signals.map(signal => [signal.kind, signal.target]);
+
+  it('flags names a few edits away from popular packages', () => {
+    expect(kinds('axois')).toEqual([['typo', 'axios']]);
+    expect(kinds('reqeusts', 'python')).toEqual([['typo', 'requests']]);
+    expect(assessPackageRisk('axois', 'javascript')).toMatchObject({ level: 'high', score: 0.8 });
+  });
+
+  it('flags popular names padded with extra words', () => {
+    expect(kinds('axios-pro-client')).toEqual([['padding', 'axios']]);
+    expect(kinds('js-yaml-utils')).toEqual([['padding', 'js-yaml']]);
+    expect(kinds('node-lodash')).toEqual([['padding', 'lodash']]);
+    expect(assessPackageRisk('axios-pro-client', 'javascript').signals[0]?.detail).toBe("'axios-pro-client' is 'axios' with '-pro' and '-client' added");
+  });
+
+  it('flags look-alike scopes and popular names under other scopes', () => {
+    expect(kinds('@angulr/core')).toEqual([['scope-impersonation', '@angular/core']]);
+    expect(kinds('@angu1ar/core')).toEqual([['homoglyph', '@angular/core']]);
+    expect(kinds('@official/axios')).toEqual([['scope-impersonation', 'axios']]);
+    expect(kinds('angular-core')).toEqual([['scope-impersonation', '@angular/core'], ['padding', 'angular']]);
+    expect(kinds('@types/axios')).toEqual([]);
+  });
+
+  it('flags homoglyphs', () => {
+    expect(kinds('l0dash')).toEqual([['homoglyph', 'lodash']]);
+    expect(kinds('еxpress')).toEqual([['homoglyph', 'express']]);
+    expect(kinds('rnongoose')).toEqual([['homoglyph', 'mongoose']]);
+  });
+
+  it('compares with the project\'s own packages and says not to install without review', () => {
+    expect(kinds('acme-internl', 'javascript', ['acme-internal'])).toEqual([['typo', 'acme-internal']]);
+
+    const unknown = assessPackageRisk('completely-made-up-thing', 'javascript');
+    expect(unknown).toMatchObject({ level: 'low', signals: [] });
+    expect(unknown.recommendation).toMatch(/^Do not install 'completely-made-up-thing' without review/);
+    expect(assessPackageRisk('axios-pro-client', 'javascript').recommendation).toMatch(/^Do not install 'axios-pro-client' without review: .*Did you mean 'axios'\?$/);
+    expect(assessPackageRisk('lodash', 'javascript')).toMatchObject({ level: 'low', score: 0, signals: [] });
+    expect(assessPackageRisk('python_dateutil', 'python').score).toBe(0);
+  });
+
+  it('attaches the assessment to packages that are not installed', async () => {
+    const root = createFixtureDir('typosquat');
+    try {
+      writeFileSync(join(root, 'package.json'), JSON.stringify({ name: 'app' }));
+      const engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+      const result = await engine.validateImport({ importStatement: "import client from 'axios-pro-client'", language: 'javascript', projectPath: root });
+
+      expect(result.valid).toBe(false);
+      expect(result.risk).toMatchObject({ level: 'medium', signals: [{ kind: 'padding', target: 'axios' }] });
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
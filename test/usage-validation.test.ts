@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { CacheManager } from '../src/cache.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { ASTParser } from '../src/parsers/ast-parser.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('usage validation', () => {
+  let root: string;
+  let engine: JavaScriptDiscoveryEngine;
+
+  const validate = (code: string) => engine.validateUsage({ code, language: 'javascript', projectPath: root });
+
+  beforeAll(() => {
+    root = createFixtureDir('usage-validation');
+    engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    writeFiles(root, {
+      'package.json': JSON.stringify({ name: 'app', dependencies: { toolkit: '1.0.0', loose: '1.0.0' } }),
+      'node_modules/toolkit/package.json': JSON.stringify({ name: 'toolkit', version: '1.0.0', main: 'index.js', types: 'index.d.ts' }),
+      'node_modules/toolkit/index.js': '',
+      'node_modules/toolkit/index.d.ts': [
+        'declare namespace toolkit {',
+        '  function flatten<T>(values: T[][]): T[];',
+        '  function range(end: number): number[];',
+        '  function range(start: number, end: number, step?: number): number[];',
+        '  function pick(value: object, ...keys: string[]): object;',
+        '  const strings: { pad(value: string, length: number): string };',
+        '  class Queue { constructor(limit?: number); static from(values: unknown[]): Queue; push(value: unknown): void; }',
+        '  interface QueueOptions { limit: number }',
+        '  type QueueListener = (value: unknown) => void;',
+        '}',
+        'export = toolkit;',
+      ].join('\n'),
+      'node_modules/loose/package.json': JSON.stringify({ name: 'loose', version: '1.0.0', main: 'index.js' }),
+      'node_modules/loose/index.js': [
+        'exports.parse = function parse(text) {};',
+        'exports.stringify = function stringify(value) {};',
+      ].join('\n'),
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('traces member accesses and calls through import bindings, skipping shadowed names', () => {
+    const { imports, accesses } = ASTParser.parseUsages([
+      "import fs, { readFile } from 'fs';",
+      "const { join } = require('path');",
+      'fs.promises.readFile(name, "utf-8");',
+      'new fs.ReadStream(...args);',
+      "readFile('a', cb)['then'];",
+      'function local(fs) { return fs.anything; }',
+      'fs.custom = 1;',
+      "join('a', 'b');",
+    ].join('\n'));
+
+    expect(imports.map(statement => statement.statement)).toEqual(["import fs, { readFile } from 'fs';", "const { join } = require('path');"]);
+    expect(accesses.map(({ expression, imported, members, call, line, column }) => ({ expression, imported, members, call, line, column }))).toEqual([
+      { expression: 'fs.promises.readFile', imported: 'default', members: ['promises', 'readFile'], call: { arguments: 2, spread: false, construct: false }, line: 3, column: 1 },
+      { expression: 'fs.ReadStream', imported: 'default', members: ['ReadStream'], call: { arguments: 1, spread: true, construct: true }, line: 4, column: 5 },
+      { expression: 'readFile', imported: 'readFile', members: [], call: { arguments: 2, spread: false, construct: false }, line: 5, column: 1 },
+      { expression: 'join', imported: 'join', members: [], call: { arguments: 2, spread: false, construct: false }, line: 8, column: 1 },
+    ]);
+  });
+
+  it('reports members that do not exist on built-in modules, with suggestions', async () => {
+    const result = await validate("import fs from 'fs';\nfs.readFileAsync('x');\nfs.promises.readFile('x');");
+
+    expect(result.valid).toBe(false);
+    expect(result.usages[0]).toMatchObject({ expression: 'fs.readFileAsync', valid: false, verified: true, line: 2, column: 1 });
+    expect(result.usages[0]?.suggestions).toContain('readFile');
+    expect(result.usages[1]).toMatchObject({ expression: 'fs.promises.readFile', valid: true, verified: true });
+  });
+
+  it('checks members and argument counts against type declarations', async () => {
+    const result = await validate([
+      "const _ = require('toolkit');",
+      '_.flattenDeeper(values);',
+      '_.flatten(values);',
+      '_.range(1, 2, 3, 4);',
+      '_.range(5);',
+      "_.pick(value, 'a', 'b', 'c');",
+      '_.strings.padd(text, 2);',
+      '_.Queue.from([]);',
+      'new _.Queue(1, 2);',
+      '_.flatten.call(null, values);',
+    ].join('\n'));
+    const usage = (expression: string) => result.usages.find(candidate => candidate.expression === expression);
+
+    expect(usage('_.flattenDeeper')).toMatchObject({ valid: false, verified: true, reason: "'_' has no member 'flattenDeeper'" });
+    expect(usage('_.flattenDeeper')?.suggestions).toContain('flatten');
+    expect(usage('_.flatten')).toMatchObject({ valid: true, verified: true, signature: 'flatten<T>(values: T[][]): T[]' });
+    expect(result.usages.find(candidate => candidate.expression === '_.range' && candidate.line === 4)).toMatchObject({
+      valid: false,
+      reason: '_.range expects 1-3 arguments, but got 4',
+    });
+    expect(result.usages.find(candidate => candidate.expression === '_.range' && candidate.line === 5)?.valid).toBe(true);
+    expect(usage('_.pick')?.valid).toBe(true);
+    expect(usage('_.strings.padd')).toMatchObject({ valid: false, suggestions: ['pad'] });
+    expect(usage('_.Queue.from')?.valid).toBe(true);
+    expect(usage('_.Queue')).toMatchObject({ valid: false, reason: '_.Queue expects 0-1 arguments, but got 2' });
+    expect(usage('_.flatten.call')?.valid).toBe(true);
+  });
+
+  it('treats interfaces and type aliases as having no runtime value', async () => {
+    const result = await validate("import * as toolkit from 'toolkit';\ntoolkit.QueueOptions;\ntoolkit.QueueListener.call();\ntoolkit.Queu;");
+    const usage = (expression: string) => result.usages.find(candidate => candidate.expression === expression);
+
+    expect(usage('toolkit.QueueOptions')).toMatchObject({ valid: false, verified: true, reason: "'toolkit' has no member 'QueueOptions'" });
+    expect(usage('toolkit.QueueListener.call')).toMatchObject({ valid: false, verified: true, reason: "'toolkit' has no member 'QueueListener'" });
+    expect(usage('toolkit.Queu')?.suggestions).toEqual(['Queue']);
+  });
+
+  it('checks top-level names of untyped packages but leaves deeper members unverified', async () => {
+    const result = await validate("import { parse } from 'loose';\nimport * as loose from 'loose';\nloose.parser('x');\nparse.strict('x');");
+
+    expect(result.usages[0]).toMatchObject({ expression: 'loose.parser', valid: false, verified: true, suggestions: ['parse'] });
+    expect(result.usages[1]).toMatchObject({ expression: 'parse.strict', valid: true, verified: false });
+  });
+
+  it('does not check members of imports that fail to resolve', async () => {
+    const result = await validate("import missing from 'not-installed';\nmissing.anything();");
+
+    expect(result.valid).toBe(false);
+    expect(result.imports[0]?.valid).toBe(false);
+    expect(result.usages).toEqual([]);
+  });
+});
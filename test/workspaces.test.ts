@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findWorkspaceRoot, findOwningPackage, expandWorkspacePatterns } from '../src/resolvers/workspaces.js';
+import { JavaScriptDiscoveryEngine } from '../src/engines/javascript.js';
+import { CacheManager } from '../src/cache.js';
+import { createFixtureDir, writeFiles } from './helpers/fixtures.js';
+
+describe('workspaces', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = createFixtureDir('workspaces');
+    writeFiles(root, {
+      // npm workspaces with a hoisted dependency in the root node_modules
+      'npm/package.json': JSON.stringify({ name: 'npm-root', private: true, workspaces: ['packages/*', 'apps/**', '!packages/internal'] }),
+      'npm/node_modules/left-pad/package.json': JSON.stringify({ name: 'left-pad', version: '1.3.0', main: 'index.js' }),
+      'npm/node_modules/left-pad/index.js': 'module.exports = function leftPad() {};\n',
+      'npm/packages/ui/package.json': JSON.stringify({ name: '@acme/ui', version: '0.1.0', exports: { '.': './src/index.ts', './button': './src/button.ts' } }),
+      'npm/packages/ui/src/index.ts': 'export { Button } from "./button";\nexport const theme = {};\n',
+      'npm/packages/ui/src/button.ts': 'export function Button() {}\n',
+      'npm/packages/internal/package.json': JSON.stringify({ name: '@acme/internal' }),
+      'npm/apps/web/package.json': JSON.stringify({ name: 'web', dependencies: { '@acme/ui': '*', 'left-pad': '^1.3.0' } }),
+      'npm/apps/web/src/main.ts': '',
+      'npm/apps/nested/admin/package.json': JSON.stringify({ name: 'admin' }),
+      // pnpm workspace declared in YAML
+      'pnpm/package.json': JSON.stringify({ name: 'pnpm-root', private: true }),
+      'pnpm/pnpm-workspace.yaml': "packages:\n  - 'libs/*' # shared libraries\n  - \"tools/cli\"\n",
+      'pnpm/libs/core/package.json': JSON.stringify({ name: 'core', main: 'index.js' }),
+      'pnpm/libs/core/index.js': 'export const run = () => {};\n',
+      'pnpm/tools/cli/package.json': JSON.stringify({ name: 'cli' }),
+      'pnpm/tools/cli/bin.ts': '',
+      // yarn classic object form
+      'yarn/package.json': JSON.stringify({ name: 'yarn-root', workspaces: { packages: ['modules/*'] } }),
+      'yarn/yarn.lock': '',
+      'yarn/modules/a/package.json': JSON.stringify({ name: 'a' }),
+    });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('findWorkspaceRoot', () => {
+    it('detects npm workspaces and expands globs with negations', () => {
+      const workspace = findWorkspaceRoot(join(root, 'npm/apps/web/src'));
+      expect(workspace).toMatchObject({ root: join(root, 'npm'), manager: 'npm' });
+      expect(workspace?.packages.map(pkg => pkg.name).sort()).toEqual(['@acme/ui', 'admin', 'web']);
+    });
+
+    it('detects pnpm-workspace.yaml', () => {
+      const workspace = findWorkspaceRoot(join(root, 'pnpm/tools/cli'));
+      expect(workspace).toMatchObject({ manager: 'pnpm', patterns: ['libs/*', 'tools/cli'] });
+      expect(workspace?.packages.map(pkg => pkg.name)).toEqual(['core', 'cli']);
+    });
+
+    it('detects yarn workspaces declared as an object', () => {
+      const workspace = findWorkspaceRoot(join(root, 'yarn/modules/a'));
+      expect(workspace).toMatchObject({ manager: 'yarn' });
+      expect(workspace?.packages.map(pkg => pkg.name)).toEqual(['a']);
+    });
+
+    it('returns null outside a workspace', () => {
+      expect(findWorkspaceRoot(tmpdir())).toBeNull();
+      expect(expandWorkspacePatterns(join(root, 'npm'), ['missing/*'])).toEqual([]);
+    });
+  });
+
+  it('finds the package that owns a file', () => {
+    expect(findOwningPackage(join(root, 'npm/packages/ui/src'))?.name).toBe('@acme/ui');
+  });
+
+  describe('validation from a workspace package', () => {
+    let engine: JavaScriptDiscoveryEngine;
+
+    beforeEach(() => {
+      engine = new JavaScriptDiscoveryEngine(new CacheManager({ ttl: 60000, maxSize: 100 }));
+    });
+
+    const validate = (importStatement: string, importingFile: string) =>
+      engine.validateImport({ importStatement, language: 'javascript', importingFile: join(root, importingFile) });
+
+    it('resolves sibling workspace packages and their subpaths', async () => {
+      const result = await validate("import { Button, theme } from '@acme/ui'", 'npm/apps/web/src/main.ts');
+      expect(result.valid).toBe(true);
+      expect(result.modulePath).toBe(join(root, 'npm/packages/ui/src/index.ts'));
+      expect(result.resolution?.workspace).toEqual({ root: join(root, 'npm'), manager: 'npm', owner: 'web', local: true });
+
+      const subpath = await validate("import { Buton } from '@acme/ui/button'", 'npm/apps/web/src/main.ts');
+      expect(subpath.valid).toBe(false);
+      expect(subpath.suggestions).toContain('Button');
+    });
+
+    it('resolves dependencies hoisted to the workspace root', async () => {
+      const result = await validate("import leftPad from 'left-pad'", 'npm/apps/web/src/main.ts');
+      expect(result.valid).toBe(true);
+      expect(result.resolution?.workspace).toMatchObject({ owner: 'web', local: false });
+    });
+
+    it('resolves pnpm workspace members', async () => {
+      const result = await validate("import { run } from 'core'", 'pnpm/tools/cli/bin.ts');
+      expect(result.valid).toBe(true);
+      expect(result.resolution?.workspace).toMatchObject({ manager: 'pnpm', owner: 'cli', local: true });
+    });
+
+    it('suggests workspace packages for near misses', async () => {
+      const result = await validate("import { Button } from '@acme/u'", 'npm/apps/web/src/main.ts');
+      expect(result.valid).toBe(false);
+      expect(result.suggestions).toContain('@acme/ui');
+    });
+
+    it('enumerates workspace packages again only when the lockfile changes', async () => {
+      expect((await validate("import { c } from 'c'", 'yarn/modules/a/index.js')).valid).toBe(false);
+
+      writeFiles(root, {
+        'yarn/modules/c/package.json': JSON.stringify({ name: 'c', main: 'index.js' }),
+        'yarn/modules/c/index.js': 'export const c = 1;\n',
+      });
+      expect((await validate("import { c as see } from 'c'", 'yarn/modules/a/index.js')).valid).toBe(false);
+
+      const later = new Date(Date.now() + 60000);
+      utimesSync(join(root, 'yarn/yarn.lock'), later, later);
+      expect((await validate("import { c as sea } from 'c'", 'yarn/modules/a/index.js')).valid).toBe(true);
+    });
+  });
+});